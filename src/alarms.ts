@@ -0,0 +1,256 @@
+import ICAL from 'ical.js';
+import { randomUUID } from 'crypto';
+import type {
+  Alarm,
+  AlarmChanges,
+  AlarmInput,
+  AlarmRef,
+  CalendarObjectInput,
+  TargetOptions,
+  UpdateOptions,
+} from './types';
+import { getTargetComponent, parseCalendarObject } from './component';
+import { toICALTime } from './dates';
+import { trackChanges } from './tracking';
+import { ComponentNotFoundError, InvalidValueError } from './errors';
+
+const DURATION_PATTERN = /^[+-]?P/i;
+
+// Existing alarms may carry actions outside AlarmAction (PROCEDURE, X-*)
+type AlarmValues = Omit<AlarmInput, 'action'> & { action?: string };
+
+/**
+ * List the alarms (VALARM) of an event or todo
+ *
+ * @param calendarObject - iCal string or tsdav DAVCalendarObject with 'data' field
+ * @param options - Component and occurrence to read (default: master)
+ * @returns Alarms in document order, with their index
+ *
+ * @example
+ * ```typescript
+ * getAlarms(event.data);
+ * // [{ index: 0, uid: '...', action: 'DISPLAY', trigger: '-PT15M', description: 'Team Meeting' }]
+ * ```
+ */
+export function getAlarms(calendarObject: CalendarObjectInput, options: TargetOptions = {}): Alarm[] {
+  const target = getTargetComponent(parseCalendarObject(calendarObject), options);
+  return target.getAllSubcomponents('valarm').map(readAlarm);
+}
+
+/**
+ * Add an alarm to an event or todo
+ *
+ * ACTION defaults to DISPLAY; DESCRIPTION (and SUMMARY for EMAIL alarms) default to
+ * the SUMMARY of the event or todo. A UID is added so the alarm can be addressed later.
+ *
+ * @param calendarObject - iCal string or tsdav DAVCalendarObject with 'data' field
+ * @param alarm - Trigger, action and texts of the alarm
+ * @param options - Component, occurrence and change tracking, as for updateFields()
+ * @returns Updated iCal string ready for tsdav.updateCalendarObject()
+ *
+ * @example
+ * ```typescript
+ * // "Remind me 15 minutes before"
+ * const updated = addAlarm(event.data, { trigger: '-PT15M' });
+ * ```
+ */
+export function addAlarm(
+  calendarObject: CalendarObjectInput,
+  alarm: AlarmInput,
+  options: UpdateOptions = {}
+): string {
+  const component = parseCalendarObject(calendarObject);
+  const target = getTargetComponent(component, options);
+
+  trackChanges(target, ['VALARM'], options, () => {
+    const valarm = new ICAL.Component('valarm');
+    valarm.addPropertyWithValue('uid', alarm.uid ?? randomUUID());
+    writeAlarm(valarm, { action: 'DISPLAY', ...alarm }, target);
+    target.addSubcomponent(valarm);
+  });
+
+  return component.toString();
+}
+
+/**
+ * Change an existing alarm
+ *
+ * Only the given keys are changed; keys set to undefined are left as they are.
+ * REPEAT and DURATION only exist as a pair, so `null` for either removes both.
+ *
+ * @param calendarObject - iCal string or tsdav DAVCalendarObject with 'data' field
+ * @param ref - Index of the alarm, or its UID / X-WR-ALARMUID
+ * @param changes - Alarm keys to change
+ * @param options - Component, occurrence and change tracking, as for updateFields()
+ * @returns Updated iCal string ready for tsdav.updateCalendarObject()
+ */
+export function updateAlarm(
+  calendarObject: CalendarObjectInput,
+  ref: AlarmRef,
+  changes: AlarmChanges,
+  options: UpdateOptions = {}
+): string {
+  const component = parseCalendarObject(calendarObject);
+  const target = getTargetComponent(component, options);
+  const valarm = findAlarm(target, ref);
+
+  const { repeat, duration, ...rest } = changes;
+  const alarm: AlarmValues = { ...readAlarm(valarm, 0), ...definedKeys(rest) };
+
+  if (repeat === null || duration === null) {
+    alarm.repeat = repeat ?? undefined;
+    alarm.duration = duration ?? undefined;
+  } else {
+    alarm.repeat = repeat ?? alarm.repeat;
+    alarm.duration = duration ?? alarm.duration;
+  }
+
+  trackChanges(target, ['VALARM'], options, () => writeAlarm(valarm, alarm, target));
+
+  return component.toString();
+}
+
+/**
+ * Remove an alarm
+ *
+ * @param calendarObject - iCal string or tsdav DAVCalendarObject with 'data' field
+ * @param ref - Index of the alarm, or its UID / X-WR-ALARMUID
+ * @param options - Component, occurrence and change tracking, as for updateFields()
+ * @returns Updated iCal string ready for tsdav.updateCalendarObject()
+ */
+export function removeAlarm(
+  calendarObject: CalendarObjectInput,
+  ref: AlarmRef,
+  options: UpdateOptions = {}
+): string {
+  const component = parseCalendarObject(calendarObject);
+  const target = getTargetComponent(component, options);
+  const valarm = findAlarm(target, ref);
+
+  trackChanges(target, ['VALARM'], options, () => target.removeSubcomponent(valarm));
+
+  return component.toString();
+}
+
+function findAlarm(target: ICAL.Component, ref: AlarmRef): ICAL.Component {
+  const alarms = target.getAllSubcomponents('valarm');
+  const alarm = typeof ref === 'number'
+    ? alarms[ref]
+    : alarms.find((candidate) => {
+      return candidate.getFirstPropertyValue('uid') === ref ||
+             candidate.getFirstPropertyValue('x-wr-alarmuid') === ref;
+    });
+
+  if (!alarm) {
+    throw new ComponentNotFoundError(
+      `No alarm ${typeof ref === 'number' ? `at index ${ref}` : `with UID "${ref}"`}`,
+      'VALARM',
+      typeof ref === 'number' ? { index: ref } : { uid: ref }
+    );
+  }
+
+  return alarm;
+}
+
+function readAlarm(valarm: ICAL.Component, index: number): Alarm {
+  const trigger = valarm.getFirstProperty('trigger');
+  const value = trigger?.getFirstValue() as ICAL.Duration | ICAL.Time | undefined;
+
+  const alarm: Alarm = {
+    index,
+    action: String(valarm.getFirstPropertyValue('action') ?? ''),
+    trigger: value instanceof ICAL.Time ? value.toICALString() : String(value ?? ''),
+  };
+
+  const uid = valarm.getFirstPropertyValue('uid') ?? valarm.getFirstPropertyValue('x-wr-alarmuid');
+  const related = trigger?.getFirstParameter('related');
+  const description = valarm.getFirstPropertyValue('description');
+  const summary = valarm.getFirstPropertyValue('summary');
+  const attendees = valarm.getAllProperties('attendee').map((property) => String(property.getFirstValue()));
+  const repeat = valarm.getFirstPropertyValue('repeat');
+  const duration = valarm.getFirstPropertyValue('duration');
+
+  if (uid) alarm.uid = String(uid);
+  if (related) alarm.related = related.toUpperCase() as Alarm['related'];
+  if (description !== null) alarm.description = String(description);
+  if (summary !== null) alarm.summary = String(summary);
+  if (attendees.length) alarm.attendees = attendees;
+  if (repeat !== null) alarm.repeat = Number(repeat);
+  if (duration !== null) alarm.duration = String(duration);
+
+  return alarm;
+}
+
+/**
+ * Write all alarm properties, filling in what RFC 5545 requires for the action
+ */
+function writeAlarm(valarm: ICAL.Component, alarm: AlarmValues, parent: ICAL.Component): void {
+  const action = (alarm.action ?? 'DISPLAY').toUpperCase();
+  const fallbackText = String(parent.getFirstPropertyValue('summary') ?? 'Reminder');
+
+  if (action === 'EMAIL' && !alarm.attendees?.length) {
+    throw new InvalidValueError('EMAIL alarms require at least one attendee', 'ATTENDEE', alarm.attendees);
+  }
+  if ((alarm.repeat === undefined) !== (alarm.duration === undefined)) {
+    throw new InvalidValueError('Alarm REPEAT and DURATION must be set together', alarm.repeat === undefined ? 'REPEAT' : 'DURATION', alarm.repeat ?? alarm.duration);
+  }
+
+  valarm.updatePropertyWithValue('action', action);
+  writeTrigger(valarm, alarm);
+
+  setOrRemove(valarm, 'description', action === 'AUDIO' ? alarm.description : alarm.description ?? fallbackText);
+  setOrRemove(valarm, 'summary', action === 'EMAIL' ? alarm.summary ?? fallbackText : alarm.summary);
+
+  // Attendees already on the alarm keep their parameters (CN, ...)
+  const previous = valarm.getAllProperties('attendee');
+  previous.forEach((property) => valarm.removeProperty(property));
+  for (const attendee of alarm.attendees ?? []) {
+    const index = previous.findIndex((property) => property.getFirstValue() === attendee);
+    if (index === -1) {
+      valarm.addPropertyWithValue('attendee', attendee);
+    } else {
+      valarm.addProperty(previous.splice(index, 1)[0]);
+    }
+  }
+
+  setOrRemove(valarm, 'repeat', alarm.repeat);
+  setOrRemove(valarm, 'duration', alarm.duration && ICAL.Duration.fromString(alarm.duration));
+}
+
+function writeTrigger(valarm: ICAL.Component, alarm: AlarmValues): void {
+  const { trigger, related } = alarm;
+  valarm.removeAllProperties('trigger');
+
+  if (typeof trigger === 'string' && DURATION_PATTERN.test(trigger)) {
+    const property = valarm.addPropertyWithValue('trigger', ICAL.Duration.fromString(trigger));
+    if (related && related.toUpperCase() !== 'START') {
+      property.setParameter('related', related.toUpperCase());
+    }
+    return;
+  }
+
+  // RFC 5545 section 3.8.6.3: absolute triggers MUST be UTC
+  const { time } = toICALTime('TRIGGER', trigger);
+  if (time.isDate || time.zone !== ICAL.Timezone.utcTimezone) {
+    throw new InvalidValueError(`Invalid TRIGGER "${trigger}": absolute triggers must be UTC date-times`, 'TRIGGER', trigger);
+  }
+
+  const property = new ICAL.Property('trigger', valarm);
+  property.resetType('date-time');
+  property.setValue(time);
+  valarm.addProperty(property);
+}
+
+function setOrRemove(valarm: ICAL.Component, name: string, value: unknown): void {
+  if (value === undefined || value === null || value === '') {
+    valarm.removeAllProperties(name);
+  } else {
+    valarm.updatePropertyWithValue(name, value as string);
+  }
+}
+
+function definedKeys<T extends object>(changes: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(changes).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
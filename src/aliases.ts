@@ -0,0 +1,355 @@
+import type {
+  AliasComponentType,
+  AliasMap,
+  AliasOptions,
+  AliasUpdateOptions,
+  CalendarObjectInput,
+  FieldAlias,
+  FieldUpdates,
+  FieldValue,
+  JSONSchema,
+  ParameterizedValue,
+  RecurrenceRule,
+} from './types';
+import { getTargetComponent, parseCalendarObject } from './component';
+import { updateFields } from './updateFields';
+import { buildRecurrenceRule } from './recurrence';
+import { joinEscaped } from './structured';
+import { InvalidInputError } from './errors';
+
+// Property names are passed through untouched (SUMMARY, X-CUSTOM, ...)
+const PROPERTY_NAME = /^[A-Z][A-Z0-9-]*$/;
+
+const STRING_SCHEMA: JSONSchema = { type: 'string' };
+const LIST_SCHEMA: JSONSchema = { type: 'array', items: { type: 'string' } };
+const ADDRESSES_SCHEMA: JSONSchema = {
+  type: 'array',
+  items: { type: 'string', description: 'Email address, optionally as "Name <email>"' },
+};
+
+const text = (property: string, description: string): FieldAlias => ({ property, description });
+
+const date = (property: string, description: string): FieldAlias => ({
+  property,
+  description: `${description}: ISO 8601 date (all-day) or date-time, e.g. 2025-01-30 or 2025-01-30T14:00:00+01:00`,
+});
+
+const status = (values: string[]): FieldAlias => ({
+  property: 'STATUS',
+  description: 'Status',
+  convert: (value) => String(value).toUpperCase(),
+  schema: { type: 'string', enum: values.map((value) => value.toLowerCase()) },
+});
+
+const categories: FieldAlias = {
+  property: 'CATEGORIES',
+  description: 'Categories or tags',
+  convert: (value) => joinEscaped(toList(value).map(String), ','),
+  schema: LIST_SCHEMA,
+};
+
+const priority: FieldAlias = {
+  property: 'PRIORITY',
+  description: 'Priority from 1 (highest) to 9 (lowest), 0 for undefined',
+  convert: (value) => String(value),
+  schema: { type: 'integer', minimum: 0, maximum: 9 },
+};
+
+const attendees: FieldAlias = {
+  property: 'ATTENDEE',
+  description: 'Attendees (replaces the current list)',
+  convert: (value) => toList(value).map((entry) => toCalAddress(String(entry))),
+  schema: ADDRESSES_SCHEMA,
+};
+
+const organizer: FieldAlias = {
+  property: 'ORGANIZER',
+  description: 'Organizer email address, optionally as "Name <email>"',
+  convert: (value) => toCalAddress(String(value)),
+};
+
+const recurrence: FieldAlias = {
+  property: 'RRULE',
+  description: 'Recurrence rule, e.g. FREQ=WEEKLY;BYDAY=MO,WE',
+  convert: (value) => typeof value === 'string'
+    ? value.replace(/^RRULE:/i, '')
+    : buildRecurrenceRule(value as RecurrenceRule),
+  schema: {
+    anyOf: [
+      { type: 'string' },
+      {
+        type: 'object',
+        properties: {
+          freq: { type: 'string', enum: ['SECONDLY', 'MINUTELY', 'HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] },
+          interval: { type: 'integer', minimum: 1 },
+          count: { type: 'integer', minimum: 1 },
+          until: { type: 'string' },
+          byday: { type: 'array', items: { type: 'string' } },
+          bymonthday: { type: 'array', items: { type: 'integer' } },
+        },
+        required: ['freq'],
+      },
+    ],
+  },
+};
+
+/**
+ * Built-in aliases per component type
+ */
+const BUILTIN_ALIASES: Record<AliasComponentType, Record<string, FieldAlias>> = {
+  VEVENT: {
+    title: text('SUMMARY', 'Title'),
+    description: text('DESCRIPTION', 'Description'),
+    notes: text('DESCRIPTION', 'Description'),
+    location: text('LOCATION', 'Location'),
+    where: text('LOCATION', 'Location'),
+    start: date('DTSTART', 'Start'),
+    end: date('DTEND', 'End (exclusive; the day after the last day for all-day events)'),
+    duration: { property: 'DURATION', description: 'ISO 8601 duration instead of an end, e.g. PT1H30M' },
+    status: status(['TENTATIVE', 'CONFIRMED', 'CANCELLED']),
+    attendees,
+    organizer,
+    categories,
+    priority,
+    url: text('URL', 'Link'),
+    busy: {
+      property: 'TRANSP',
+      description: 'Whether the event blocks time in free/busy lookups',
+      convert: (value) => (value ? 'OPAQUE' : 'TRANSPARENT'),
+      schema: { type: 'boolean' },
+    },
+    visibility: {
+      property: 'CLASS',
+      description: 'Who may see the details',
+      convert: (value) => String(value).toUpperCase(),
+      schema: { type: 'string', enum: ['public', 'private', 'confidential'] },
+    },
+    recurrence,
+  },
+  VTODO: {
+    title: text('SUMMARY', 'Title'),
+    description: text('DESCRIPTION', 'Description'),
+    notes: text('DESCRIPTION', 'Description'),
+    location: text('LOCATION', 'Location'),
+    where: text('LOCATION', 'Location'),
+    start: date('DTSTART', 'Start'),
+    due: date('DUE', 'Due date'),
+    completed: date('COMPLETED', 'When the task was completed'),
+    status: status(['NEEDS-ACTION', 'IN-PROCESS', 'COMPLETED', 'CANCELLED']),
+    percentComplete: {
+      property: 'PERCENT-COMPLETE',
+      description: 'Progress in percent',
+      convert: (value) => String(value),
+      schema: { type: 'integer', minimum: 0, maximum: 100 },
+    },
+    attendees,
+    organizer,
+    categories,
+    priority,
+    url: text('URL', 'Link'),
+    recurrence,
+  },
+  VJOURNAL: {
+    title: text('SUMMARY', 'Title'),
+    description: text('DESCRIPTION', 'Entry text'),
+    notes: text('DESCRIPTION', 'Entry text'),
+    date: date('DTSTART', 'Date of the entry'),
+    status: status(['DRAFT', 'FINAL', 'CANCELLED']),
+    categories,
+    url: text('URL', 'Link'),
+  },
+  VCARD: {
+    name: text('FN', 'Full name'),
+    nickname: text('NICKNAME', 'Nickname'),
+    email: {
+      property: 'EMAIL',
+      description: 'Email addresses (replaces the current list)',
+      convert: (value) => toList(value).map(String),
+      schema: { anyOf: [STRING_SCHEMA, LIST_SCHEMA] },
+    },
+    phone: {
+      property: 'TEL',
+      description: 'Phone numbers (replaces the current list)',
+      convert: (value) => toList(value).map(String),
+      schema: { anyOf: [STRING_SCHEMA, LIST_SCHEMA] },
+    },
+    company: text('ORG', 'Company or organization'),
+    organization: text('ORG', 'Company or organization'),
+    title: text('TITLE', 'Job title'),
+    role: text('ROLE', 'Role or function'),
+    address: {
+      property: 'ADR',
+      description: 'Postal address',
+      convert: (value) => value as FieldValue,
+      schema: {
+        type: 'object',
+        properties: {
+          street: STRING_SCHEMA,
+          locality: STRING_SCHEMA,
+          region: STRING_SCHEMA,
+          postalCode: STRING_SCHEMA,
+          country: STRING_SCHEMA,
+        },
+      },
+    },
+    birthday: date('BDAY', 'Birthday'),
+    notes: text('NOTE', 'Notes'),
+    url: text('URL', 'Website'),
+  },
+};
+
+/**
+ * Convert friendly input keys into iCal/vCard properties
+ *
+ * Built-in aliases cover the usual fields per component type (`title` → SUMMARY,
+ * `where` → LOCATION, `start` → DTSTART, `attendees` → ATTENDEE list, `phone` → TEL, ...)
+ * and convert their values ("Name <email>" addresses, enums in lowercase). Dates stay ISO 8601
+ * strings, which updateFields() writes as DATE/DATE-TIME values.
+ * Keys that are already property names (uppercase, e.g. 'X-CUSTOM') are passed through.
+ *
+ * @param input - Friendly key-value pairs, e.g. tool call arguments
+ * @param options - Component type (default: VEVENT) and custom aliases
+ * @returns Field updates for updateFields()
+ * @throws InvalidInputError for unknown keys or two keys writing the same property
+ *
+ * @example
+ * ```typescript
+ * mapFields({ title: 'Team Sync', where: 'Room 4', start: '2025-01-30T14:00:00+01:00' });
+ * // { SUMMARY: 'Team Sync', LOCATION: 'Room 4', DTSTART: '2025-01-30T14:00:00+01:00' }
+ * ```
+ */
+export function mapFields(input: Record<string, unknown>, options: AliasOptions = {}): FieldUpdates {
+  const type = options.type ?? 'VEVENT';
+  const aliases = resolveAliases(type, options.aliases);
+  const fields: FieldUpdates = {};
+  const sources: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(input)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    const alias = aliases[key] ?? (PROPERTY_NAME.test(key) ? { property: key, convert: toFieldValue } : undefined);
+    if (!alias) {
+      throw new InvalidInputError(
+        `Unknown field "${key}" for ${type}; expected one of: ${Object.keys(aliases).join(', ')}`
+      );
+    }
+
+    const property = alias.property.toUpperCase();
+    if (sources[property]) {
+      throw new InvalidInputError(`Fields "${sources[property]}" and "${key}" both set ${property}`);
+    }
+    sources[property] = key;
+
+    fields[property] = value === null ? null : (alias.convert ?? toFieldValue)(value);
+  }
+
+  return fields;
+}
+
+/**
+ * Update fields given by friendly keys
+ *
+ * Maps the input with mapFields() for the type of the targeted component, then
+ * applies it with updateFields().
+ *
+ * @param calendarObject - iCal/vCard string or tsdav object with 'data' field
+ * @param input - Friendly key-value pairs (see mapFields())
+ * @param options - Custom aliases plus the updateFields() options
+ * @returns Updated iCal/vCard string
+ *
+ * @example
+ * ```typescript
+ * const updated = updateAliasedFields(event.data, {
+ *   title: 'Team Sync',
+ *   attendees: ['Jane Doe <jane@example.com>', 'bob@example.com'],
+ * });
+ * ```
+ */
+export function updateAliasedFields(
+  calendarObject: CalendarObjectInput,
+  input: Record<string, unknown>,
+  options: AliasUpdateOptions = {}
+): string {
+  const { aliases, ...updateOptions } = options;
+  const target = getTargetComponent(parseCalendarObject(calendarObject), updateOptions);
+  const type = target.name.toUpperCase() as AliasComponentType;
+
+  return updateFields(calendarObject, mapFields(input, { type, aliases }), updateOptions);
+}
+
+/**
+ * JSON Schema of the friendly input accepted for a component type
+ *
+ * Meant for MCP tools and other function-calling APIs to advertise their parameters.
+ *
+ * @param type - Component type (default: VEVENT)
+ * @param aliases - Custom aliases, as passed to mapFields()
+ * @returns JSON Schema (draft 2020-12) of an object with one optional property per alias
+ *
+ * @example
+ * ```typescript
+ * server.tool('update_event', getAliasSchema('VEVENT'), handler);
+ * ```
+ */
+export function getAliasSchema(type: AliasComponentType = 'VEVENT', aliases?: AliasMap): JSONSchema {
+  const properties: Record<string, JSONSchema> = {};
+
+  for (const [key, alias] of Object.entries(resolveAliases(type, aliases))) {
+    properties[key] = {
+      ...(alias.schema ?? STRING_SCHEMA),
+      ...(alias.description ? { description: alias.description } : {}),
+    };
+  }
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    type: 'object',
+    properties,
+    // mapFields() passes property names through as they are
+    patternProperties: {
+      [PROPERTY_NAME.source]: { description: 'iCalendar/vCard property name (SUMMARY, X-CUSTOM, ...), written as given' },
+    },
+    additionalProperties: false,
+  };
+}
+
+function resolveAliases(type: AliasComponentType, custom: AliasMap = {}): Record<string, FieldAlias> {
+  const aliases: Record<string, FieldAlias> = { ...BUILTIN_ALIASES[type] };
+
+  for (const [key, alias] of Object.entries(custom)) {
+    if (alias === null) {
+      delete aliases[key];
+    } else {
+      aliases[key] = typeof alias === 'string' ? { property: alias } : alias;
+    }
+  }
+
+  return aliases;
+}
+
+function toFieldValue(value: unknown): FieldValue | FieldValue[] {
+  if (Array.isArray(value)) {
+    return value.map((entry) => toFieldValue(entry) as FieldValue);
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return value as FieldValue;
+}
+
+function toList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * 'Jane Doe <jane@example.com>' → mailto:jane@example.com with CN=Jane Doe
+ */
+function toCalAddress(input: string): ParameterizedValue | string {
+  const named = /^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/.exec(input);
+  const address = (named ? named[2] : input).trim();
+  const uri = /^[a-z][a-z0-9+.-]*:/i.test(address) ? address : `mailto:${address}`;
+
+  return named?.[1] ? { value: uri, params: { CN: named[1] } } : uri;
+}
@@ -0,0 +1,147 @@
+import ICAL from 'ical.js';
+import type {
+  BatchOptions,
+  BatchResult,
+  CalendarObjectInput,
+  FieldCondition,
+  FieldPredicate,
+  FieldUpdates,
+  TargetOptions,
+  WhereClause,
+} from './types';
+import { getTargetComponent, parseCalendarObject } from './component';
+import { getFields, readFieldValue } from './getFields';
+import { updateComponents } from './updateFields';
+import { toICALTime, toJSDate } from './dates';
+
+/**
+ * Update many calendar objects or contacts at once
+ *
+ * Each object is handled independently: a malformed object or an invalid value is
+ * reported as 'failed' for that object and the rest of the batch carries on.
+ *
+ * @param objects - iCal/vCard strings or tsdav objects (e.g. fetchCalendarObjects() output)
+ * @param fields - Fields to set on every object, or a function returning them per object
+ *                 (null/undefined skips the object); it receives the object and its getFields() result
+ * @param options - `where` filter plus the updateFields() options
+ * @returns One result per input object, in input order
+ *
+ * @example
+ * ```typescript
+ * const results = updateMany(events, { 'STATUS': 'CANCELLED' }, {
+ *   where: {
+ *     'CATEGORIES': { contains: 'Project-X' },
+ *     'DTSTART': { within: { start: new Date('2025-02-01'), end: new Date('2025-03-01') } },
+ *   },
+ *   tracking: true,
+ * });
+ *
+ * for (const result of results.filter((r) => r.status === 'updated')) {
+ *   await client.updateCalendarObject({ calendarObject: { ...result.object, data: result.data! } });
+ * }
+ * ```
+ */
+export function updateMany<T extends CalendarObjectInput>(
+  objects: T[],
+  fields: FieldUpdates | ((object: T, current: FieldUpdates) => FieldUpdates | null | undefined),
+  options: BatchOptions<T> = {}
+): BatchResult<T>[] {
+  const { where, ...updateOptions } = options;
+  const target: TargetOptions = { component: options.component, occurrence: options.occurrence };
+
+  return objects.map((object, index): BatchResult<T> => {
+    try {
+      if (where && !matchesWhere(object, where, target)) {
+        return { object, index, status: 'skipped' };
+      }
+
+      const updates = typeof fields === 'function'
+        ? fields(object, getFields(object, undefined, target))
+        : fields;
+      if (!updates) {
+        return { object, index, status: 'skipped' };
+      }
+
+      const { data, changed, diagnostics, created } = updateComponents(object, updates, updateOptions);
+      return {
+        object,
+        index,
+        status: changed.length > 0 ? 'updated' : 'unchanged',
+        data,
+        ...(diagnostics ? { diagnostics } : {}),
+        ...(created ? { created } : {}),
+      };
+    } catch (error) {
+      return { object, index, status: 'failed', error: error instanceof Error ? error : new Error(String(error)) };
+    }
+  });
+}
+
+function matchesWhere<T extends CalendarObjectInput>(object: T, where: WhereClause<T>, target: TargetOptions): boolean {
+  if (typeof where === 'function') {
+    return where(object, getFields(object, undefined, target));
+  }
+
+  const root = parseCalendarObject(object);
+  const component = getTargetComponent(root, target);
+
+  return Object.entries(where).every(([name, predicate]) => {
+    return matchesPredicate(component.getAllProperties(name.toLowerCase()), root, predicate);
+  });
+}
+
+function matchesPredicate(properties: ICAL.Property[], root: ICAL.Component, predicate: FieldPredicate): boolean {
+  if (typeof predicate === 'function') {
+    return predicate(properties.map((property) => readFieldValue(property, root)));
+  }
+
+  const condition: FieldCondition = typeof predicate === 'string' ? { equals: predicate } : predicate;
+
+  if (condition.exists !== undefined && condition.exists !== properties.length > 0) {
+    return false;
+  }
+
+  // Multi-value properties (CATEGORIES, EXDATE) are tested value by value
+  const values = properties.flatMap((property) => property.getValues().map((value) => ({ property, value })));
+  const texts = values.map(({ value }) => (value instanceof ICAL.Time ? value.toICALString() : String(value)).toLowerCase());
+
+  if (condition.equals !== undefined && !texts.includes(condition.equals.toLowerCase())) {
+    return false;
+  }
+  if (condition.contains !== undefined && !toList(condition.contains).every((value) => texts.includes(value.toLowerCase()))) {
+    return false;
+  }
+  if (condition.substring !== undefined && !texts.some((text) => text.includes(condition.substring!.toLowerCase()))) {
+    return false;
+  }
+
+  if (condition.within) {
+    const start = condition.within.start !== undefined ? toInstant(condition.within.start) : undefined;
+    const end = condition.within.end !== undefined ? toInstant(condition.within.end) : undefined;
+
+    return values.some(({ property, value }) => {
+      const time = value instanceof ICAL.Period ? value.start : value;
+      if (!(time instanceof ICAL.Time)) {
+        return false;
+      }
+
+      const instant = toJSDate(time, property.getFirstParameter('tzid') || undefined, root);
+      return (!start || instant >= start) && (!end || instant < end);
+    });
+  }
+
+  return true;
+}
+
+function toList(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function toInstant(value: Date | string): Date {
+  if (value instanceof Date) {
+    return value;
+  }
+
+  const { time, tzid } = toICALTime('within', value);
+  return toJSDate(time, tzid);
+}
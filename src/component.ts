@@ -0,0 +1,211 @@
+import ICAL from 'ical.js';
+import type { CalendarObjectInput, ComponentRef, ComponentSelector, JCalComponent, TargetOptions } from './types';
+import { getMasterComponent, resolveOccurrence, type SeriesSplit } from './occurrences';
+import { ComponentNotFoundError, InvalidInputError, ParseError } from './errors';
+
+/**
+ * Parse a calendar object input into its root ICAL.Component
+ *
+ * @param calendarObject - iCal string, jCal/jCard array or tsdav DAVCalendarObject with 'data' field
+ * @returns Root component (VCALENDAR or VCARD)
+ */
+export function parseCalendarObject(calendarObject: CalendarObjectInput): ICAL.Component {
+  if (Array.isArray(calendarObject)) {
+    return fromJCalInput(calendarObject);
+  }
+
+  // Extract iCal string from input
+  const icalString = typeof calendarObject === 'string'
+    ? calendarObject
+    : calendarObject?.data;
+
+  if (!icalString) {
+    throw new InvalidInputError('Invalid input: calendarObject must be a string or object with "data" field');
+  }
+
+  let jCal: any;
+  try {
+    jCal = ICAL.parse(icalString);
+  } catch (error: any) {
+    throw new ParseError(`Failed to parse iCal data: ${error.message}`, locateParseError(icalString, error.message));
+  }
+
+  if (!Array.isArray(jCal) || typeof jCal[0] !== 'string') {
+    throw new ParseError('Failed to parse iCal data: expected exactly one VCALENDAR or VCARD');
+  }
+
+  return new ICAL.Component(jCal);
+}
+
+/**
+ * Wrap a jCal/jCard array in an ICAL.Component
+ * ical.js edits the array in place, so the caller's copy is cloned first.
+ */
+function fromJCalInput(jCal: JCalComponent): ICAL.Component {
+  const [name, properties, components] = jCal;
+
+  if (!/^(vcalendar|vcard)$/i.test(name) || !Array.isArray(properties) || !Array.isArray(components)) {
+    throw new InvalidInputError('Invalid input: jCal must be ["vcalendar" or "vcard", properties, components]');
+  }
+
+  return new ICAL.Component(JSON.parse(JSON.stringify(jCal)));
+}
+
+/**
+ * Find the content line an ical.js parser message quotes, as 1-based line and column
+ * Column points at the parameters for parameter errors, otherwise at the line start.
+ */
+function locateParseError(input: string, message: string): { line?: number; column?: number; source?: string } {
+  const quote = message.slice(-1);
+  if (quote !== '"' && quote !== "'") {
+    // Unterminated components are reported at the end of the input
+    return /did not end/.test(message) ? { line: input.trimEnd().split(/\r?\n/).length } : {};
+  }
+
+  // Unfold (RFC 5545 section 3.1), remembering where each content line starts
+  const physical = input.split(/\r?\n/);
+  for (let start = 0; start < physical.length; start++) {
+    let source = physical[start];
+    let next = start + 1;
+    while (next < physical.length && /^[ \t]/.test(physical[next])) {
+      source += physical[next++].slice(1);
+    }
+
+    if (message.endsWith(` ${quote}${source}${quote}`)) {
+      const column = /param|quote/i.test(message) ? source.indexOf(';') + 1 : 1;
+      return { line: start + 1, column: column || 1, source };
+    }
+    start = next - 1;
+  }
+
+  return {};
+}
+
+/**
+ * Calendar components that hold an object's properties, in default lookup order
+ */
+const CALENDAR_COMPONENTS = ['vevent', 'vtodo', 'vjournal', 'vfreebusy'];
+
+/**
+ * Find the component that holds the object's properties
+ *
+ * VEVENT and VTODO are wrapped in VCALENDAR, VCARD is standalone.
+ * For recurring series the master is returned unless an occurrence is selected.
+ * Note: component.name returns lowercase
+ *
+ * @param root - Root component returned by parseCalendarObject()
+ * @param options - Component and occurrence of a recurring series to target
+ * @returns VEVENT, VTODO, VJOURNAL or VFREEBUSY for calendars, the VCARD itself otherwise
+ */
+export function getTargetComponent(
+  root: ICAL.Component,
+  options: TargetOptions = {}
+): ICAL.Component {
+  const component = options.component && { ...options.component, all: false };
+  return getTargetComponents(root, { ...options, component })[0];
+}
+
+/**
+ * Find every component an update applies to
+ *
+ * Without a selector this is the single component getTargetComponent() returns.
+ * With `component.all` every matching component is returned (possibly none).
+ *
+ * @param root - Root component returned by parseCalendarObject()
+ * @param options - Component selector and occurrence to target
+ * @param splits - Collects the series a this-and-future occurrence splits off (rejected without it)
+ * @returns Components to read or write, in document order
+ */
+export function getTargetComponents(
+  root: ICAL.Component,
+  options: TargetOptions = {},
+  splits?: SeriesSplit[]
+): ICAL.Component[] {
+  if (root.name !== 'vcalendar') {
+    // Standalone component (VCARD)
+    return [root];
+  }
+
+  const { component: selector, occurrence } = options;
+  let masters: ICAL.Component[];
+
+  if (selector) {
+    const matches = selectComponents(root, selector);
+    const index = selector.index ?? 0;
+
+    if (!selector.all && !matches[index]) {
+      throw new ComponentNotFoundError(
+        `No component matches the selector ${describeSelector(selector)}`,
+        selector.type?.toUpperCase(),
+        { type: selector.type, uid: selector.uid, index: selector.index }
+      );
+    }
+    masters = selector.all ? matches : [matches[index]];
+  } else {
+    // Try to find VEVENT, VTODO, or other subcomponents
+    const type = CALENDAR_COMPONENTS.find((name) => root.getFirstSubcomponent(name));
+
+    if (!type) {
+      throw new ComponentNotFoundError('No VEVENT, VTODO, VJOURNAL, or VFREEBUSY found in VCALENDAR');
+    }
+    masters = [getMasterComponent(root, type)!];
+  }
+
+  return occurrence && occurrence !== 'master'
+    ? masters.map((master) => resolveOccurrence(root, master, occurrence, splits))
+    : masters;
+}
+
+/**
+ * Describe a component by type, UID, position and RECURRENCE-ID
+ */
+export function toComponentRef(root: ICAL.Component, component: ICAL.Component): ComponentRef {
+  const ref: ComponentRef = {
+    type: component.name.toUpperCase(),
+    index: root === component ? 0 : root.getAllSubcomponents(component.name).indexOf(component),
+  };
+
+  const uid = component.getFirstPropertyValue('uid');
+  if (uid) {
+    ref.uid = String(uid);
+  }
+
+  const recurrenceId = component.getFirstPropertyValue('recurrence-id') as ICAL.Time | null;
+  if (recurrenceId) {
+    ref.recurrenceId = recurrenceId.toICALString();
+  }
+
+  return ref;
+}
+
+/**
+ * List the components matching a selector
+ * Overrides are skipped unless the calendar holds no master for their UID
+ */
+function selectComponents(root: ICAL.Component, selector: ComponentSelector): ICAL.Component[] {
+  const type = selector.type?.toLowerCase();
+
+  return root.getAllSubcomponents().filter((component) => {
+    if (!CALENDAR_COMPONENTS.includes(component.name)) {
+      return false;
+    }
+    if (type && component.name !== type) {
+      return false;
+    }
+
+    const uid = component.getFirstPropertyValue('uid');
+    if (selector.uid !== undefined && uid !== selector.uid) {
+      return false;
+    }
+    if (component.hasProperty('recurrence-id') && getMasterComponent(root, component.name, uid) !== component) {
+      return false;
+    }
+
+    return !selector.match || selector.match(component);
+  });
+}
+
+function describeSelector(selector: ComponentSelector): string {
+  const { type, uid, index, match } = selector;
+  return JSON.stringify({ type, uid, index, match: match ? 'predicate' : undefined });
+}
@@ -0,0 +1,309 @@
+import ICAL from 'ical.js';
+import type { AllDayOptions, CalendarObjectInput, UpdateOptions } from './types';
+import { getTargetComponents, parseCalendarObject } from './component';
+import { toICALTime, toJSDate } from './dates';
+import { getOverrides } from './occurrences';
+import { toUntil } from './recurrence';
+import { trackChanges } from './tracking';
+import { applyTimezoneOption } from './timezones';
+import { InvalidInputError } from './errors';
+
+/**
+ * Date properties that move with the event (RRULE UNTIL is adapted separately)
+ */
+const EVENT_DATES = ['dtstart', 'dtend', 'due', 'recurrence-id', 'exdate', 'rdate'];
+
+const TIME_PATTERN = /^(\d{2}):?(\d{2})(?::?(\d{2}))?$/;
+
+/**
+ * Move an event or todo to another time zone, keeping the same instants
+ *
+ * DTSTART, DTEND, DUE, RECURRENCE-ID, EXDATE and RDATE are rewritten as wall-clock
+ * times of the new zone. When the master of a recurring series is targeted, its
+ * overrides are converted too. All-day (DATE) values are left alone; floating times
+ * have no instant and are pinned to the new zone unchanged.
+ *
+ * @param calendarObject - iCal string or tsdav DAVCalendarObject with 'data' field
+ * @param tzid - IANA zone to convert to, or 'UTC'
+ * @param options - Component, occurrence, change tracking and VTIMEZONE embedding, as for updateFields()
+ * @returns Updated iCal string ready for tsdav.updateCalendarObject()
+ *
+ * @example
+ * ```typescript
+ * // DTSTART;TZID=Europe/Berlin:20250130T140000 -> DTSTART;TZID=America/New_York:20250130T080000
+ * const updated = convertTimezone(event.data, 'America/New_York');
+ * ```
+ */
+export function convertTimezone(
+  calendarObject: CalendarObjectInput,
+  tzid: string,
+  options: UpdateOptions = {}
+): string {
+  const root = parseCalendarObject(calendarObject);
+  const utc = tzid.toUpperCase() === 'UTC';
+
+  for (const component of getSeries(root, options)) {
+    trackChanges(component, [...EVENT_DATES, 'rrule'], options, () => {
+      for (const property of EVENT_DATES.flatMap((name) => component.getAllProperties(name))) {
+        const source = property.getFirstParameter('tzid') || undefined;
+
+        writeTimes(property, utc ? undefined : tzid, (time) => {
+          if (time.isDate) {
+            return time;
+          }
+          if (!source && time.zone !== ICAL.Timezone.utcTimezone) {
+            // Floating: no instant to keep, pin the wall-clock time to the new zone
+            const pinned = time.clone();
+            if (utc) {
+              pinned.zone = ICAL.Timezone.utcTimezone;
+            }
+            return pinned;
+          }
+
+          const instant = toJSDate(time, source, root);
+          return utc
+            ? ICAL.Time.fromJSDate(instant, true)
+            : toICALTime(property.name.toUpperCase(), { value: instant, tzid }).time;
+        });
+      }
+
+      adaptUntil(component, root, utc ? undefined : tzid);
+    });
+  }
+
+  applyTimezoneOption(root, options);
+  return root.toString();
+}
+
+/**
+ * Turn a timed event into an all-day event, or an all-day event into a timed one
+ *
+ * To all-day: DTSTART becomes the DATE it falls on and DTEND the exclusive end date
+ * (the day after the last day the event touches, at least one day after DTSTART).
+ * DURATION becomes whole days, and EXDATE, RDATE, RECURRENCE-ID and RRULE UNTIL become DATEs.
+ *
+ * To timed: the event starts at `options.time` on its first day and lasts
+ * `options.duration` (multi-day events keep their extra days).
+ *
+ * @param calendarObject - iCal string or tsdav DAVCalendarObject with 'data' field
+ * @param allDay - true for an all-day event, false for a timed event
+ * @param options - Zone, start time and duration of timed events, plus the updateFields() options
+ * @returns Updated iCal string ready for tsdav.updateCalendarObject()
+ *
+ * @example
+ * ```typescript
+ * const allDay = setAllDay(event.data, true);
+ * const timed = setAllDay(allDay, false, { time: '14:00', duration: 'PT30M', tzid: 'Europe/Berlin' });
+ * ```
+ */
+export function setAllDay(
+  calendarObject: CalendarObjectInput,
+  allDay: boolean,
+  options: AllDayOptions = {}
+): string {
+  const root = parseCalendarObject(calendarObject);
+
+  for (const component of getSeries(root, options)) {
+    const start = component.getFirstPropertyValue('dtstart') as ICAL.Time | null;
+    if (!start) {
+      throw new InvalidInputError('Cannot change all-day state: component has no DTSTART');
+    }
+    if (start.isDate === allDay) {
+      continue;
+    }
+
+    const zone = component.getFirstProperty('dtstart')!.getFirstParameter('tzid') || options.tzid;
+
+    trackChanges(component, [...EVENT_DATES, 'duration', 'rrule'], options, () => {
+      if (allDay) {
+        toAllDay(component, root, options);
+      } else {
+        toTimed(component, options);
+      }
+      adaptUntil(component, root, zone);
+    });
+  }
+
+  applyTimezoneOption(root, options);
+  return root.toString();
+}
+
+function toAllDay(component: ICAL.Component, root: ICAL.Component, options: AllDayOptions): void {
+  const dtstart = component.getFirstProperty('dtstart')!;
+  const startTzid = dtstart.getFirstParameter('tzid') || undefined;
+  const start = wallClock(dtstart.getFirstValue() as ICAL.Time, startTzid, root, options.tzid);
+  const startDate = toDate(start);
+
+  const dtend = component.getFirstProperty('dtend');
+  const duration = component.getFirstPropertyValue('duration') as ICAL.Duration | null;
+
+  if (dtend || duration) {
+    let end: ICAL.Time;
+    if (dtend) {
+      end = wallClock(dtend.getFirstValue() as ICAL.Time, dtend.getFirstParameter('tzid') || undefined, root, options.tzid);
+    } else {
+      end = start.clone();
+      end.addDuration(duration!);
+    }
+
+    // Exclusive end: the day after the last day the event touches
+    let endDate = toDate(end);
+    if (end.hour || end.minute || end.second) {
+      endDate.adjust(1, 0, 0, 0);
+    }
+    if (endDate.compare(startDate) <= 0) {
+      endDate = startDate.clone();
+      endDate.adjust(1, 0, 0, 0);
+    }
+
+    if (dtend) {
+      writeTimes(dtend, undefined, () => endDate);
+    } else {
+      const days = endDate.subtractDate(startDate).toSeconds() / 86400;
+      component.updatePropertyWithValue('duration', ICAL.Duration.fromData({ days }));
+    }
+  }
+
+  for (const property of EVENT_DATES.filter((name) => name !== 'dtend').flatMap((name) => component.getAllProperties(name))) {
+    const tzid = property.getFirstParameter('tzid') || undefined;
+    writeTimes(property, undefined, (time) => toDate(wallClock(time, tzid, root, options.tzid)));
+  }
+}
+
+function toTimed(component: ICAL.Component, options: AllDayOptions): void {
+  const match = TIME_PATTERN.exec(options.time ?? '09:00');
+  if (!match) {
+    throw new InvalidInputError(`Invalid time "${options.time}": expected HH:MM`);
+  }
+
+  const [, hour, minute, second = '0'] = match;
+  const utc = options.tzid?.toUpperCase() === 'UTC';
+  const tzid = utc ? undefined : options.tzid;
+  const length = ICAL.Duration.fromString(options.duration ?? 'PT1H');
+
+  const atTime = (date: ICAL.Time) => ICAL.Time.fromData({
+    year: date.year,
+    month: date.month,
+    day: date.day,
+    hour: +hour,
+    minute: +minute,
+    second: +second,
+  }, utc ? ICAL.Timezone.utcTimezone : undefined);
+
+  const dtstart = component.getFirstProperty('dtstart')!;
+  const startDate = dtstart.getFirstValue() as ICAL.Time;
+  const start = atTime(startDate);
+
+  const dtend = component.getFirstProperty('dtend');
+  const duration = component.getFirstPropertyValue('duration') as ICAL.Duration | null;
+
+  // Extra days beyond the first are kept, the first day gets the requested length
+  const spanDays = dtend
+    ? Math.max(1, (dtend.getFirstValue() as ICAL.Time).subtractDate(startDate).toSeconds() / 86400)
+    : duration ? Math.max(1, Math.ceil(duration.toSeconds() / 86400)) : 1;
+  const total = ICAL.Duration.fromSeconds((spanDays - 1) * 86400 + length.toSeconds());
+
+  if (dtend) {
+    const end = start.clone();
+    end.addDuration(total);
+    writeTimes(dtend, tzid, () => end);
+  } else if (duration) {
+    component.updatePropertyWithValue('duration', total);
+  }
+
+  for (const property of EVENT_DATES.filter((name) => name !== 'dtend').flatMap((name) => component.getAllProperties(name))) {
+    writeTimes(property, tzid, (time) => (time.isDate ? atTime(time) : time));
+  }
+}
+
+/**
+ * The target component plus, for the master of a series, its overrides
+ */
+function getSeries(root: ICAL.Component, options: UpdateOptions): ICAL.Component[] {
+  return getTargetComponents(root, options).flatMap((target) => {
+    if (target === root || target.hasProperty('recurrence-id')) {
+      return [target];
+    }
+
+    return [target, ...getOverrides(root, target)];
+  });
+}
+
+/**
+ * Map every time of a date property (including PERIOD starts and ends) and set its TZID
+ */
+function writeTimes(
+  property: ICAL.Property,
+  tzid: string | undefined,
+  convert: (time: ICAL.Time) => ICAL.Time
+): void {
+  const values = property.getValues().map((value) => {
+    if (value instanceof ICAL.Period) {
+      const start = convert(value.start);
+      if (start.isDate) {
+        return start;
+      }
+      return ICAL.Period.fromData({
+        start,
+        end: value.end ? convert(value.end) : undefined,
+        duration: value.duration ?? undefined,
+      });
+    }
+    return value instanceof ICAL.Time ? convert(value) : value;
+  });
+
+  if (property.isMultiValue) {
+    property.setValues(values);
+  } else {
+    property.setValue(values[0]);
+  }
+
+  const first = values[0] as ICAL.Time | ICAL.Period | undefined;
+  const isZoned = first instanceof ICAL.Period || (first instanceof ICAL.Time && !first.isDate &&
+                  first.zone !== ICAL.Timezone.utcTimezone);
+
+  property.removeParameter('tzid');
+  if (tzid && isZoned) {
+    property.setParameter('tzid', tzid);
+  }
+}
+
+/**
+ * Wall-clock time of a value in its own zone, or in `zone` for UTC times
+ */
+function wallClock(time: ICAL.Time, tzid: string | undefined, root: ICAL.Component, zone?: string): ICAL.Time {
+  if (time.zone === ICAL.Timezone.utcTimezone && zone && zone.toUpperCase() !== 'UTC') {
+    return toICALTime('DTSTART', { value: toJSDate(time, tzid, root), tzid: zone }).time;
+  }
+  return time;
+}
+
+function toDate(time: ICAL.Time): ICAL.Time {
+  return ICAL.Time.fromData({ year: time.year, month: time.month, day: time.day, isDate: true });
+}
+
+/**
+ * Re-derive RRULE UNTIL from DTSTART's new value type
+ * `zone` is the zone whose calendar day a UTC UNTIL falls on when it becomes a DATE
+ */
+function adaptUntil(component: ICAL.Component, root: ICAL.Component, zone?: string): void {
+  const rrule = component.getFirstProperty('rrule');
+  const recur = rrule?.getFirstValue() as ICAL.Recur | undefined;
+
+  if (!rrule || !recur?.until) {
+    return;
+  }
+
+  const dtstart = component.getFirstProperty('dtstart');
+  const start = dtstart?.getFirstValue() as ICAL.Time | undefined;
+  const until = recur.until;
+
+  // A timed UNTIL turning into a DATE keeps the calendar day it falls on in the start's zone
+  const value = start?.isDate && !until.isDate
+    ? toDate(wallClock(until, undefined, root, zone)).toICALString()
+    : until.toICALString();
+
+  const updated = recur.clone();
+  updated.until = toUntil(value, dtstart, root);
+  rrule.setValue(updated);
+}
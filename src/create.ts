@@ -0,0 +1,148 @@
+import ICAL from 'ical.js';
+import { randomUUID } from 'crypto';
+import type {
+  CreateContactOptions,
+  CreatedObject,
+  CreateOptions,
+  FieldUpdates,
+} from './types';
+import { applyFieldUpdates } from './properties';
+import { applyTimezoneOption } from './timezones';
+import { createVCardComponent } from './vcard';
+import { InvalidInputError } from './errors';
+
+export const DEFAULT_PRODID = '-//tsdav-utils//EN';
+
+/**
+ * Create a new VEVENT wrapped in a VCALENDAR
+ *
+ * Accepts the same field map as updateFields(). UID, DTSTAMP, VERSION and PRODID
+ * are added automatically. DTSTART is required: the calendar carries no METHOD,
+ * so RFC 5545 section 3.6.1 makes it mandatory and servers reject events without it.
+ *
+ * @param fields - Key-value pairs of iCal properties (e.g., {'SUMMARY': 'Kickoff'})
+ * @param options - UID and PRODID overrides, VTIMEZONE embedding
+ * @returns `{ data, filename, uid }` ready for tsdav.createCalendarObject()
+ * @throws InvalidInputError when DTSTART is missing
+ *
+ * @example
+ * ```typescript
+ * const { data, filename } = createEvent({
+ *   'SUMMARY': 'Kickoff',
+ *   'DTSTART': { value: '20250203T100000', tzid: 'Europe/Berlin' },
+ *   'DTEND': { value: '20250203T110000', tzid: 'Europe/Berlin' },
+ * });
+ * await client.createCalendarObject({ calendar, filename, iCalString: data });
+ * ```
+ */
+export function createEvent(fields: FieldUpdates, options: CreateOptions = {}): CreatedObject {
+  requireField(fields, 'DTSTART', 'VEVENT');
+  return createCalendarObject('vevent', fields, options);
+}
+
+/**
+ * Create a new VTODO wrapped in a VCALENDAR
+ * See createEvent() for details
+ */
+export function createTodo(fields: FieldUpdates, options: CreateOptions = {}): CreatedObject {
+  return createCalendarObject('vtodo', fields, options);
+}
+
+/**
+ * Create a new VJOURNAL wrapped in a VCALENDAR
+ * See createEvent() for details
+ */
+export function createJournal(fields: FieldUpdates, options: CreateOptions = {}): CreatedObject {
+  return createCalendarObject('vjournal', fields, options);
+}
+
+/**
+ * Create a new VCARD
+ *
+ * Accepts the same field map as updateFields(), including structured N/ADR/ORG.
+ * VERSION, PRODID and UID are added automatically. FN is required
+ * (RFC 6350 section 6.2.1, RFC 2426 section 3.1.1).
+ *
+ * @param fields - Key-value pairs of vCard properties (e.g., {'FN': 'Jane Doe'})
+ * @param options - vCard version, UID and PRODID overrides
+ * @returns `{ data, filename, uid }` ready for tsdav.createVCard()
+ * @throws InvalidInputError when FN is missing or empty
+ *
+ * @example
+ * ```typescript
+ * const { data, filename } = createContact({
+ *   'FN': 'Jane Doe',
+ *   'N': { family: 'Doe', given: 'Jane' },
+ *   'EMAIL': { value: 'jane@example.com', params: { TYPE: 'work' } },
+ * });
+ * await client.createVCard({ addressBook, filename, vCardString: data });
+ * ```
+ */
+export function createContact(fields: FieldUpdates, options: CreateContactOptions = {}): CreatedObject {
+  requireField(fields, 'FN', 'VCARD');
+
+  const vcard = createVCardComponent(options.version ?? '3.0');
+  vcard.addPropertyWithValue('prodid', options.prodId ?? DEFAULT_PRODID);
+
+  const uid = resolveUid(fields, options);
+  vcard.addPropertyWithValue('uid', uid);
+
+  applyFieldUpdates(vcard, withoutUid(fields));
+
+  return { data: vcard.toString(), filename: toFilename(uid, 'vcf'), uid };
+}
+
+function createCalendarObject(
+  type: 'vevent' | 'vtodo' | 'vjournal',
+  fields: FieldUpdates,
+  options: CreateOptions
+): CreatedObject {
+  const calendar = new ICAL.Component('vcalendar');
+  calendar.addPropertyWithValue('version', '2.0');
+  calendar.addPropertyWithValue('prodid', options.prodId ?? DEFAULT_PRODID);
+
+  const component = new ICAL.Component(type);
+  calendar.addSubcomponent(component);
+
+  const uid = resolveUid(fields, options);
+  component.addPropertyWithValue('uid', uid);
+  component.addPropertyWithValue('dtstamp', ICAL.Time.fromJSDate(new Date(), true));
+
+  applyFieldUpdates(component, withoutUid(fields));
+  applyTimezoneOption(calendar, options);
+
+  return { data: calendar.toString(), filename: toFilename(uid, 'ics'), uid };
+}
+
+function resolveUid(fields: FieldUpdates, options: CreateOptions): string {
+  if (options.uid) {
+    return options.uid;
+  }
+
+  const value = findField(fields, 'UID');
+  return typeof value === 'string' && value ? value : randomUUID();
+}
+
+// The resolved UID is already written; a UID field must not overwrite it
+function withoutUid(fields: FieldUpdates): FieldUpdates {
+  return Object.fromEntries(Object.entries(fields).filter(([name]) => name.toUpperCase() !== 'UID'));
+}
+
+function requireField(fields: FieldUpdates, name: string, type: string): void {
+  const value = findField(fields, name);
+  const values = Array.isArray(value) ? value : [value];
+
+  if (!values.some((entry) => entry !== null && entry !== undefined && entry !== '')) {
+    throw new InvalidInputError(`Cannot create a ${type} without ${name}`);
+  }
+}
+
+function findField(fields: FieldUpdates, name: string): FieldUpdates[string] | undefined {
+  const key = Object.keys(fields).find((field) => field.toUpperCase() === name);
+  return key ? fields[key] : undefined;
+}
+
+// Keep filenames URL-safe: servers build the object URL from them
+export function toFilename(uid: string, extension: string): string {
+  return `${uid.replace(/[^\w.@-]/g, '-')}.${extension}`;
+}
@@ -0,0 +1,274 @@
+import ICAL from 'ical.js';
+import type { DateTimeValue, FieldValue, PropertyParams } from './types';
+import { InvalidValueError } from './errors';
+
+/**
+ * Properties whose values are DATE or DATE-TIME
+ * Plain string values for these are parsed into ICAL.Time instead of being
+ * written as text (ical.js would otherwise reject or mangle them)
+ */
+const DATE_PROPERTIES = new Set([
+  'DTSTART',
+  'DTEND',
+  'DUE',
+  'RECURRENCE-ID',
+  'COMPLETED',
+  'LAST-MODIFIED',
+  'DTSTAMP',
+  'CREATED',
+  'BDAY',
+]);
+
+/**
+ * Date properties that may also hold text (vCard VALUE=text) or a reduced date (--0415)
+ * Only full dates and date-times are converted; anything else is written as-is
+ */
+const TEXT_DATE_PROPERTIES = new Set(['BDAY']);
+
+// Accepts both basic (20250130T140000Z) and extended (2025-01-30T14:00:00Z) forms,
+// and ISO 8601 UTC offsets (2025-01-30T14:00:00+01:00), which iCal has no literal form for
+const DATE_PATTERN = /^(\d{4})-?(\d{2})-?(\d{2})(?:T(\d{2}):?(\d{2})(?::?(\d{2}))?(?:\.\d+)?(Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+/**
+ * Check whether a property name is a known DATE/DATE-TIME property
+ */
+export function isDateProperty(name: string): boolean {
+  return DATE_PROPERTIES.has(name.toUpperCase());
+}
+
+/**
+ * Check whether a field value is written as DATE/DATE-TIME:
+ * typed date values always, strings for known date properties unless they are text
+ */
+export function isDateField(property: ICAL.Property, name: string, value: FieldValue): boolean {
+  if (isDateValue(value)) {
+    return true;
+  }
+  if (!isDateProperty(name)) {
+    return false;
+  }
+  if (!TEXT_DATE_PROPERTIES.has(name.toUpperCase())) {
+    return true;
+  }
+
+  const descriptor = typeof value === 'object' && 'value' in value ? value : undefined;
+  const raw = descriptor ? descriptor.value : value;
+  const type = getParam(descriptor?.params, 'value') ?? property.type;
+
+  return type.toLowerCase() !== 'text' && typeof raw === 'string' && DATE_PATTERN.test(raw.trim());
+}
+
+/**
+ * Check whether a field value is a typed date value
+ * (JS Date, or a descriptor with a Date value, `tzid` or `allDay`)
+ */
+export function isDateValue(value: FieldValue): value is Date | DateTimeValue {
+  if (value instanceof Date) {
+    return true;
+  }
+
+  return typeof value === 'object' && value !== null && (
+    ('value' in value && value.value instanceof Date) ||
+    'tzid' in value ||
+    'allDay' in value
+  );
+}
+
+/**
+ * Convert a field value into an ICAL.Time plus the TZID parameter to write
+ *
+ * - iCal/ISO strings ending in 'Z' or a UTC offset (+01:00) and JS Dates are absolute instants,
+ *   written in UTC
+ * - Strings without either are floating (or local to `tzid` when given)
+ * - Instants combined with `tzid` are converted to that zone's wall-clock time
+ * - `allDay` truncates to a DATE value (TZID is dropped, DATE values have none)
+ */
+export function toICALTime(
+  name: string,
+  input: FieldValue
+): { time: ICAL.Time; tzid?: string } {
+  const descriptor: DateTimeValue = typeof input === 'string' || input instanceof Date
+    ? { value: input }
+    : input as DateTimeValue;
+  const { value, allDay } = descriptor;
+  const tzid = descriptor.tzid ?? getParam(descriptor.params, 'tzid');
+
+  let time: ICAL.Time;
+
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) {
+      throw new InvalidValueError(`Invalid date value for ${name}: Invalid Date`, name, value);
+    }
+    time = tzid ? fromInstantInZone(value, tzid) : ICAL.Time.fromJSDate(value, true);
+  } else {
+    const match = typeof value === 'string' ? DATE_PATTERN.exec(value.trim()) : null;
+    if (!match) {
+      throw new InvalidValueError(`Invalid date value for ${name}: "${value}"`, name, value);
+    }
+
+    const [, year, month, day, hour, minute, second = '0', zone] = match;
+    const isDate = hour === undefined;
+
+    if (!isValidDateTime(+year, +month, +day, isDate ? 0 : +hour, isDate ? 0 : +minute, +second)) {
+      throw new InvalidValueError(`Invalid date value for ${name}: "${value}" is out of range`, name, value);
+    }
+
+    if (zone) {
+      const instant = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second) - toOffset(zone));
+      time = tzid ? fromInstantInZone(instant, tzid) : ICAL.Time.fromJSDate(instant, true);
+    } else {
+      time = ICAL.Time.fromData({
+        year: +year,
+        month: +month,
+        day: +day,
+        hour: isDate ? 0 : +hour,
+        minute: isDate ? 0 : +minute,
+        second: isDate ? 0 : +second,
+        isDate,
+      });
+    }
+  }
+
+  if (allDay) {
+    time.isDate = true;
+    return { time };
+  }
+
+  return { time, tzid: time.isDate || time.zone === ICAL.Timezone.utcTimezone ? undefined : tzid };
+}
+
+/**
+ * Write a date value to an existing property instance
+ * Local times without a `tzid` keep the property's TZID; TZID is removed for UTC and DATE values
+ */
+export function writeDateValue(
+  property: ICAL.Property,
+  name: string,
+  value: FieldValue
+): ICAL.Property {
+  const existing = property.getFirstParameter('tzid');
+  const { time, tzid } = toICALTime(name, value);
+  const isLocal = !time.isDate && time.zone !== ICAL.Timezone.utcTimezone;
+  const zone = tzid ?? (isLocal ? existing : undefined);
+
+  property.setValue(time);
+
+  property.removeParameter('tzid');
+  if (zone) {
+    property.setParameter('tzid', zone);
+  }
+
+  return property;
+}
+
+/**
+ * Convert an ICAL.Time into a JS Date
+ *
+ * TZID wall-clock times are resolved through Intl, falling back to a VTIMEZONE
+ * embedded in `root` for non-IANA identifiers. Floating times are read as UTC.
+ */
+export function toJSDate(time: ICAL.Time, tzid?: string, root?: ICAL.Component): Date {
+  const wallClock = Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second);
+
+  if (time.isDate || !tzid || time.zone === ICAL.Timezone.utcTimezone) {
+    return new Date(wallClock);
+  }
+
+  const vtimezone = root?.getAllSubcomponents('vtimezone')
+    .find((component) => component.getFirstPropertyValue('tzid') === tzid);
+
+  if (vtimezone && !isIANAZone(tzid)) {
+    const zoned = time.clone();
+    zoned.zone = new ICAL.Timezone(vtimezone);
+    return zoned.toJSDate();
+  }
+
+  // Offset at the guessed instant, then re-check at the corrected instant for DST edges
+  const firstGuess = wallClock - zoneOffset(new Date(wallClock), tzid);
+  return new Date(wallClock - zoneOffset(new Date(firstGuess), tzid));
+}
+
+/**
+ * Check whether Intl knows a timezone identifier
+ */
+export function isIANAZone(tzid: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tzid });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a zone from UTC at the given instant, in milliseconds
+ */
+function zoneOffset(date: Date, tzid: string): number {
+  const local = fromInstantInZone(date, tzid);
+  const wallClock = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Check that date and time fields lie within their ranges, so ical.js does not roll them over
+ * (2025-02-30 would otherwise become 2025-03-02)
+ */
+function isValidDateTime(year: number, month: number, day: number, hour: number, minute: number, second: number): boolean {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth &&
+         hour <= 23 && minute <= 59 && second <= 59;
+}
+
+/**
+ * 'Z', '+01:00' or '-0530' as milliseconds east of UTC
+ */
+function toOffset(zone: string): number {
+  if (zone.toUpperCase() === 'Z') {
+    return 0;
+  }
+  const [, sign, hours, minutes] = /^([+-])(\d{2}):?(\d{2})$/.exec(zone)!;
+  return (sign === '-' ? -1 : 1) * (+hours * 60 + +minutes) * 60000;
+}
+
+/**
+ * Read a parameter from a params map regardless of key casing
+ */
+function getParam(params: PropertyParams | undefined, name: string): string | undefined {
+  const key = Object.keys(params || {}).find((candidate) => candidate.toLowerCase() === name);
+  const value = key ? params![key] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Resolve the wall-clock time of an instant in an IANA zone
+ * Uses Intl so no VTIMEZONE data is needed
+ */
+function fromInstantInZone(date: Date, tzid: string): ICAL.Time {
+  let parts: Intl.DateTimeFormatPart[];
+
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: tzid,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(date);
+  } catch {
+    throw new InvalidValueError(`Unknown time zone "${tzid}": absolute times can only be converted to IANA zones`, 'TZID', tzid);
+  }
+
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+
+  return ICAL.Time.fromData({
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  });
+}
@@ -0,0 +1,240 @@
+import type ICAL from 'ical.js';
+import type { CalendarObjectInput, ComponentRef, DiffOptions, FieldChange } from './types';
+import { parseCalendarObject, toComponentRef } from './component';
+import { readFieldValue } from './getFields';
+import { InvalidInputError } from './errors';
+
+/**
+ * Compare two calendar objects or contacts property by property
+ *
+ * Components are matched by type, UID and RECURRENCE-ID (VTIMEZONE by TZID), nested
+ * components such as VALARM by UID / X-WR-ALARMUID or position. Instances of repeated
+ * properties are matched by value first, so a changed parameter (e.g. PARTSTAT) is
+ * reported as a change of that instance rather than a removal plus an addition.
+ *
+ * @param before - Original iCal/vCard string or tsdav object
+ * @param after - Changed iCal/vCard string or tsdav object
+ * @param options - Properties to ignore
+ * @returns Changes in document order; empty when the objects are equivalent
+ *
+ * @example
+ * ```typescript
+ * diffFields(event.data, updateFields(event.data, { 'LOCATION': 'Room 2' }));
+ * // [{ kind: 'changed', component: { type: 'VEVENT', uid: '...', index: 0 },
+ * //    property: 'LOCATION', index: 0, before: 'Room 1', after: 'Room 2' }]
+ * ```
+ */
+export function diffFields(
+  before: CalendarObjectInput,
+  after: CalendarObjectInput,
+  options: DiffOptions = {}
+): FieldChange[] {
+  const oldRoot = parseCalendarObject(before);
+  const newRoot = parseCalendarObject(after);
+  const ignore = new Set((options.ignore ?? []).map((name) => name.toUpperCase()));
+  const changes: FieldChange[] = [];
+
+  if (oldRoot.name !== newRoot.name) {
+    throw new InvalidInputError(`Cannot diff a ${oldRoot.name.toUpperCase()} against a ${newRoot.name.toUpperCase()}`);
+  }
+
+  const context: DiffContext = { oldRoot, newRoot, ignore, changes };
+  const rootRef = toComponentRef(newRoot, newRoot);
+
+  diffProperties(context, oldRoot, newRoot, { component: rootRef });
+
+  for (const [oldComponent, newComponent] of pairComponents(oldRoot.getAllSubcomponents(), newRoot.getAllSubcomponents(), rootKey)) {
+    const component = newComponent
+      ? toComponentRef(newRoot, newComponent)
+      : toComponentRef(oldRoot, oldComponent!);
+
+    if (!oldComponent || !newComponent) {
+      changes.push({ kind: oldComponent ? 'removed' : 'added', component });
+      continue;
+    }
+
+    diffProperties(context, oldComponent, newComponent, { component });
+
+    const subcomponents = pairComponents(oldComponent.getAllSubcomponents(), newComponent.getAllSubcomponents(), nestedKey);
+    for (const [oldSub, newSub] of subcomponents) {
+      const subcomponent = newSub ? nestedRef(newComponent, newSub) : nestedRef(oldComponent, oldSub!);
+
+      if (!oldSub || !newSub) {
+        changes.push({ kind: oldSub ? 'removed' : 'added', component, subcomponent });
+      } else {
+        diffProperties(context, oldSub, newSub, { component, subcomponent });
+      }
+    }
+  }
+
+  return changes;
+}
+
+interface DiffContext {
+  oldRoot: ICAL.Component;
+  newRoot: ICAL.Component;
+  ignore: Set<string>;
+  changes: FieldChange[];
+}
+
+/**
+ * Compare the properties of two matched components
+ */
+function diffProperties(
+  context: DiffContext,
+  oldComponent: ICAL.Component,
+  newComponent: ICAL.Component,
+  location: Pick<FieldChange, 'component' | 'subcomponent'>
+): void {
+  const names = [...new Set([
+    ...oldComponent.getAllProperties().map((property) => property.name),
+    ...newComponent.getAllProperties().map((property) => property.name),
+  ])];
+
+  for (const name of names) {
+    const upper = name.toUpperCase();
+    if (context.ignore.has(upper)) {
+      continue;
+    }
+
+    const oldProperties = oldComponent.getAllProperties(name);
+    const newProperties = newComponent.getAllProperties(name);
+    const read = (property: ICAL.Property, root: ICAL.Component) => readFieldValue(property, root, { params: true });
+
+    for (const [oldProperty, newProperty] of pairProperties(oldProperties, newProperties)) {
+      if (oldProperty && newProperty && serialize(oldProperty) === serialize(newProperty)) {
+        continue;
+      }
+
+      const change: FieldChange = {
+        kind: !oldProperty ? 'added' : !newProperty ? 'removed' : 'changed',
+        ...location,
+        property: upper,
+        index: newProperty ? newProperties.indexOf(newProperty) : oldProperties.indexOf(oldProperty!),
+      };
+      if (oldProperty) {
+        change.before = read(oldProperty, context.oldRoot);
+      }
+      if (newProperty) {
+        change.after = read(newProperty, context.newRoot);
+      }
+
+      context.changes.push(change);
+    }
+  }
+}
+
+/**
+ * Pair property instances: identical ones, then equal values (parameters changed),
+ * then the remaining ones in order; leftovers are additions or removals
+ */
+function pairProperties(
+  oldProperties: ICAL.Property[],
+  newProperties: ICAL.Property[]
+): Array<[ICAL.Property | undefined, ICAL.Property | undefined]> {
+  const pairs = new Map<ICAL.Property, ICAL.Property>();
+  const unmatched = new Set(oldProperties);
+
+  for (const key of [serialize, serializeValue]) {
+    for (const newProperty of newProperties) {
+      if ([...pairs.values()].includes(newProperty)) {
+        continue;
+      }
+      const match = [...unmatched].find((oldProperty) => key(oldProperty) === key(newProperty));
+      if (match) {
+        pairs.set(match, newProperty);
+        unmatched.delete(match);
+      }
+    }
+  }
+
+  const paired = new Set(pairs.values());
+  const remainingNew = newProperties.filter((property) => !paired.has(property));
+  const remainingOld = [...unmatched];
+
+  for (let i = 0; i < Math.min(remainingOld.length, remainingNew.length); i++) {
+    pairs.set(remainingOld[i], remainingNew[i]);
+  }
+
+  const result: Array<[ICAL.Property | undefined, ICAL.Property | undefined]> = [];
+  const byNew = new Map([...pairs].map(([oldProperty, newProperty]) => [newProperty, oldProperty]));
+
+  for (const newProperty of newProperties) {
+    result.push([byNew.get(newProperty), newProperty]);
+  }
+  for (const oldProperty of oldProperties) {
+    if (!pairs.has(oldProperty)) {
+      result.push([oldProperty, undefined]);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Pair components by key; unmatched ones are returned with an undefined partner
+ */
+function pairComponents(
+  oldComponents: ICAL.Component[],
+  newComponents: ICAL.Component[],
+  key: (component: ICAL.Component, siblings: ICAL.Component[]) => string
+): Array<[ICAL.Component | undefined, ICAL.Component | undefined]> {
+  const oldByKey = new Map(oldComponents.map((component) => [key(component, oldComponents), component]));
+  const result: Array<[ICAL.Component | undefined, ICAL.Component | undefined]> = [];
+
+  for (const newComponent of newComponents) {
+    const newKey = key(newComponent, newComponents);
+    result.push([oldByKey.get(newKey), newComponent]);
+    oldByKey.delete(newKey);
+  }
+  for (const oldComponent of oldByKey.values()) {
+    result.push([oldComponent, undefined]);
+  }
+
+  return result;
+}
+
+// Top-level components: type + UID + RECURRENCE-ID, VTIMEZONE by TZID, position as a fallback
+export function rootKey(component: ICAL.Component, siblings: ICAL.Component[]): string {
+  const identity = component.name === 'vtimezone'
+    ? component.getFirstPropertyValue('tzid')
+    : component.getFirstPropertyValue('uid');
+
+  if (!identity) {
+    return `${component.name}#${siblings.filter((sibling) => sibling.name === component.name).indexOf(component)}`;
+  }
+
+  const recurrenceId = component.getFirstPropertyValue('recurrence-id') as ICAL.Time | null;
+  return `${component.name}|${identity}|${recurrenceId ? recurrenceId.toICALString() : ''}`;
+}
+
+// Nested components (VALARM, STANDARD/DAYLIGHT): UID / X-WR-ALARMUID, position as a fallback
+export function nestedKey(component: ICAL.Component, siblings: ICAL.Component[]): string {
+  const uid = component.getFirstPropertyValue('uid') ?? component.getFirstPropertyValue('x-wr-alarmuid');
+  return uid
+    ? `${component.name}|${uid}`
+    : `${component.name}#${siblings.filter((sibling) => sibling.name === component.name).indexOf(component)}`;
+}
+
+export function nestedRef(parent: ICAL.Component, component: ICAL.Component): ComponentRef {
+  const ref: ComponentRef = {
+    type: component.name.toUpperCase(),
+    index: parent.getAllSubcomponents(component.name).indexOf(component),
+  };
+
+  const uid = component.getFirstPropertyValue('uid') ?? component.getFirstPropertyValue('x-wr-alarmuid');
+  if (uid) {
+    ref.uid = String(uid);
+  }
+
+  return ref;
+}
+
+export function serialize(property: ICAL.Property): string {
+  return JSON.stringify(property.toJSON());
+}
+
+// Value type and values only, ignoring parameters
+export function serializeValue(property: ICAL.Property): string {
+  return JSON.stringify(property.toJSON().slice(2));
+}
@@ -0,0 +1,116 @@
+import type { ValidationDiagnostic } from './types';
+
+/**
+ * Base class of all errors thrown by tsdav-utils
+ *
+ * Subclasses carry structured fields, so callers don't have to match on messages.
+ */
+export class TsdavUtilsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * An argument has the wrong shape or doesn't apply to the object
+ * (e.g. no `data` field, replying as someone who isn't an attendee)
+ */
+export class InvalidInputError extends TsdavUtilsError {}
+
+/**
+ * The iCalendar/vCard text could not be parsed
+ */
+export class ParseError extends TsdavUtilsError {
+  /** 1-based line of the offending content line in the input, when known */
+  readonly line?: number;
+  /** 1-based column within that (unfolded) line, when known */
+  readonly column?: number;
+  /** The offending content line, unfolded */
+  readonly source?: string;
+
+  constructor(message: string, location: { line?: number; column?: number; source?: string } = {}) {
+    super(location.line ? `${message} (line ${location.line}${location.column ? `, column ${location.column}` : ''})` : message);
+    this.line = location.line;
+    this.column = location.column;
+    this.source = location.source;
+  }
+}
+
+/**
+ * The component, subcomponent or occurrence to read or write does not exist
+ */
+export class ComponentNotFoundError extends TsdavUtilsError {
+  /** Uppercase component type looked for (VEVENT, VALARM, ...), if a single one */
+  readonly componentType?: string;
+  /** What identified the component: selector, UID, index or recurrence id */
+  readonly criteria?: Record<string, unknown>;
+
+  constructor(message: string, componentType?: string, criteria?: Record<string, unknown>) {
+    super(message);
+    this.componentType = componentType;
+    this.criteria = criteria;
+  }
+}
+
+/**
+ * A property value is malformed or not allowed
+ */
+export class InvalidValueError extends TsdavUtilsError {
+  /** Uppercase property name */
+  readonly property: string;
+  /** The rejected value */
+  readonly value: unknown;
+
+  constructor(message: string, property: string, value?: unknown) {
+    super(message);
+    this.property = property.toUpperCase();
+    this.value = value;
+  }
+}
+
+/**
+ * The written fields break RFC 5545/6350 rules, with `validate: 'strict'`
+ */
+export class ValidationError extends TsdavUtilsError {
+  /** Every problem found, not just the first */
+  readonly diagnostics: ValidationDiagnostic[];
+
+  constructor(diagnostics: ValidationDiagnostic[]) {
+    super(`Validation failed: ${diagnostics.map((diagnostic) => diagnostic.message).join('; ')}`);
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * A request to the DAV server failed
+ */
+export class RequestError extends TsdavUtilsError {
+  readonly url: string;
+  /** HTTP status, when the server answered */
+  readonly status?: number;
+
+  constructor(message: string, url: string, status?: number) {
+    super(message);
+    this.url = url;
+    this.status = status;
+  }
+}
+
+/**
+ * A conditional write kept failing because the object changed on the server
+ *
+ * Thrown by updateObject() when every attempt got 412 Precondition Failed.
+ */
+export class ConflictError extends RequestError {
+  /** ETag the last attempt sent as If-Match */
+  readonly etag?: string;
+  /** Number of PUT requests made */
+  readonly attempts: number;
+
+  constructor(url: string, etag: string | undefined, attempts: number) {
+    super(`Conflict updating ${url}: object changed on the server ${attempts} time(s) in a row`, url, 412);
+    this.etag = etag;
+    this.attempts = attempts;
+  }
+}
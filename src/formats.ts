@@ -0,0 +1,476 @@
+import ICAL from 'ical.js';
+import type { CalendarObjectInput, JCalComponent, JCalProperty } from './types';
+import { parseCalendarObject } from './component';
+import { InvalidInputError, ParseError } from './errors';
+
+const XCAL_NAMESPACE = 'urn:ietf:params:xml:ns:icalendar-2.0';
+const XCARD_NAMESPACE = 'urn:ietf:params:xml:ns:vcard-4.0';
+
+/**
+ * Element names of structured values (RFC 6321 section 3.4, RFC 6351 section 5)
+ */
+const STRUCTURED: Record<string, string[]> = {
+  'geo': ['latitude', 'longitude'],
+  'request-status': ['code', 'description', 'data'],
+  'n': ['surname', 'given', 'additional', 'prefix', 'suffix'],
+  'adr': ['pobox', 'ext', 'street', 'locality', 'region', 'code', 'country'],
+  'gender': ['sex', 'identity'],
+  'clientpidmap': ['sourceid', 'uri'],
+};
+
+/**
+ * Value types of parameters that aren't text (RFC 6321 section 3.5)
+ */
+const PARAMETER_TYPES: Record<string, string> = {
+  'altrep': 'uri',
+  'dir': 'uri',
+  'delegated-from': 'cal-address',
+  'delegated-to': 'cal-address',
+  'member': 'cal-address',
+  'sent-by': 'cal-address',
+};
+
+// RECUR parts holding numbers (jCal writes them as JSON numbers)
+const NUMERIC_RECUR_PARTS = [
+  'count', 'interval', 'bysecond', 'byminute', 'byhour', 'bymonthday', 'byyearday', 'byweekno', 'bymonth', 'bysetpos',
+];
+
+interface XmlElement {
+  /** Local name, without namespace prefix */
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+/**
+ * Convert an iCalendar object to jCal (RFC 7265)
+ *
+ * @param calendarObject - iCal string, jCal array or tsdav DAVCalendarObject with 'data' field
+ * @returns jCal array, e.g. ['vcalendar', [...properties], [['vevent', [...], []]]]
+ *
+ * @example
+ * ```typescript
+ * const jcal = toJCal(event.data);
+ * await fetch('/api/events', { method: 'POST', body: JSON.stringify(jcal) });
+ * ```
+ */
+export function toJCal(calendarObject: CalendarObjectInput): JCalComponent {
+  return toJSON(parseRoot(calendarObject, 'vcalendar'));
+}
+
+/**
+ * Convert jCal (RFC 7265) to an iCalendar string
+ *
+ * @param jCal - jCal array
+ * @returns iCal string ready for tsdav.createCalendarObject()
+ */
+export function fromJCal(jCal: JCalComponent): string {
+  return parseRoot(jCal, 'vcalendar').toString();
+}
+
+/**
+ * Convert a vCard to jCard (RFC 7095)
+ *
+ * @param calendarObject - vCard string, jCard array or tsdav DAVVCard with 'data' field
+ * @returns jCard array, e.g. ['vcard', [['version', {}, 'text', '4.0'], ...], []]
+ */
+export function toJCard(calendarObject: CalendarObjectInput): JCalComponent {
+  return toJSON(parseRoot(calendarObject, 'vcard'));
+}
+
+/**
+ * Convert jCard (RFC 7095) to a vCard string
+ *
+ * @param jCard - jCard array
+ * @returns vCard string ready for tsdav.createVCard()
+ */
+export function fromJCard(jCard: JCalComponent): string {
+  return parseRoot(jCard, 'vcard').toString();
+}
+
+/**
+ * Convert an iCalendar object to xCal (RFC 6321)
+ *
+ * @param calendarObject - iCal string, jCal array or tsdav DAVCalendarObject with 'data' field
+ * @returns XML document with an `<icalendar>` root element
+ *
+ * @example
+ * ```typescript
+ * toXCal(event.data);
+ * // <icalendar xmlns="urn:ietf:params:xml:ns:icalendar-2.0">
+ * //   <vcalendar>
+ * //     <properties>
+ * //       <version><text>2.0</text></version>
+ * //   ...
+ * ```
+ */
+export function toXCal(calendarObject: CalendarObjectInput): string {
+  const jCal = toJSON(parseRoot(calendarObject, 'vcalendar'));
+  return writeDocument('icalendar', XCAL_NAMESPACE, writeComponent(jCal, 1, false));
+}
+
+/**
+ * Convert xCal (RFC 6321) to an iCalendar string
+ *
+ * @param xml - XML document with an `<icalendar>` root element holding one `<vcalendar>`
+ * @returns iCal string
+ * @throws ParseError for malformed XML or a document that isn't xCal
+ */
+export function fromXCal(xml: string): string {
+  const component = readDocument(xml, 'icalendar', 'vcalendar');
+  return new ICAL.Component(readComponent(component, false)).toString();
+}
+
+/**
+ * Convert a vCard to xCard (RFC 6351)
+ *
+ * xCard is defined for vCard 4.0; other versions are written as they are.
+ *
+ * @param calendarObject - vCard string, jCard array or tsdav DAVVCard with 'data' field
+ * @returns XML document with a `<vcards>` root element
+ */
+export function toXCard(calendarObject: CalendarObjectInput): string {
+  const jCard = toJSON(parseRoot(calendarObject, 'vcard'));
+  return writeDocument('vcards', XCARD_NAMESPACE, writeComponent(jCard, 1, true));
+}
+
+/**
+ * Convert xCard (RFC 6351) to a vCard string
+ *
+ * @param xml - XML document with a `<vcards>` root element holding one `<vcard>`
+ * @returns vCard string
+ * @throws ParseError for malformed XML or a document that isn't xCard
+ */
+export function fromXCard(xml: string): string {
+  const component = readDocument(xml, 'vcards', 'vcard');
+  return new ICAL.Component(readComponent(component, true)).toString();
+}
+
+function parseRoot(calendarObject: CalendarObjectInput, expected: 'vcalendar' | 'vcard'): ICAL.Component {
+  const root = parseCalendarObject(calendarObject);
+
+  if (root.name !== expected) {
+    const hint = expected === 'vcalendar' ? 'toJCard() or toXCard()' : 'toJCal() or toXCal()';
+    throw new InvalidInputError(`Expected a ${expected.toUpperCase()}, got a ${root.name.toUpperCase()}; use ${hint}`);
+  }
+
+  return root;
+}
+
+function toJSON(component: ICAL.Component): JCalComponent {
+  return JSON.parse(JSON.stringify(component.toJSON()));
+}
+
+// -- Writing XML -------------------------------------------------------------
+
+function writeDocument(name: string, namespace: string, body: string[]): string {
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    `<${name} xmlns="${namespace}">`,
+    ...body,
+    `</${name}>`,
+    '',
+  ].join('\n');
+}
+
+/**
+ * One line per tag of a component, one line per property
+ * xCard has no <properties>/<components> wrappers and writes groups as <group name="...">.
+ */
+function writeComponent(jCal: JCalComponent, depth: number, isCard: boolean): string[] {
+  const [name, properties, components] = jCal;
+  const indent = '  '.repeat(depth);
+  const lines = [`${indent}<${name}>`];
+
+  if (isCard) {
+    let group: string | undefined;
+    for (const property of properties) {
+      const next = property[1].group as string | undefined;
+      if (next !== group) {
+        if (group) {
+          lines.push(`${indent}  </group>`);
+        }
+        if (next) {
+          lines.push(`${indent}  <group name="${escapeXml(next)}">`);
+        }
+        group = next;
+      }
+      lines.push(`${indent}${group ? '    ' : '  '}${writeProperty(property, true)}`);
+    }
+    if (group) {
+      lines.push(`${indent}  </group>`);
+    }
+  } else {
+    if (properties.length > 0) {
+      lines.push(`${indent}  <properties>`);
+      lines.push(...properties.map((property) => `${indent}    ${writeProperty(property, false)}`));
+      lines.push(`${indent}  </properties>`);
+    }
+    if (components.length > 0) {
+      lines.push(`${indent}  <components>`);
+      lines.push(...components.flatMap((component) => writeComponent(component, depth + 2, false)));
+      lines.push(`${indent}  </components>`);
+    }
+  }
+
+  lines.push(`${indent}</${name}>`);
+  return lines;
+}
+
+function writeProperty(property: JCalProperty, isCard: boolean): string {
+  const [name, params, type, ...values] = property;
+  const parameters = Object.entries(params)
+    .filter(([param]) => !(isCard && param === 'group'))
+    .map(([param, value]) => {
+      const valueType = PARAMETER_TYPES[param] ?? 'text';
+      const texts = (Array.isArray(value) ? value : [value]).map((text) => element(valueType, String(text)));
+      return `<${param}>${texts.join('')}</${param}>`;
+    });
+
+  const content = values.map((value) => writeValue(name, type, value, isCard)).join('');
+  return `<${name}>${parameters.length > 0 ? `<parameters>${parameters.join('')}</parameters>` : ''}${content}</${name}>`;
+}
+
+function writeValue(name: string, type: string, value: any, isCard: boolean): string {
+  const fields = STRUCTURED[name];
+
+  if (fields && Array.isArray(value)) {
+    // Structured values: one element per field, repeated for list fields
+    // Trailing fields jCal leaves out (REQUEST-STATUS without data) are omitted as well
+    return fields.slice(0, value.length).map((field, index) => {
+      const entries = Array.isArray(value[index]) ? value[index] : [value[index] ?? ''];
+      return entries.map((entry: unknown) => element(field, String(entry))).join('');
+    }).join('');
+  }
+
+  if (isCard && name === 'org' && Array.isArray(value)) {
+    return value.map((unit) => element('text', String(unit))).join('');
+  }
+
+  if (type === 'recur' && typeof value === 'object') {
+    const parts = Object.entries(value as Record<string, unknown>).flatMap(([part, entries]) => {
+      return (Array.isArray(entries) ? entries : [entries]).map((entry) => element(part, String(entry)));
+    });
+    return `<recur>${parts.join('')}</recur>`;
+  }
+
+  if (type === 'period' && Array.isArray(value)) {
+    const [start, end] = value;
+    return `<period>${element('start', start)}${element(/^[+-]?P/.test(end) ? 'duration' : 'end', end)}</period>`;
+  }
+
+  return element(type, String(value));
+}
+
+function element(name: string, text: string): string {
+  return text === '' ? `<${name}/>` : `<${name}>${escapeXml(text)}</${name}>`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// -- Reading XML -------------------------------------------------------------
+
+function readDocument(xml: string, rootName: string, componentName: string): XmlElement {
+  if (typeof xml !== 'string') {
+    throw new InvalidInputError('Invalid input: expected an XML string');
+  }
+
+  const [root, ...rest] = parseXml(xml).children;
+  if (!root || rest.length > 0 || root.name !== rootName) {
+    throw new ParseError(`Failed to parse XML: expected a single <${rootName}> root element`);
+  }
+
+  const components = root.children.filter((child) => child.name === componentName);
+  if (components.length !== 1) {
+    throw new ParseError(`Failed to parse XML: expected exactly one <${componentName}>, found ${components.length}`);
+  }
+
+  return components[0];
+}
+
+function readComponent(component: XmlElement, isCard: boolean): JCalComponent {
+  if (isCard) {
+    const properties = component.children.flatMap((child) => child.name === 'group'
+      ? child.children.map((property) => readProperty(property, true, child.attributes.name))
+      : [readProperty(child, true)]);
+    return [component.name, properties, []];
+  }
+
+  const section = (name: string) => component.children.find((child) => child.name === name)?.children ?? [];
+  return [
+    component.name,
+    section('properties').map((property) => readProperty(property, false)),
+    section('components').map((child) => readComponent(child, false)),
+  ];
+}
+
+function readProperty(property: XmlElement, isCard: boolean, group?: string): JCalProperty {
+  const params: Record<string, string | string[]> = group ? { group } : {};
+  const parameters = property.children.find((child) => child.name === 'parameters');
+  const values = property.children.filter((child) => child !== parameters);
+
+  for (const param of parameters?.children ?? []) {
+    const texts = param.children.map((value) => value.text);
+    params[param.name] = texts.length === 1 ? texts[0] : texts;
+  }
+
+  const fields = STRUCTURED[property.name];
+  if (fields && values.some((value) => fields.includes(value.name))) {
+    const structured = fields.map((field) => {
+      const entries = values.filter((value) => value.name === field).map((value) => value.text);
+      return entries.length > 1 ? entries : entries[0] ?? '';
+    });
+
+    if (property.name === 'geo') {
+      return [property.name, params, 'float', structured.map(Number)];
+    }
+    if (property.name === 'request-status' && structured[2] === '') {
+      structured.pop();
+    }
+    return [property.name, params, 'text', structured];
+  }
+
+  if (isCard && property.name === 'org' && values.length > 1) {
+    return [property.name, params, 'text', values.map((value) => value.text)];
+  }
+
+  if (values.length === 0) {
+    return [property.name, params, 'unknown', ''];
+  }
+
+  return [property.name, params, values[0].name, ...values.map(readValue)];
+}
+
+function readValue(value: XmlElement): unknown {
+  switch (value.name) {
+    case 'recur': {
+      const recur: Record<string, unknown> = {};
+      for (const part of value.children) {
+        const entry = NUMERIC_RECUR_PARTS.includes(part.name) ? Number(part.text) : part.text;
+        const existing = recur[part.name];
+        recur[part.name] = existing === undefined
+          ? entry
+          : [...(Array.isArray(existing) ? existing : [existing]), entry];
+      }
+      return recur;
+    }
+    case 'period': {
+      const text = (name: string) => value.children.find((child) => child.name === name)?.text;
+      return [text('start'), text('end') ?? text('duration')];
+    }
+    case 'integer':
+    case 'float':
+      return Number(value.text);
+    case 'boolean':
+      return value.text.trim().toLowerCase() === 'true';
+    default:
+      return value.text;
+  }
+}
+
+/**
+ * Minimal XML parser for xCal/xCard: elements, attributes, text, CDATA and character
+ * references; comments, processing instructions and DOCTYPE are skipped.
+ * Namespace prefixes are dropped (xcal:vevent → vevent).
+ */
+function parseXml(xml: string): XmlElement {
+  const document: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack = [document];
+  const tagPattern = /<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+  let position = 0;
+
+  const fail = (message: string, offset: number): never => {
+    const before = xml.slice(0, offset);
+    const line = before.split('\n').length;
+    throw new ParseError(`Failed to parse XML: ${message}`, {
+      line,
+      column: offset - before.lastIndexOf('\n'),
+    });
+  };
+  const skipTo = (terminator: string, from: number): number => {
+    const end = xml.indexOf(terminator, from);
+    return end === -1 ? fail(`unterminated markup, expected "${terminator}"`, from) : end + terminator.length;
+  };
+
+  while (position < xml.length) {
+    const open = xml.indexOf('<', position);
+    const current = stack[stack.length - 1];
+
+    if (open !== position) {
+      const text = xml.slice(position, open === -1 ? xml.length : open);
+      if (current === document && text.trim()) {
+        fail('text outside the root element', position);
+      }
+      current.text += decodeEntities(text);
+      if (open === -1) {
+        break;
+      }
+    }
+
+    if (xml.startsWith('<!--', open)) {
+      position = skipTo('-->', open);
+    } else if (xml.startsWith('<![CDATA[', open)) {
+      position = skipTo(']]>', open);
+      current.text += xml.slice(open + 9, position - 3);
+    } else if (xml.startsWith('<?', open)) {
+      position = skipTo('?>', open);
+    } else if (xml.startsWith('<!', open)) {
+      position = skipTo('>', open);
+    } else if (xml.startsWith('</', open)) {
+      const end = skipTo('>', open);
+      const name = localName(xml.slice(open + 2, end - 1).trim());
+      if (stack.length === 1 || current.name !== name) {
+        fail(`unexpected </${name}>`, open);
+      }
+      stack.pop();
+      position = end;
+    } else {
+      tagPattern.lastIndex = open;
+      const match = tagPattern.exec(xml);
+      if (!match) {
+        fail('malformed tag', open);
+      }
+
+      const [tag, name, attributeText, selfClosing] = match!;
+      const element: XmlElement = { name: localName(name), attributes: {}, children: [], text: '' };
+      for (const [, attribute, , doubleQuoted, singleQuoted] of attributeText.matchAll(/([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+        element.attributes[localName(attribute)] = decodeEntities(doubleQuoted ?? singleQuoted);
+      }
+
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+      position = open + tag.length;
+    }
+  }
+
+  if (stack.length > 1) {
+    fail(`<${stack[stack.length - 1].name}> is not closed`, xml.length);
+  }
+
+  return document;
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(entity[1].toLowerCase() === 'x'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10));
+    }
+  });
+}
@@ -0,0 +1,144 @@
+import ICAL from 'ical.js';
+import type {
+  CalendarObjectInput,
+  DateTimeValue,
+  FieldUpdates,
+  FieldValue,
+  GetFieldsOptions,
+  PropertyParams,
+  StructuredValue,
+} from './types';
+import { getTargetComponent, parseCalendarObject } from './component';
+import { toJSDate } from './dates';
+import { fromStructuredProperty, isStructuredProperty, joinEscaped } from './structured';
+
+/**
+ * Read fields from a calendar/todo/vcard object
+ *
+ * Counterpart to updateFields(): resolves the same target component and returns
+ * values in the shapes updateFields() accepts, so the result can be written back unchanged.
+ *
+ * - Text values are returned as strings (multi-value lists such as CATEGORIES comma-joined)
+ * - Dates are returned as iCal strings, or `{ value, tzid }` when a TZID is set
+ * - N, ADR and ORG are returned as structured objects
+ *
+ * @param calendarObject - iCal string or tsdav DAVCalendarObject with 'data' field
+ * @param names - Property names to read (default: all properties of the target component)
+ * @param options - Return all instances, parameters and/or typed dates; occurrence to read
+ * @returns Map of uppercase property names to values; missing properties are omitted
+ *
+ * @example
+ * ```typescript
+ * const fields = getFields(event.data, ['SUMMARY', 'DTSTART']);
+ * // { SUMMARY: 'Team Meeting', DTSTART: '20250128T100000Z' }
+ *
+ * const attendees = getFields(event.data, ['ATTENDEE'], { all: true, params: true });
+ * // { ATTENDEE: [{ value: 'mailto:jane@example.com', params: { CN: 'Jane' } }, ...] }
+ * ```
+ */
+export function getFields(
+  calendarObject: CalendarObjectInput,
+  names?: string[],
+  options: GetFieldsOptions = {}
+): FieldUpdates {
+  const component = parseCalendarObject(calendarObject);
+  const target = getTargetComponent(component, options);
+
+  const properties = names
+    ? names.flatMap((name) => target.getAllProperties(name.toLowerCase()))
+    : target.getAllProperties();
+
+  const fields: FieldUpdates = {};
+
+  for (const property of properties) {
+    const key = property.name.toUpperCase();
+    const value = readFieldValue(property, component, options);
+
+    if (options.all) {
+      const existing = (fields[key] as FieldValue[] | undefined) ?? [];
+      fields[key] = [...existing, value];
+    } else if (!(key in fields)) {
+      fields[key] = value;
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Read a single property instance in the shape writeFieldValue() accepts
+ */
+export function readFieldValue(
+  property: ICAL.Property,
+  root: ICAL.Component,
+  options: GetFieldsOptions = {}
+): FieldValue {
+  const params = readParams(property);
+  const first = property.getFirstValue();
+
+  if (first instanceof ICAL.Time) {
+    const tzid = typeof params.TZID === 'string' ? params.TZID : undefined;
+    delete params.TZID;
+
+    const date = readDate(first, tzid, root, options.typedDates);
+    if (!options.params || Object.keys(params).length === 0) {
+      return date;
+    }
+
+    return typeof date === 'string' ? { value: date, params } : { ...date, params };
+  }
+
+  let value: string | StructuredValue;
+
+  if (isStructuredProperty(property.name)) {
+    value = fromStructuredProperty(property);
+  } else if (property.isMultiValue) {
+    value = joinEscaped(property.getValues().map(stringifyValue), ',');
+  } else {
+    value = stringifyValue(first);
+  }
+
+  return options.params && Object.keys(params).length > 0
+    ? { value, params }
+    : value;
+}
+
+function readDate(
+  time: ICAL.Time,
+  tzid: string | undefined,
+  root: ICAL.Component,
+  typed?: boolean
+): string | DateTimeValue {
+  if (typed) {
+    const descriptor: DateTimeValue = { value: toJSDate(time, tzid, root) };
+    if (tzid && !time.isDate) descriptor.tzid = tzid;
+    if (time.isDate) descriptor.allDay = true;
+    return descriptor;
+  }
+
+  const value = time.toICALString();
+  return tzid && !time.isDate ? { value, tzid } : value;
+}
+
+function readParams(property: ICAL.Property): PropertyParams {
+  const params: PropertyParams = {};
+
+  // jCal layout: [name, params, type, ...values]
+  for (const [name, value] of Object.entries(property.jCal[1] as PropertyParams)) {
+    params[name.toUpperCase()] = value;
+  }
+
+  return params;
+}
+
+function stringifyValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  // Periods (FREEBUSY, RDATE) would otherwise stringify in ISO form
+  if (value instanceof ICAL.Time || value instanceof ICAL.Period) {
+    return value.toICALString();
+  }
+  // GEO and other structured values come back as arrays
+  return Array.isArray(value) ? value.join(';') : String(value);
+}
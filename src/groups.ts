@@ -0,0 +1,187 @@
+import type ICAL from 'ical.js';
+import type { CalendarObjectInput, CreateContactOptions, CreatedObject, UpdateOptions } from './types';
+import { getTargetComponent, parseCalendarObject } from './component';
+import { createContact } from './create';
+import { trackChanges } from './tracking';
+import { InvalidInputError } from './errors';
+
+/**
+ * Property names of the two group dialects: vCard 4.0 and Apple's vCard 3.0 extension
+ */
+const DIALECTS = {
+  '4.0': { kind: 'kind', member: 'member' },
+  '3.0': { kind: 'x-addressbookserver-kind', member: 'x-addressbookserver-member' },
+} as const;
+
+const URI_PATTERN = /^[a-z][a-z\d+.-]*:/i;
+const UUID_PREFIX = /^urn:uuid:/i;
+
+/**
+ * Create a contact group vCard
+ *
+ * vCard 4.0 groups use KIND:group and MEMBER, vCard 3.0 groups (the default, as for
+ * createContact()) Apple's X-ADDRESSBOOKSERVER-KIND:group and X-ADDRESSBOOKSERVER-MEMBER.
+ *
+ * @param name - Group name, written to FN (and N)
+ * @param members - Contact UIDs (written as urn:uuid:<uid>) or member URIs (mailto:, https:, ...)
+ * @param options - vCard version, UID and PRODID, as for createContact()
+ * @returns Serialized vCard, filename and UID, ready for tsdav createVCard()
+ *
+ * @example
+ * ```typescript
+ * const { data, filename } = createContactGroup('Team', [jane.uid, john.uid]);
+ * await client.createVCard({ addressBook, filename, vCardString: data });
+ * ```
+ */
+export function createContactGroup(
+  name: string,
+  members: string[] = [],
+  options: CreateContactOptions = {}
+): CreatedObject {
+  const dialect = DIALECTS[options.version ?? '3.0'];
+  const uris = unique(members.map(toMemberUri));
+
+  return createContact({
+    'FN': name,
+    'N': { family: name },
+    [dialect.kind.toUpperCase()]: 'group',
+    ...(uris.length > 0 ? { [dialect.member.toUpperCase()]: uris } : {}),
+  }, options);
+}
+
+/**
+ * List the members of a contact group
+ *
+ * Reads MEMBER and X-ADDRESSBOOKSERVER-MEMBER alike.
+ *
+ * @param calendarObject - vCard string or tsdav DAVVCard with 'data' field
+ * @returns Contact UIDs in document order (urn:uuid: stripped; other member URIs as they are)
+ * @throws InvalidInputError when the vCard is not a group
+ *
+ * @example
+ * ```typescript
+ * getGroupMembers(group.data);
+ * // ['4f1c...', 'mailto:guest@example.com']
+ * ```
+ */
+export function getGroupMembers(calendarObject: CalendarObjectInput): string[] {
+  const vcard = getGroup(parseCalendarObject(calendarObject), {});
+  return unique(readMembers(vcard).map(toMemberUid));
+}
+
+/**
+ * Add members to a contact group
+ *
+ * New members are written in the dialect the group already uses; members already
+ * in the group are skipped.
+ *
+ * @param calendarObject - vCard string or tsdav DAVVCard with 'data' field
+ * @param members - Contact UIDs or member URIs to add
+ * @param options - Change tracking (REV), as for updateFields()
+ * @returns Updated vCard string ready for tsdav.updateVCard()
+ * @throws InvalidInputError when the vCard is not a group
+ *
+ * @example
+ * ```typescript
+ * const updated = addGroupMembers(group.data, [contact.uid], { tracking: true });
+ * ```
+ */
+export function addGroupMembers(
+  calendarObject: CalendarObjectInput,
+  members: string | string[],
+  options: UpdateOptions = {}
+): string {
+  const component = parseCalendarObject(calendarObject);
+  const vcard = getGroup(component, options);
+  const property = DIALECTS[getDialect(vcard)].member;
+  const existing = new Set(readMembers(vcard).map(toMemberUid));
+  const added = unique(toList(members).map(toMemberUri)).filter((uri) => !existing.has(toMemberUid(uri)));
+
+  trackChanges(vcard, [property.toUpperCase()], options, () => {
+    for (const uri of added) {
+      vcard.addPropertyWithValue(property, uri);
+    }
+  });
+
+  return component.toString();
+}
+
+/**
+ * Remove members from a contact group
+ *
+ * Removes matching MEMBER and X-ADDRESSBOOKSERVER-MEMBER entries; members that are
+ * not in the group are ignored.
+ *
+ * @param calendarObject - vCard string or tsdav DAVVCard with 'data' field
+ * @param members - Contact UIDs or member URIs to remove
+ * @param options - Change tracking (REV), as for updateFields()
+ * @returns Updated vCard string ready for tsdav.updateVCard()
+ * @throws InvalidInputError when the vCard is not a group
+ */
+export function removeGroupMembers(
+  calendarObject: CalendarObjectInput,
+  members: string | string[],
+  options: UpdateOptions = {}
+): string {
+  const component = parseCalendarObject(calendarObject);
+  const vcard = getGroup(component, options);
+  const removed = new Set(toList(members).map((member) => toMemberUid(toMemberUri(member))));
+  const properties = memberProperties(vcard)
+    .filter((property) => removed.has(toMemberUid(String(property.getFirstValue()))));
+
+  trackChanges(vcard, properties.map((property) => property.name.toUpperCase()), options, () => {
+    for (const property of properties) {
+      vcard.removeProperty(property);
+    }
+  });
+
+  return component.toString();
+}
+
+function getGroup(component: ICAL.Component, options: UpdateOptions): ICAL.Component {
+  const vcard = getTargetComponent(component, options);
+  const kinds = Object.values(DIALECTS).map(({ kind }) => vcard.getFirstPropertyValue(kind));
+
+  if (vcard.name !== 'vcard' || !kinds.some((kind) => String(kind ?? '').toLowerCase() === 'group')) {
+    throw new InvalidInputError('Not a contact group: expected KIND:group or X-ADDRESSBOOKSERVER-KIND:group');
+  }
+
+  return vcard;
+}
+
+/**
+ * Dialect of existing members, else of the KIND property
+ */
+function getDialect(vcard: ICAL.Component): keyof typeof DIALECTS {
+  const member = memberProperties(vcard)[0];
+  if (member) {
+    return member.name === DIALECTS['4.0'].member ? '4.0' : '3.0';
+  }
+  return vcard.hasProperty(DIALECTS['4.0'].kind) ? '4.0' : '3.0';
+}
+
+function memberProperties(vcard: ICAL.Component): ICAL.Property[] {
+  return vcard.getAllProperties().filter((property) => {
+    return property.name === DIALECTS['4.0'].member || property.name === DIALECTS['3.0'].member;
+  });
+}
+
+function readMembers(vcard: ICAL.Component): string[] {
+  return memberProperties(vcard).map((property) => String(property.getFirstValue()));
+}
+
+function toMemberUri(member: string): string {
+  return URI_PATTERN.test(member) ? member : `urn:uuid:${member}`;
+}
+
+function toMemberUid(uri: string): string {
+  return uri.replace(UUID_PREFIX, '');
+}
+
+function toList(members: string | string[]): string[] {
+  return Array.isArray(members) ? members : [members];
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
@@ -1,3 +1,110 @@
 // Main entry point for tsdav-utils
-export { updateFields } from './updateFields';
-export type { FieldUpdates, CalendarObjectInput } from './types';
+export { updateFields, updateComponents } from './updateFields';
+export { getFields } from './getFields';
+export { applyPropertyOperations } from './properties';
+export { getStructuredField } from './structured';
+export { createEvent, createTodo, createJournal, createContact } from './create';
+export { DEFAULT_SIGNIFICANT_FIELDS } from './tracking';
+export { getAlarms, addAlarm, updateAlarm, removeAlarm } from './alarms';
+export { syncTimezones } from './timezones';
+export { convertTimezone, setAllDay } from './convert';
+export { createRequest, createReply, createCancel, createCounter } from './itip';
+export { diffFields } from './diff';
+export { mergeFields } from './merge';
+export { updateObject } from './updateObject';
+export { updateMany } from './batch';
+export { validateFields } from './validation';
+export { mapFields, updateAliasedFields, getAliasSchema } from './aliases';
+export { toJCal, fromJCal, toJCard, fromJCard, toXCal, fromXCal, toXCard, fromXCard } from './formats';
+export { convertVCard } from './vcard';
+export { createContactGroup, getGroupMembers, addGroupMembers, removeGroupMembers } from './groups';
+export {
+  TsdavUtilsError,
+  InvalidInputError,
+  ParseError,
+  ComponentNotFoundError,
+  InvalidValueError,
+  RequestError,
+  ConflictError,
+  ValidationError,
+} from './errors';
+export {
+  buildRecurrenceRule,
+  parseRecurrenceRule,
+  updateRecurrenceRule,
+  expandOccurrences,
+} from './recurrence';
+export type {
+  FieldUpdates,
+  FieldValue,
+  DateTimeValue,
+  ParameterizedValue,
+  PropertyParams,
+  StructuredValue,
+  StructuredComponent,
+  StructuredName,
+  Address,
+  Organization,
+  CalendarObjectInput,
+  JCalComponent,
+  JCalProperty,
+  GetFieldsOptions,
+  UpdateOptions,
+  FieldUpdateOptions,
+  ValidationOptions,
+  ValidationRules,
+  ValidationDiagnostic,
+  AliasComponentType,
+  AliasMap,
+  AliasOptions,
+  AliasUpdateOptions,
+  FieldAlias,
+  JSONSchema,
+  VCardConversion,
+  VCardConversionIssue,
+  TimezoneOptions,
+  AllDayOptions,
+  ItipMethod,
+  ItipMessage,
+  ItipOptions,
+  CancelOptions,
+  CounterOptions,
+  ParticipationStatus,
+  UpdateResult,
+  FieldChange,
+  DiffOptions,
+  MergeConflict,
+  MergeOptions,
+  MergeResult,
+  MergeSide,
+  BatchOptions,
+  BatchResult,
+  FieldCondition,
+  FieldPredicate,
+  WhereClause,
+  DAVObject,
+  DAVResponse,
+  DAVWriteClient,
+  WriteOptions,
+  WriteResult,
+  ComponentSelector,
+  ComponentRef,
+  ChangeTrackingOptions,
+  TargetOptions,
+  OccurrenceTarget,
+  RecurrenceRule,
+  Alarm,
+  AlarmAction,
+  AlarmChanges,
+  AlarmInput,
+  AlarmRef,
+  CreateOptions,
+  CreateContactOptions,
+  CreatedObject,
+  Occurrence,
+  PropertyOperation,
+  AppendOperation,
+  RemoveOperation,
+  ReplaceOperation,
+  SetOperation,
+} from './types';
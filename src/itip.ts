@@ -0,0 +1,317 @@
+import ICAL from 'ical.js';
+import type {
+  CalendarObjectInput,
+  CancelOptions,
+  CounterOptions,
+  FieldUpdates,
+  ItipMessage,
+  ItipMethod,
+  ItipOptions,
+  ParticipationStatus,
+} from './types';
+import { getTargetComponent, parseCalendarObject } from './component';
+import { getOverrides } from './occurrences';
+import { applyFieldUpdates } from './properties';
+import { trackChanges } from './tracking';
+import { DEFAULT_PRODID } from './create';
+import { InvalidInputError } from './errors';
+
+/**
+ * Build a METHOD:REQUEST message, optionally applying changes first
+ *
+ * Changes go through the same code as updateFields(). SEQUENCE is incremented when a
+ * significant property (times, recurrence, status) changes, as RFC 5546 requires.
+ *
+ * @param calendarObject - iCal string or tsdav DAVCalendarObject with 'data' field
+ * @param fields - Changes to apply before sending (default: none, re-send as is)
+ * @param options - Component, occurrence (default: whole series) and DTSTAMP
+ * @returns Message for all attendees plus the updated stored object
+ *
+ * @example
+ * ```typescript
+ * const { data, recipients, updated } = createRequest(event.data, {
+ *   'DTSTART': '20250130T150000Z',
+ *   'DTEND': '20250130T160000Z',
+ * });
+ * ```
+ */
+export function createRequest(
+  calendarObject: CalendarObjectInput,
+  fields: FieldUpdates = {},
+  options: ItipOptions = {}
+): ItipMessage {
+  const root = parseCalendarObject(calendarObject);
+  const target = getTargetComponent(root, options);
+  const now = options.now ?? new Date();
+
+  trackChanges(target, Object.keys(fields), { tracking: { now } }, () => {
+    applyFieldUpdates(target, fields);
+  });
+
+  const components = copyComponents(root, target);
+  return {
+    method: 'REQUEST',
+    data: buildMessage(root, 'REQUEST', components, options),
+    recipients: unique(components.flatMap(getAttendees)),
+    updated: root.toString(),
+  };
+}
+
+/**
+ * Build a METHOD:REPLY message setting one attendee's participation status
+ *
+ * The attendee's PARTSTAT is also updated in the returned stored object. Replying to a
+ * single occurrence (`options.occurrence`) creates an override for it.
+ *
+ * @param calendarObject - iCal string or tsdav DAVCalendarObject with 'data' field
+ * @param attendee - Replying attendee, e.g. 'mailto:jane@example.com' or 'jane@example.com'
+ * @param partstat - New participation status
+ * @param options - Component, occurrence, DTSTAMP and an optional COMMENT
+ * @returns Message for the organizer plus the updated stored object
+ *
+ * @example
+ * ```typescript
+ * // "Accept this invite"
+ * const { data, recipients } = createReply(event.data, 'jane@example.com', 'ACCEPTED');
+ * ```
+ */
+export function createReply(
+  calendarObject: CalendarObjectInput,
+  attendee: string,
+  partstat: ParticipationStatus,
+  options: ItipOptions = {}
+): ItipMessage {
+  const root = parseCalendarObject(calendarObject);
+  const target = getTargetComponent(root, options);
+  const property = findAttendee(target, attendee);
+
+  if (!property) {
+    throw new InvalidInputError(`Cannot reply: ${attendee} is not an attendee`);
+  }
+
+  property.setParameter('partstat', partstat);
+  property.removeParameter('rsvp');
+
+  const [reply] = copyComponents(root, target, false);
+  removeAlarms(reply);
+  for (const other of reply.getAllProperties('attendee')) {
+    if (!matchesAddress(other, attendee)) {
+      reply.removeProperty(other);
+    }
+  }
+
+  return {
+    method: 'REPLY',
+    data: buildMessage(root, 'REPLY', [reply], options),
+    recipients: getOrganizer(target),
+    updated: root.toString(),
+  };
+}
+
+/**
+ * Build a METHOD:CANCEL message
+ *
+ * Without `options.attendees` the event is cancelled for everyone (STATUS:CANCELLED in the
+ * stored object too). With attendees, only they are removed from the stored object and
+ * the cancellation is addressed to them. SEQUENCE is incremented either way.
+ *
+ * @param calendarObject - iCal string or tsdav DAVCalendarObject with 'data' field
+ * @param options - Removed attendees, component, occurrence, DTSTAMP and an optional COMMENT
+ * @returns Message for the affected attendees plus the updated stored object
+ *
+ * @example
+ * ```typescript
+ * // "Cancel the meeting for everyone"
+ * const { data, recipients, updated } = createCancel(event.data);
+ *
+ * // Uninvite Bob
+ * const uninvite = createCancel(event.data, { attendees: ['bob@example.com'] });
+ * ```
+ */
+export function createCancel(calendarObject: CalendarObjectInput, options: CancelOptions = {}): ItipMessage {
+  const root = parseCalendarObject(calendarObject);
+  const target = getTargetComponent(root, options);
+  const tracking = { now: options.now ?? new Date(), significantFields: ['STATUS', 'ATTENDEE'] };
+  const removed = options.attendees;
+  const removedProperties = removed
+    ? target.getAllProperties('attendee').filter((property) => {
+      return removed.some((address) => matchesAddress(property, address));
+    })
+    : [];
+
+  if (removed) {
+    trackChanges(target, ['ATTENDEE'], { tracking }, () => {
+      removedProperties.forEach((property) => target.removeProperty(property));
+    });
+  } else {
+    trackChanges(target, ['STATUS'], { tracking }, () => {
+      applyFieldUpdates(target, { 'STATUS': 'CANCELLED' });
+    });
+  }
+
+  const components = copyComponents(root, target, !removed);
+  for (const component of components) {
+    applyFieldUpdates(component, { 'STATUS': 'CANCELLED' });
+    removeAlarms(component);
+
+    // A partial cancellation only lists the removed attendees
+    if (removed) {
+      component.removeAllProperties('attendee');
+      removedProperties.forEach((property) => {
+        component.addProperty(new ICAL.Property(JSON.parse(JSON.stringify(property.toJSON()))));
+      });
+    }
+  }
+
+  return {
+    method: 'CANCEL',
+    data: buildMessage(root, 'CANCEL', components, options),
+    recipients: unique(components.flatMap(getAttendees)),
+    updated: root.toString(),
+  };
+}
+
+/**
+ * Build a METHOD:COUNTER message proposing changes to the organizer
+ *
+ * The proposal is applied to a copy only; the stored object is returned unchanged.
+ *
+ * @param calendarObject - iCal string or tsdav DAVCalendarObject with 'data' field
+ * @param fields - Proposed changes, in the updateFields() format
+ * @param options - Proposing attendee, component, occurrence, DTSTAMP and an optional COMMENT
+ * @returns Message for the organizer plus the unchanged stored object
+ *
+ * @example
+ * ```typescript
+ * const { data } = createCounter(event.data, { 'DTSTART': '20250131T090000Z', 'DTEND': '20250131T100000Z' }, {
+ *   attendee: 'jane@example.com',
+ *   comment: 'Can we move this to Friday?',
+ * });
+ * ```
+ */
+export function createCounter(
+  calendarObject: CalendarObjectInput,
+  fields: FieldUpdates,
+  options: CounterOptions = {}
+): ItipMessage {
+  const root = parseCalendarObject(calendarObject);
+  const updated = root.toString();
+  const target = getTargetComponent(root, options);
+
+  const [counter] = copyComponents(root, target, false);
+  applyFieldUpdates(counter, fields);
+
+  if (options.attendee) {
+    if (!findAttendee(counter, options.attendee)) {
+      throw new InvalidInputError(`Cannot counter: ${options.attendee} is not an attendee`);
+    }
+    for (const other of counter.getAllProperties('attendee')) {
+      if (!matchesAddress(other, options.attendee)) {
+        counter.removeProperty(other);
+      }
+    }
+  }
+
+  return {
+    method: 'COUNTER',
+    data: buildMessage(root, 'COUNTER', [counter], options),
+    recipients: getOrganizer(target),
+    updated,
+  };
+}
+
+/**
+ * Copy the target (and, for a series master, its overrides) into detached components
+ */
+function copyComponents(root: ICAL.Component, target: ICAL.Component, withOverrides = true): ICAL.Component[] {
+  const components = withOverrides && !target.hasProperty('recurrence-id')
+    ? [target, ...getOverrides(root, target)]
+    : [target];
+
+  return components.map((component) => new ICAL.Component(JSON.parse(JSON.stringify(component.toJSON()))));
+}
+
+/**
+ * RFC 5546 section 3.2: REPLY and CANCEL messages carry no VALARM
+ */
+function removeAlarms(component: ICAL.Component): void {
+  component.removeAllSubcomponents('valarm');
+}
+
+/**
+ * Wrap components in a VCALENDAR with METHOD, fresh DTSTAMPs and the VTIMEZONEs they use
+ */
+function buildMessage(
+  root: ICAL.Component,
+  method: ItipMethod,
+  components: ICAL.Component[],
+  options: ItipOptions
+): string {
+  const message = new ICAL.Component('vcalendar');
+  message.addPropertyWithValue('version', '2.0');
+  message.addPropertyWithValue('prodid', String(root.getFirstPropertyValue('prodid') ?? DEFAULT_PRODID));
+  message.addPropertyWithValue('method', method);
+
+  const dtstamp = ICAL.Time.fromJSDate(options.now ?? new Date(), true);
+  const tzids = new Set<string>();
+
+  for (const component of components) {
+    component.updatePropertyWithValue('dtstamp', dtstamp);
+    if (options.comment) {
+      component.updatePropertyWithValue('comment', options.comment);
+    }
+    for (const property of component.getAllProperties()) {
+      const tzid = property.getFirstParameter('tzid');
+      if (tzid) {
+        tzids.add(tzid);
+      }
+    }
+  }
+
+  for (const vtimezone of root.getAllSubcomponents('vtimezone')) {
+    if (tzids.has(String(vtimezone.getFirstPropertyValue('tzid')))) {
+      message.addSubcomponent(new ICAL.Component(JSON.parse(JSON.stringify(vtimezone.toJSON()))));
+    }
+  }
+  components.forEach((component) => message.addSubcomponent(component));
+
+  return message.toString();
+}
+
+function findAttendee(component: ICAL.Component, address: string): ICAL.Property | undefined {
+  return component.getAllProperties('attendee').find((property) => matchesAddress(property, address));
+}
+
+function matchesAddress(property: ICAL.Property, address: string): boolean {
+  return toAddress(String(property.getFirstValue())).toLowerCase() === toAddress(address).toLowerCase();
+}
+
+// Calendar user addresses are mailto: URIs; accept bare email addresses too
+function toAddress(address: string): string {
+  return /^[a-z][a-z0-9+.-]*:/i.test(address) ? address : `mailto:${address}`;
+}
+
+function getAttendees(component: ICAL.Component): string[] {
+  const organizer = getOrganizer(component)[0]?.toLowerCase();
+
+  return component.getAllProperties('attendee')
+    .map((property) => toAddress(String(property.getFirstValue())))
+    .filter((address) => address.toLowerCase() !== organizer);
+}
+
+function getOrganizer(component: ICAL.Component): string[] {
+  const organizer = component.getFirstPropertyValue('organizer');
+  return organizer ? [toAddress(String(organizer))] : [];
+}
+
+function unique(addresses: string[]): string[] {
+  const seen = new Set<string>();
+  return addresses.filter((address) => {
+    const key = address.toLowerCase();
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
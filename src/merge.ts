@@ -0,0 +1,434 @@
+import ICAL from 'ical.js';
+import type {
+  CalendarObjectInput,
+  MergeConflict,
+  MergeOptions,
+  MergeResult,
+  MergeSide,
+} from './types';
+import { parseCalendarObject, toComponentRef } from './component';
+import { readFieldValue } from './getFields';
+import { nestedKey, nestedRef, rootKey, serialize, serializeValue } from './diff';
+import { InvalidInputError } from './errors';
+
+/**
+ * Change tracking properties merged by taking the later (or higher) value instead of conflicting
+ */
+const LATEST_WINS = ['sequence', 'dtstamp', 'last-modified', 'rev'];
+
+interface MergeContext {
+  baseRoot: ICAL.Component;
+  localRoot: ICAL.Component;
+  mergedRoot: ICAL.Component;
+  resolve: NonNullable<MergeOptions['resolve']>;
+  conflicts: MergeConflict[];
+}
+
+type Location = Pick<MergeConflict, 'component' | 'subcomponent'>;
+
+/**
+ * Three-way merge of two concurrent edits of a calendar object or contact
+ *
+ * Typical use: a write failed with 412 Precondition Failed, so the object changed on the
+ * server since it was read (`base`). The local edit is replayed onto the current server
+ * version (`remote`) property by property. Properties only one side changed are taken from
+ * that side; repeated properties (ATTENDEE, EXDATE, ...) are merged per instance, so
+ * attendees added on both sides are all kept, and list values (CATEGORIES:Work,Planning,
+ * RESOURCES, EXDATE:a,b) per value. Components (overrides, VALARMs) added or removed on
+ * either side are carried over.
+ *
+ * SEQUENCE takes the higher value, DTSTAMP, LAST-MODIFIED and REV the later one.
+ *
+ * @param base - Version both edits started from (the object as originally fetched)
+ * @param local - Locally edited version
+ * @param remote - Current server version; its url and etag are passed through
+ * @param options - Conflict resolution: 'local' (default), 'remote', or a callback
+ * @returns Merged data ready to PUT with the remote ETag, plus the conflicts found
+ *
+ * @example
+ * ```typescript
+ * const local = updateFields(event, { 'LOCATION': 'Room 2' });
+ * // ... updateCalendarObject() fails with 412, refetch the event as `latest`
+ * const merged = mergeFields(event, local, latest, { resolve: 'remote' });
+ * await client.updateCalendarObject({
+ *   calendarObject: { url: merged.url!, etag: merged.etag, data: merged.data },
+ * });
+ * ```
+ */
+export function mergeFields(
+  base: CalendarObjectInput,
+  local: CalendarObjectInput,
+  remote: CalendarObjectInput,
+  options: MergeOptions = {}
+): MergeResult {
+  const context: MergeContext = {
+    baseRoot: parseCalendarObject(base),
+    localRoot: parseCalendarObject(local),
+    mergedRoot: parseCalendarObject(remote),
+    resolve: options.resolve ?? 'local',
+    conflicts: [],
+  };
+
+  const names = new Set([context.baseRoot.name, context.localRoot.name, context.mergedRoot.name]);
+  if (names.size > 1) {
+    throw new InvalidInputError(`Cannot merge different object types: ${[...names].map((name) => name.toUpperCase()).join(', ')}`);
+  }
+
+  const { baseRoot, localRoot, mergedRoot } = context;
+  mergeComponent(context, baseRoot, localRoot, mergedRoot, { component: toComponentRef(mergedRoot, mergedRoot) });
+
+  const result: MergeResult = { data: mergedRoot.toString(), conflicts: context.conflicts };
+  if (typeof remote !== 'string' && !Array.isArray(remote)) {
+    if (remote.url) {
+      result.url = remote.url;
+    }
+    if (remote.etag) {
+      result.etag = remote.etag;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Merge the properties and subcomponents of a component present on both sides
+ */
+function mergeComponent(
+  context: MergeContext,
+  base: ICAL.Component | undefined,
+  local: ICAL.Component,
+  merged: ICAL.Component,
+  location: Location
+): void {
+  const names = [...new Set([
+    ...(base?.getAllProperties() ?? []),
+    ...local.getAllProperties(),
+    ...merged.getAllProperties(),
+  ].map((property) => property.name))];
+
+  for (const name of names) {
+    mergeProperty(context, name, base?.getAllProperties(name) ?? [], local, merged, location);
+  }
+
+  mergeSubcomponents(context, base, local, merged, location);
+}
+
+/**
+ * Merge all instances of one property into `merged`
+ */
+function mergeProperty(
+  context: MergeContext,
+  name: string,
+  baseProperties: ICAL.Property[],
+  local: ICAL.Component,
+  merged: ICAL.Component,
+  location: Location
+): void {
+  const localProperties = local.getAllProperties(name);
+  const remoteProperties = merged.getAllProperties(name);
+  const baseKey = serializeAll(baseProperties);
+
+  // Unchanged locally, or both sides agree: the remote version stands
+  if (serializeAll(localProperties) === baseKey || serializeAll(localProperties) === serializeAll(remoteProperties)) {
+    return;
+  }
+  if (serializeAll(remoteProperties) === baseKey) {
+    replaceProperties(merged, name, localProperties);
+    return;
+  }
+
+  const single = Math.max(baseProperties.length, localProperties.length, remoteProperties.length) <= 1;
+
+  if (single && LATEST_WINS.includes(name) && localProperties.length && remoteProperties.length) {
+    if (compareValues(localProperties[0], remoteProperties[0]) > 0) {
+      replaceProperties(merged, name, localProperties);
+    }
+    return;
+  }
+
+  if (single && isMultiValued(name)) {
+    mergeValues(context, name, baseProperties[0], localProperties[0], remoteProperties[0], merged, location);
+    return;
+  }
+
+  if (single) {
+    const side = resolveConflict(context, describeConflict(context, location, name, baseProperties[0], localProperties[0], remoteProperties[0]));
+    if (side === 'local') {
+      replaceProperties(merged, name, localProperties);
+    }
+    return;
+  }
+
+  mergeInstances(context, name, baseProperties, localProperties, remoteProperties, merged, location);
+}
+
+/**
+ * Merge a repeated property instance by instance, matching instances by value
+ */
+function mergeInstances(
+  context: MergeContext,
+  name: string,
+  baseProperties: ICAL.Property[],
+  localProperties: ICAL.Property[],
+  remoteProperties: ICAL.Property[],
+  merged: ICAL.Component,
+  location: Location
+): void {
+  const byValue = (properties: ICAL.Property[]) => new Map(properties.map((property) => [serializeValue(property), property]));
+  const baseByValue = byValue(baseProperties);
+  const localByValue = byValue(localProperties);
+  const remoteByValue = byValue(remoteProperties);
+  const result: ICAL.Property[] = [];
+
+  // Remote instances, in remote order
+  for (const [key, remoteProperty] of remoteByValue) {
+    const baseProperty = baseByValue.get(key);
+    const localProperty = localByValue.get(key);
+
+    if (!localProperty) {
+      // Removed locally: drop it unless remote changed it meanwhile (added remotely otherwise)
+      if (!baseProperty) {
+        result.push(remoteProperty);
+      } else if (serialize(remoteProperty) !== serialize(baseProperty)) {
+        const conflict = describeConflict(context, location, name, baseProperty, undefined, remoteProperty);
+        if (resolveConflict(context, conflict) === 'remote') {
+          result.push(remoteProperty);
+        }
+      }
+      continue;
+    }
+
+    const localKey = serialize(localProperty);
+    const remoteKey = serialize(remoteProperty);
+    const baseKey = baseProperty && serialize(baseProperty);
+
+    if (localKey === remoteKey || localKey === baseKey) {
+      result.push(remoteProperty);
+    } else if (remoteKey === baseKey) {
+      result.push(localProperty);
+    } else {
+      const conflict = describeConflict(context, location, name, baseProperty, localProperty, remoteProperty);
+      result.push(resolveConflict(context, conflict) === 'local' ? localProperty : remoteProperty);
+    }
+  }
+
+  // Local instances remote doesn't have: added locally, or removed remotely
+  for (const [key, localProperty] of localByValue) {
+    if (remoteByValue.has(key)) {
+      continue;
+    }
+
+    const baseProperty = baseByValue.get(key);
+    if (!baseProperty) {
+      result.push(localProperty);
+    } else if (serialize(localProperty) !== serialize(baseProperty)) {
+      const conflict = describeConflict(context, location, name, baseProperty, localProperty, undefined);
+      if (resolveConflict(context, conflict) === 'local') {
+        result.push(localProperty);
+      }
+    }
+  }
+
+  replaceProperties(merged, name, result);
+}
+
+/**
+ * Merge the values of a list property (CATEGORIES:Work,Planning), both sides having changed it
+ *
+ * Values added on either side are kept. A value one side removed while the other kept it
+ * is a conflict, since both sides edited the list.
+ */
+function mergeValues(
+  context: MergeContext,
+  name: string,
+  base: ICAL.Property | undefined,
+  local: ICAL.Property | undefined,
+  remote: ICAL.Property | undefined,
+  merged: ICAL.Component,
+  location: Location
+): void {
+  const byValue = (property?: ICAL.Property) => {
+    const values: unknown[] = property?.toJSON().slice(3) ?? [];
+    return new Map(values.map((value) => [JSON.stringify(value), value]));
+  };
+  const baseValues = byValue(base);
+  const localValues = byValue(local);
+  const remoteValues = byValue(remote);
+  const result: unknown[] = [];
+
+  // Describe the conflict on a single value, as if the property held only that value
+  const conflictOn = (value: unknown, removedBy: MergeSide) => {
+    const only = (property: ICAL.Property | undefined) => {
+      const [, params, type] = (property ?? base)!.toJSON();
+      return new ICAL.Property([name, params, type, value]);
+    };
+    return describeConflict(context, location, name, only(base),
+      removedBy === 'local' ? undefined : only(local), removedBy === 'remote' ? undefined : only(remote));
+  };
+
+  for (const [key, value] of remoteValues) {
+    if (localValues.has(key) || !baseValues.has(key) || resolveConflict(context, conflictOn(value, 'local')) === 'remote') {
+      result.push(value);
+    }
+  }
+  for (const [key, value] of localValues) {
+    if (!remoteValues.has(key) && (!baseValues.has(key) || resolveConflict(context, conflictOn(value, 'remote')) === 'local')) {
+      result.push(value);
+    }
+  }
+
+  // Parameters follow the side that changed them
+  const paramsOf = (property?: ICAL.Property) => JSON.stringify(property?.toJSON()[1]);
+  const template = local && (!remote || (base && paramsOf(remote) === paramsOf(base))) ? local : remote!;
+  const [, params, type] = template.toJSON();
+
+  merged.removeAllProperties(name);
+  if (result.length > 0) {
+    merged.addProperty(new ICAL.Property([name, params, type, ...result]));
+  }
+}
+
+/**
+ * Merge subcomponents (overrides, VTIMEZONEs, VALARMs), matching them as diffFields() does
+ */
+function mergeSubcomponents(
+  context: MergeContext,
+  base: ICAL.Component | undefined,
+  local: ICAL.Component,
+  merged: ICAL.Component,
+  location: Location
+): void {
+  const isRoot = merged === context.mergedRoot;
+  const key = isRoot ? rootKey : nestedKey;
+  const byKey = (parent: ICAL.Component | undefined) => {
+    const components = parent?.getAllSubcomponents() ?? [];
+    return new Map(components.map((component) => [key(component, components), component]));
+  };
+
+  const baseByKey = byKey(base);
+  const localByKey = byKey(local);
+  const remoteByKey = byKey(merged);
+
+  const locate = (parent: ICAL.Component, component: ICAL.Component): Location => {
+    return isRoot
+      ? { component: toComponentRef(parent, component) }
+      : { component: location.component, subcomponent: nestedRef(parent, component) };
+  };
+
+  for (const [componentKey, remoteComponent] of remoteByKey) {
+    const baseComponent = baseByKey.get(componentKey);
+    const localComponent = localByKey.get(componentKey);
+
+    if (localComponent) {
+      mergeComponent(context, baseComponent, localComponent, remoteComponent, locate(merged, remoteComponent));
+    } else if (baseComponent) {
+      // Removed locally: drop it unless remote changed it meanwhile
+      const changed = serializeComponent(remoteComponent) !== serializeComponent(baseComponent);
+      if (!changed || resolveConflict(context, { ...locate(merged, remoteComponent), removedBy: 'local' }) === 'local') {
+        merged.removeSubcomponent(remoteComponent);
+      }
+    }
+  }
+
+  for (const [componentKey, localComponent] of localByKey) {
+    if (remoteByKey.has(componentKey)) {
+      continue;
+    }
+
+    // Added locally, or removed remotely while changed locally
+    const baseComponent = baseByKey.get(componentKey);
+    const changed = !baseComponent || serializeComponent(localComponent) !== serializeComponent(baseComponent);
+    const keep = !baseComponent ||
+      (changed && resolveConflict(context, { ...locate(local, localComponent), removedBy: 'remote' }) === 'local');
+
+    if (keep) {
+      merged.addSubcomponent(new ICAL.Component(JSON.parse(JSON.stringify(localComponent.toJSON()))));
+    }
+  }
+}
+
+function describeConflict(
+  context: MergeContext,
+  location: Location,
+  name: string,
+  base: ICAL.Property | undefined,
+  local: ICAL.Property | undefined,
+  remote: ICAL.Property | undefined
+): Omit<MergeConflict, 'resolution'> {
+  const read = (property: ICAL.Property, root: ICAL.Component) => readFieldValue(property, root, { params: true });
+  const conflict: Omit<MergeConflict, 'resolution'> = { ...location, property: name.toUpperCase() };
+
+  if (base) {
+    conflict.base = read(base, context.baseRoot);
+  }
+  if (local) {
+    conflict.local = read(local, context.localRoot);
+  } else {
+    conflict.removedBy = 'local';
+  }
+  if (remote) {
+    conflict.remote = read(remote, context.mergedRoot);
+  } else {
+    conflict.removedBy = 'remote';
+  }
+
+  return conflict;
+}
+
+/**
+ * Apply the resolution policy to a conflict and record it
+ */
+function resolveConflict(context: MergeContext, conflict: Omit<MergeConflict, 'resolution'>): MergeSide {
+  const resolution = typeof context.resolve === 'function' ? context.resolve(conflict) : context.resolve;
+
+  if (resolution !== 'local' && resolution !== 'remote') {
+    throw new InvalidInputError(`Invalid conflict resolution "${resolution}": expected 'local' or 'remote'`);
+  }
+
+  context.conflicts.push({ ...conflict, resolution });
+  return resolution;
+}
+
+/**
+ * Replace all instances of a property with copies of the given ones
+ */
+function replaceProperties(component: ICAL.Component, name: string, properties: ICAL.Property[]): void {
+  const copies = properties.map((property) => {
+    return property.parent === component
+      ? property
+      : new ICAL.Property(JSON.parse(JSON.stringify(property.toJSON())));
+  });
+
+  component.removeAllProperties(name);
+  copies.forEach((property) => component.addProperty(property));
+}
+
+/**
+ * Properties holding a comma-separated list of values (CATEGORIES, RESOURCES, EXDATE, NICKNAME, ...)
+ */
+function isMultiValued(name: string): boolean {
+  return [ICAL.design.icalendar, ICAL.design.vcard].some((design) => {
+    return Boolean((design.property as Record<string, { multiValue?: string }>)[name]?.multiValue);
+  });
+}
+
+function compareValues(a: ICAL.Property, b: ICAL.Property): number {
+  const left = a.getFirstValue();
+  const right = b.getFirstValue();
+
+  if (left instanceof ICAL.Time && right instanceof ICAL.Time) {
+    return left.compare(right);
+  }
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right;
+  }
+  return String(left).localeCompare(String(right));
+}
+
+function serializeAll(properties: ICAL.Property[]): string {
+  return JSON.stringify(properties.map((property) => property.toJSON()));
+}
+
+function serializeComponent(component: ICAL.Component): string {
+  return JSON.stringify(component.toJSON());
+}
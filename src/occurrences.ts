@@ -0,0 +1,385 @@
+import ICAL from 'ical.js';
+import { randomUUID } from 'crypto';
+import type { OccurrenceTarget } from './types';
+import { toICALTime, toJSDate } from './dates';
+import { ComponentNotFoundError, InvalidInputError } from './errors';
+
+/**
+ * Upper bound on the occurrences walked to find one, so rules that never reach it terminate
+ */
+const MAX_OCCURRENCES = 100000;
+
+// UTC offsets stay well within a day, so wall-clock times earlier than this are before an instant
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A series split by a this-and-future edit: the truncated master and the calendar
+ * object holding the new series
+ */
+export interface SeriesSplit {
+  master: ICAL.Component;
+  calendar: ICAL.Component;
+}
+
+/**
+ * Find the master of a recurring series: the first component of the given type
+ * (and UID, if given) without RECURRENCE-ID, falling back to the first such component
+ */
+export function getMasterComponent(
+  root: ICAL.Component,
+  type: string,
+  uid?: unknown
+): ICAL.Component | null {
+  const components = root.getAllSubcomponents(type).filter((component) => {
+    return uid === undefined || component.getFirstPropertyValue('uid') === uid;
+  });
+  return components.find((component) => !component.hasProperty('recurrence-id')) ||
+         components[0] ||
+         null;
+}
+
+/**
+ * List the overrides (components with RECURRENCE-ID) belonging to a master's series
+ */
+export function getOverrides(root: ICAL.Component, master: ICAL.Component): ICAL.Component[] {
+  const uid = master.getFirstPropertyValue('uid');
+
+  return root.getAllSubcomponents(master.name).filter((component) => {
+    return component !== master &&
+           component.hasProperty('recurrence-id') &&
+           component.getFirstPropertyValue('uid') === uid;
+  });
+}
+
+/**
+ * Resolve the component holding a single occurrence of a recurring series
+ *
+ * Returns the existing override with a matching RECURRENCE-ID, or creates one by
+ * copying the master (without RRULE/RDATE/EXDATE) and moving DTSTART/DTEND/DUE to the
+ * occurrence. Occurrences removed through EXDATE are reinstated as overrides.
+ *
+ * With `thisAndFuture` the series is split instead (see splitSeries()) and the master of
+ * the new series is returned; the split is recorded in `splits`.
+ *
+ * @param root - Parsed VCALENDAR
+ * @param master - Master VEVENT/VTODO of the series
+ * @param target - Occurrence to resolve
+ * @param splits - Collects series splits; without it this-and-future edits are rejected
+ * @returns Override component for the occurrence, or the master of the new series
+ */
+export function resolveOccurrence(
+  root: ICAL.Component,
+  master: ICAL.Component,
+  target: OccurrenceTarget,
+  splits?: SeriesSplit[]
+): ICAL.Component {
+  const masterStart = master.getFirstProperty('dtstart');
+  if (!masterStart) {
+    throw new InvalidInputError('Cannot target an occurrence: master has no DTSTART');
+  }
+  if (!master.hasProperty('rrule') && !master.hasProperty('rdate')) {
+    throw new InvalidInputError('Cannot target an occurrence: component is not recurring');
+  }
+
+  const masterTzid = masterStart.getFirstParameter('tzid');
+  const instant = occurrenceInstant(target, masterTzid, root);
+
+  if (target.thisAndFuture) {
+    if (!splits) {
+      throw seriesSplitError();
+    }
+    return splitSeries(root, master, instant, splits);
+  }
+
+  const uid = master.getFirstPropertyValue('uid');
+  const existing = root.getAllSubcomponents(master.name).find((component) => {
+    const recurrenceId = component.getFirstProperty('recurrence-id');
+    return recurrenceId &&
+           component.getFirstPropertyValue('uid') === uid &&
+           propertyInstant(recurrenceId, root) === instant;
+  });
+
+  if (existing) {
+    // A single-occurrence edit: the override no longer stands for the following ones
+    existing.getFirstProperty('recurrence-id')!.removeParameter('range');
+    return existing;
+  }
+
+  const occurrence = removeExdate(master, instant, root) || findOccurrence(master, instant, root).match;
+  if (!occurrence) {
+    throw noOccurrenceError(master, instant);
+  }
+
+  const override = createOverride(master, occurrence);
+  root.addSubcomponent(override);
+
+  return override;
+}
+
+/**
+ * Error for this-and-future edits through functions that return a single calendar object
+ */
+export function seriesSplitError(): InvalidInputError {
+  return new InvalidInputError(
+    'Editing this and future occurrences splits the series into a new calendar object: ' +
+    'use updateComponents(), which returns it in `created`'
+  );
+}
+
+/**
+ * Split a series at an occurrence, for "this and all future occurrences" edits
+ *
+ * Most servers and clients ignore RECURRENCE-ID;RANGE=THISANDFUTURE, so the series is split
+ * the way Google Calendar, iCloud and Outlook do it: the master's RRULE ends with an UNTIL
+ * just before the occurrence, and a new series (new UID, RELATED-TO the original) starts
+ * at the occurrence. COUNT, RDATE/EXDATE values and overrides from the occurrence on move
+ * to the new series, which lives in its own VCALENDAR (CalDAV stores one UID per object).
+ *
+ * Splitting at the first occurrence changes the whole series: the master itself is returned.
+ */
+function splitSeries(root: ICAL.Component, master: ICAL.Component, instant: number, splits: SeriesSplit[]): ICAL.Component {
+  const start = master.getFirstProperty('dtstart')!;
+  if (propertyInstant(start, root) === instant) {
+    return master;
+  }
+
+  const { match: occurrence } = findOccurrence(master, instant, root);
+  if (!occurrence) {
+    throw noOccurrenceError(master, instant);
+  }
+
+  const tzid = start.getFirstParameter('tzid') || undefined;
+  const originalUid = String(master.getFirstPropertyValue('uid'));
+  const uid = randomUUID();
+
+  const series = cloneComponent(master);
+  series.updatePropertyWithValue('uid', uid);
+  series.addPropertyWithValue('related-to', originalUid);
+  moveTo(series, occurrence);
+
+  // The master ends just before the occurrence; the new series gets the remaining COUNT
+  const until = endBefore(occurrence, tzid, root);
+  master.getAllProperties('rrule').forEach((rrule, index) => {
+    const recur = rrule.getFirstValue() as ICAL.Recur;
+    if (recur.count) {
+      const remaining = recur.clone();
+      remaining.count = recur.count - countBefore(recur, start, instant, root);
+      series.getAllProperties('rrule')[index].setValue(remaining);
+    }
+
+    const ended = recur.clone();
+    ended.count = null;
+    ended.until = until.clone();
+    rrule.setValue(ended);
+  });
+
+  for (const name of ['rdate', 'exdate']) {
+    splitValues(master.getAllProperties(name), series.getAllProperties(name), instant, root);
+  }
+
+  const calendar = new ICAL.Component('vcalendar');
+  root.getAllProperties().forEach((property) => calendar.addProperty(new ICAL.Property(clone(property.toJSON()))));
+  root.getAllSubcomponents('vtimezone').forEach((vtimezone) => calendar.addSubcomponent(cloneComponent(vtimezone)));
+  calendar.addSubcomponent(series);
+
+  for (const override of getOverrides(root, master)) {
+    if (propertyInstant(override.getFirstProperty('recurrence-id')!, root) >= instant) {
+      root.removeSubcomponent(override);
+      override.updatePropertyWithValue('uid', uid);
+      calendar.addSubcomponent(override);
+    }
+  }
+
+  splits.push({ master, calendar });
+  return series;
+}
+
+function createOverride(master: ICAL.Component, occurrence: ICAL.Time): ICAL.Component {
+  const override = cloneComponent(master);
+
+  for (const name of ['rrule', 'rdate', 'exdate', 'exrule']) {
+    override.removeAllProperties(name);
+  }
+
+  moveTo(override, occurrence);
+
+  const recurrenceId = new ICAL.Property('recurrence-id', override);
+  recurrenceId.setValue(occurrence.clone());
+  const tzid = override.getFirstProperty('dtstart')!.getFirstParameter('tzid');
+  if (tzid) {
+    recurrenceId.setParameter('tzid', tzid);
+  }
+  override.addProperty(recurrenceId);
+
+  return override;
+}
+
+/**
+ * Move DTSTART to the occurrence, keeping the duration to DTEND (VEVENT) and DUE (VTODO)
+ */
+function moveTo(component: ICAL.Component, occurrence: ICAL.Time): void {
+  const start = component.getFirstProperty('dtstart')!;
+  const originalStart = start.getFirstValue() as ICAL.Time;
+
+  for (const name of ['dtend', 'due']) {
+    const end = component.getFirstProperty(name);
+    if (end) {
+      const moved = occurrence.clone();
+      moved.addDuration((end.getFirstValue() as ICAL.Time).subtractDate(originalStart));
+      end.setValue(moved);
+    }
+  }
+
+  start.setValue(occurrence.clone());
+}
+
+/**
+ * UNTIL for a rule ending right before the occurrence: the previous day for DATE values,
+ * UTC for zoned times (RFC 5545 section 3.3.10), otherwise one second earlier
+ */
+function endBefore(occurrence: ICAL.Time, tzid: string | undefined, root: ICAL.Component): ICAL.Time {
+  if (tzid && !occurrence.isDate) {
+    return ICAL.Time.fromJSDate(new Date(toJSDate(occurrence, tzid, root).getTime() - 1000), true);
+  }
+
+  const until = occurrence.clone();
+  if (until.isDate) {
+    until.adjust(-1, 0, 0, 0);
+  } else {
+    until.adjust(0, 0, 0, -1);
+  }
+  return until;
+}
+
+/**
+ * Move RDATE/EXDATE values from the split instant on to the new series
+ */
+function splitValues(before: ICAL.Property[], after: ICAL.Property[], instant: number, root: ICAL.Component): void {
+  const isAfter = (property: ICAL.Property, value: ICAL.Time | ICAL.Period) => {
+    const time = value instanceof ICAL.Period ? value.start : value;
+    return toJSDate(time, property.getFirstParameter('tzid') || undefined, root).getTime() >= instant;
+  };
+
+  const keep = (properties: ICAL.Property[], predicate: (property: ICAL.Property, value: ICAL.Time | ICAL.Period) => boolean) => {
+    for (const property of properties) {
+      const values = (property.getValues() as Array<ICAL.Time | ICAL.Period>).filter((value) => predicate(property, value));
+      if (values.length === 0) {
+        property.parent!.removeProperty(property);
+      } else {
+        property.setValues(values);
+      }
+    }
+  };
+
+  keep(before, (property, value) => !isAfter(property, value));
+  keep(after, isAfter);
+}
+
+/**
+ * Walk the recurrence set (RRULE + RDATE - EXDATE) until the target instant
+ */
+function findOccurrence(master: ICAL.Component, instant: number, root: ICAL.Component): { match: ICAL.Time | null } {
+  const start = master.getFirstProperty('dtstart')!;
+  const expansion = new ICAL.RecurExpansion({
+    component: master,
+    dtstart: start.getFirstValue() as ICAL.Time,
+  });
+
+  return walk(() => expansion.next(), start.getFirstParameter('tzid') || undefined, instant, root);
+}
+
+/**
+ * Number of instances a rule generates before the instant (COUNT includes excluded ones)
+ */
+function countBefore(recur: ICAL.Recur, start: ICAL.Property, instant: number, root: ICAL.Component): number {
+  const iterator = recur.iterator(start.getFirstValue() as ICAL.Time);
+  return walk(() => iterator.next(), start.getFirstParameter('tzid') || undefined, instant, root).before;
+}
+
+/**
+ * Step through occurrences until reaching the instant
+ *
+ * @returns The occurrence at the instant (if any) and the number of occurrences before it
+ * @throws InvalidInputError when the instant is still not reached after MAX_OCCURRENCES
+ */
+function walk(
+  next: () => ICAL.Time | null,
+  tzid: string | undefined,
+  instant: number,
+  root: ICAL.Component
+): { match: ICAL.Time | null; before: number } {
+  // Compare wall-clock times first (cheap); resolve the zone only within a day of the target
+  const wallClock = (time: ICAL.Time) => Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second);
+  const target = instant - DAY;
+
+  for (let before = 0; before < MAX_OCCURRENCES; before++) {
+    const time = next();
+    if (!time) {
+      return { match: null, before };
+    }
+    if (wallClock(time) < target) {
+      continue;
+    }
+
+    const current = toJSDate(time, tzid, root).getTime();
+    if (current >= instant) {
+      return { match: current === instant ? time : null, before };
+    }
+  }
+
+  throw new InvalidInputError(
+    `No occurrence at ${new Date(instant).toISOString()} within the first ${MAX_OCCURRENCES} occurrences of the series`
+  );
+}
+
+function noOccurrenceError(master: ICAL.Component, instant: number): ComponentNotFoundError {
+  return new ComponentNotFoundError(
+    `No occurrence at ${new Date(instant).toISOString()} in the recurrence set`,
+    master.name.toUpperCase(),
+    { uid: master.getFirstPropertyValue('uid') ?? undefined, recurrenceId: new Date(instant).toISOString() }
+  );
+}
+
+function cloneComponent(component: ICAL.Component): ICAL.Component {
+  return new ICAL.Component(clone(component.toJSON()));
+}
+
+function clone<T>(jCal: T): T {
+  return JSON.parse(JSON.stringify(jCal));
+}
+
+/**
+ * Remove an EXDATE value matching the instant, returning the excluded time if found
+ */
+function removeExdate(master: ICAL.Component, instant: number, root: ICAL.Component): ICAL.Time | null {
+  for (const exdate of master.getAllProperties('exdate')) {
+    const tzid = exdate.getFirstParameter('tzid');
+    const values = exdate.getValues() as ICAL.Time[];
+    const match = values.find((value) => toJSDate(value, tzid, root).getTime() === instant);
+
+    if (match) {
+      const remaining = values.filter((value) => value !== match);
+      if (remaining.length === 0) {
+        master.removeProperty(exdate);
+      } else {
+        exdate.setValues(remaining);
+      }
+      return match;
+    }
+  }
+
+  return null;
+}
+
+function occurrenceInstant(target: OccurrenceTarget, masterTzid: string, root: ICAL.Component): number {
+  const { time, tzid } = toICALTime('RECURRENCE-ID', target.recurrenceId);
+
+  // Local wall-clock times without TZID are read in the master's zone
+  const zone = tzid ?? (time.zone === ICAL.Timezone.utcTimezone ? undefined : masterTzid);
+  return toJSDate(time, zone || undefined, root).getTime();
+}
+
+function propertyInstant(property: ICAL.Property, root: ICAL.Component): number {
+  const tzid = property.getFirstParameter('tzid');
+  return toJSDate(property.getFirstValue() as ICAL.Time, tzid || undefined, root).getTime();
+}
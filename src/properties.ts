@@ -0,0 +1,274 @@
+import ICAL from 'ical.js';
+import type {
+  CalendarObjectInput,
+  FieldUpdates,
+  FieldValue,
+  ParameterizedValue,
+  PropertyOperation,
+  PropertyParams,
+  UpdateOptions,
+} from './types';
+import { isDateField, writeDateValue } from './dates';
+import {
+  isStructuredProperty,
+  isStructuredValue,
+  splitEscaped,
+  toStructuredValues,
+} from './structured';
+import { getTargetComponents, parseCalendarObject } from './component';
+import { trackChanges } from './tracking';
+import { applyTimezoneOption } from './timezones';
+import { InvalidInputError, InvalidValueError, TsdavUtilsError } from './errors';
+
+/**
+ * Apply operations to repeated properties on a calendar/todo/vcard object
+ *
+ * updateFields() only touches the first instance of a property. Use this for
+ * properties that legitimately repeat (ATTENDEE, CATEGORIES, EMAIL, TEL, ...).
+ *
+ * @param calendarObject - iCal string or tsdav DAVCalendarObject with 'data' field
+ * @param operations - Operations applied in order to the target component
+ * @param options - Components, occurrence (default: master) and change tracking, as for updateFields()
+ * @returns Updated iCal string ready for tsdav.updateCalendarObject()
+ *
+ * @example
+ * ```typescript
+ * const updated = applyPropertyOperations(event.data, [
+ *   { op: 'append', name: 'ATTENDEE', value: 'mailto:jane@example.com' },
+ *   { op: 'remove', name: 'ATTENDEE', value: 'mailto:bob@example.com' },
+ *   { op: 'replace', name: 'CATEGORIES', values: ['Work', 'Project-X'] },
+ * ]);
+ * ```
+ */
+export function applyPropertyOperations(
+  calendarObject: CalendarObjectInput,
+  operations: PropertyOperation[],
+  options: UpdateOptions = {}
+): string {
+  const component = parseCalendarObject(calendarObject);
+  const names = operations.map((operation) => operation.name);
+
+  for (const target of getTargetComponents(component, options)) {
+    trackChanges(target, names, options, () => {
+      for (const operation of operations) {
+        applyOperation(target, operation);
+      }
+    });
+  }
+
+  applyTimezoneOption(component, options);
+
+  return component.toString();
+}
+
+/**
+ * Apply a field update map to a component
+ *
+ * Single values replace the first instance (created if missing), arrays replace
+ * all instances, null removes all instances and undefined is skipped.
+ */
+export function applyFieldUpdates(component: ICAL.Component, fields: FieldUpdates): void {
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    if (value === null) {
+      // Remove every instance, including X-* and parameter-bearing properties
+      component.removeAllProperties(key.toLowerCase());
+    } else if (Array.isArray(value)) {
+      replaceFieldValues(component, key, value);
+    } else {
+      setFieldValue(component, key, value);
+    }
+  }
+}
+
+/**
+ * Replace the first instance of a property, creating it if missing
+ */
+export function setFieldValue(
+  component: ICAL.Component,
+  name: string,
+  value: FieldValue
+): ICAL.Property {
+  const property = component.getFirstProperty(name.toLowerCase()) ||
+                   component.addProperty(new ICAL.Property(name.toLowerCase(), component));
+
+  return writeFieldValue(property, name, value);
+}
+
+/**
+ * Replace all instances of a property with the given values
+ * Existing instances are overwritten in place so property order is preserved
+ */
+export function replaceFieldValues(
+  component: ICAL.Component,
+  name: string,
+  values: FieldValue[]
+): void {
+  const existing = component.getAllProperties(name.toLowerCase());
+
+  values.forEach((value, index) => {
+    if (existing[index]) {
+      writeFieldValue(existing[index], name, value);
+    } else {
+      appendValue(component, name, value);
+    }
+  });
+
+  for (const property of existing.slice(values.length)) {
+    component.removeProperty(property);
+  }
+}
+
+/**
+ * Write a field value to an existing property instance
+ * Date values are converted to ICAL.Time, structured values (N, ADR, ORG) to
+ * component lists, everything else is written as-is.
+ * Parameters from `{ value, params }` are merged into (or replace) existing ones.
+ * Values ical.js rejects are reported as InvalidValueError naming the property.
+ */
+export function writeFieldValue(
+  property: ICAL.Property,
+  name: string,
+  value: FieldValue
+): ICAL.Property {
+  try {
+    return writeValue(property, name, value);
+  } catch (error: any) {
+    if (error instanceof TsdavUtilsError) {
+      throw error;
+    }
+    throw new InvalidValueError(`Invalid value for ${name.toUpperCase()}: ${error.message}`, name, value);
+  }
+}
+
+function writeValue(property: ICAL.Property, name: string, value: FieldValue): ICAL.Property {
+  const parameterized = isParameterizedValue(value) ? value : undefined;
+  const raw = parameterized ? parameterized.value : value;
+
+  if (parameterized?.paramMode === 'replace') {
+    // jCal layout: [name, params, type, ...values]
+    property.jCal[1] = {};
+  }
+
+  if (isDateField(property, name, value)) {
+    // TZID is owned by writeDateValue() so it always matches the written time
+    writeDateValue(property, name, value);
+    setParams(property, parameterized?.params, ['tzid']);
+    return property;
+  }
+
+  // A VALUE parameter selects the value type (e.g. BDAY;VALUE=text)
+  const type = getValueType(parameterized?.params);
+  if (type) {
+    property.resetType(type);
+  }
+
+  if (isStructuredProperty(name) && (typeof raw === 'string' || isStructuredValue(raw))) {
+    property.setValue(toStructuredValues(name, raw));
+  } else if (typeof raw === 'string' && property.isMultiValue) {
+    // 'Work,Project-X' → CATEGORIES list; '\,' keeps a literal comma
+    property.setValues(splitEscaped(raw, ','));
+  } else if (typeof raw === 'string' && property.type === 'recur') {
+    property.setValue(ICAL.Recur.fromString(raw));
+  } else {
+    property.setValue(raw);
+  }
+
+  setParams(property, parameterized?.params, ['value']);
+  return property;
+}
+
+function getValueType(params?: PropertyParams): string | undefined {
+  const key = Object.keys(params || {}).find((name) => name.toLowerCase() === 'value');
+  const value = key ? params![key] : undefined;
+  return (Array.isArray(value) ? value[0] : value)?.toLowerCase();
+}
+
+function isParameterizedValue(value: FieldValue): value is ParameterizedValue {
+  return typeof value === 'object' && !(value instanceof Date) && 'value' in value;
+}
+
+function setParams(property: ICAL.Property, params?: PropertyParams, skip: string[] = []): void {
+  for (const [name, value] of Object.entries(params || {})) {
+    if (!skip.includes(name.toLowerCase())) {
+      property.setParameter(name.toLowerCase(), value);
+    }
+  }
+}
+
+function applyOperation(component: ICAL.Component, operation: PropertyOperation): void {
+  const name = operation.name.toLowerCase();
+
+  switch (operation.op) {
+    case 'append':
+      appendValue(component, operation.name, operation.value);
+      break;
+
+    case 'remove':
+      removeValues(component, operation.name, operation.value, operation.index);
+      break;
+
+    case 'replace':
+      replaceFieldValues(component, operation.name, operation.values);
+      break;
+
+    case 'set': {
+      const property = component.getAllProperties(name)[operation.index];
+      if (!property) {
+        throw new InvalidInputError(`Cannot set ${operation.name.toUpperCase()}: no instance at index ${operation.index}`);
+      }
+      writeFieldValue(property, operation.name, operation.value);
+      break;
+    }
+  }
+}
+
+function appendValue(component: ICAL.Component, name: string, value: FieldValue): void {
+  const property = new ICAL.Property(name.toLowerCase(), component);
+  const existing = component.getFirstProperty(name.toLowerCase());
+
+  // Multi-value properties (CATEGORIES, RESOURCES, ...) keep a single comma-separated list
+  if (property.isMultiValue && existing && typeof value === 'string') {
+    existing.setValues([...existing.getValues(), ...splitEscaped(value, ',')]);
+    return;
+  }
+
+  component.addProperty(writeFieldValue(property, name, value));
+}
+
+function removeValues(
+  component: ICAL.Component,
+  name: string,
+  value?: string,
+  index?: number
+): void {
+  const properties = component.getAllProperties(name.toLowerCase());
+
+  if (index !== undefined) {
+    if (properties[index]) {
+      component.removeProperty(properties[index]);
+    }
+    return;
+  }
+
+  if (value === undefined) {
+    component.removeAllProperties(name.toLowerCase());
+    return;
+  }
+
+  const matches = (candidate: unknown) => String(candidate).toLowerCase() === value.toLowerCase();
+
+  for (const property of properties) {
+    const values = property.getValues();
+    const remaining = values.filter((candidate) => !matches(candidate));
+
+    if (remaining.length === 0) {
+      component.removeProperty(property);
+    } else if (remaining.length !== values.length) {
+      property.setValues(remaining);
+    }
+  }
+}
@@ -0,0 +1,288 @@
+import ICAL from 'ical.js';
+import type {
+  CalendarObjectInput,
+  Occurrence,
+  RecurrenceRule,
+  TargetOptions,
+  UpdateOptions,
+} from './types';
+import { toICALTime, toJSDate } from './dates';
+import { getTargetComponent, parseCalendarObject } from './component';
+import { getOverrides } from './occurrences';
+import { trackChanges } from './tracking';
+import { applyTimezoneOption } from './timezones';
+import { InvalidValueError } from './errors';
+
+const RULE_PARTS = [
+  'bysecond',
+  'byminute',
+  'byhour',
+  'byday',
+  'bymonthday',
+  'byyearday',
+  'byweekno',
+  'bymonth',
+  'bysetpos',
+] as const;
+
+type RulePart = (typeof RULE_PARTS)[number];
+type RuleParts = { [K in RulePart]?: RecurrenceRule[K] };
+// ICAL.Recur keeps the BY-parts under uppercase names
+type RecurParts = { [K in RulePart as Uppercase<K>]?: RecurrenceRule[K] };
+
+/**
+ * Build an RRULE value from a structured rule
+ *
+ * @param rule - Structured rule ({ freq, interval, byday, until, count, ... })
+ * @returns RRULE value, e.g. 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE'
+ *
+ * @example
+ * ```typescript
+ * buildRecurrenceRule({ freq: 'MONTHLY', byday: ['-1FR'], count: 6 });
+ * // 'FREQ=MONTHLY;COUNT=6;BYDAY=-1FR'
+ * ```
+ */
+export function buildRecurrenceRule(rule: RecurrenceRule): string {
+  return toRecur(rule).toString();
+}
+
+/**
+ * Parse an RRULE value into a structured rule
+ * Inverse of buildRecurrenceRule(); UNTIL is returned as an iCal string
+ */
+export function parseRecurrenceRule(rrule: string): RecurrenceRule {
+  const recur = ICAL.Recur.fromString(rrule.replace(/^RRULE:/i, ''));
+  const rule: RecurrenceRule = { freq: recur.freq as RecurrenceRule['freq'] };
+
+  if (recur.interval !== 1) {
+    rule.interval = recur.interval;
+  }
+  if (recur.count) {
+    rule.count = recur.count;
+  }
+  if (recur.until) {
+    rule.until = recur.until.toICALString();
+  }
+
+  const parts: RecurParts = recur.parts;
+  for (const part of RULE_PARTS) {
+    copyPart(rule, part, parts[toUpperPart(part)]);
+  }
+
+  // ical.js always carries a week start, only report an explicit one
+  if (/WKST=/i.test(rrule)) {
+    rule.wkst = ICAL.Recur.numericDayToIcalDay(recur.wkst);
+  }
+
+  return rule;
+}
+
+/**
+ * Create, edit or remove the RRULE of a calendar object
+ *
+ * Changes are merged into the existing rule (keys set to undefined are dropped).
+ * Setting COUNT drops UNTIL and vice versa. UNTIL is adapted to DTSTART as RFC 5545
+ * requires: DATE for all-day events, UTC for zoned or UTC start times.
+ *
+ * @param calendarObject - iCal string or tsdav DAVCalendarObject with 'data' field
+ * @param changes - Rule parts to set, or null to remove the RRULE
+ * @param options - Occurrence of a recurring series to update (default: master) and change tracking
+ * @returns Updated iCal string ready for tsdav.updateCalendarObject()
+ *
+ * @example
+ * ```typescript
+ * const weekly = updateRecurrenceRule(event.data, { freq: 'WEEKLY', byday: ['MO', 'WE'] });
+ * const ending = updateRecurrenceRule(weekly, { until: '2025-06-30' });
+ * ```
+ */
+export function updateRecurrenceRule(
+  calendarObject: CalendarObjectInput,
+  changes: Partial<RecurrenceRule> | null,
+  options: UpdateOptions = {}
+): string {
+  const component = parseCalendarObject(calendarObject);
+  const target = getTargetComponent(component, options);
+
+  if (changes === null) {
+    trackChanges(target, ['RRULE'], options, () => target.removeAllProperties('rrule'));
+    return component.toString();
+  }
+
+  const existing = target.getFirstPropertyValue('rrule') as ICAL.Recur | null;
+  const rule = {
+    ...(existing ? parseRecurrenceRule(existing.toString()) : {}),
+    ...changes,
+  } as RecurrenceRule;
+
+  if (!rule.freq) {
+    throw new InvalidValueError('Cannot create RRULE without freq', 'RRULE', changes);
+  }
+
+  // COUNT and UNTIL are mutually exclusive: the one being set wins
+  if (changes.count !== undefined) {
+    delete rule.until;
+  } else if (changes.until !== undefined) {
+    delete rule.count;
+  }
+
+  const dtstart = target.getFirstProperty('dtstart');
+  trackChanges(target, ['RRULE'], options, () => {
+    target.updatePropertyWithValue('rrule', toRecur(rule, dtstart, component));
+  });
+  applyTimezoneOption(component, options);
+
+  return component.toString();
+}
+
+/**
+ * Expand a (possibly recurring) event into concrete occurrences
+ *
+ * Uses ical.js's recurrence iterator over RRULE/RDATE, skips EXDATE values and
+ * applies overrides (components with RECURRENCE-ID, including RANGE=THISANDFUTURE).
+ * TZID times are resolved to absolute instants.
+ *
+ * @param calendarObject - iCal string or tsdav DAVCalendarObject with 'data' field
+ * @param rangeStart - Start of the range (inclusive)
+ * @param rangeEnd - End of the range (exclusive)
+ * @param options - Series to expand in a multi-component VCALENDAR (default: first)
+ * @returns Occurrences overlapping the range, ordered by recurrence id
+ *
+ * @example
+ * ```typescript
+ * const occurrences = expandOccurrences(event.data, new Date('2025-01-01'), new Date('2025-02-01'));
+ * // [{ recurrenceId, start, end, allDay: false, isOverride: false }, ...]
+ * ```
+ */
+export function expandOccurrences(
+  calendarObject: CalendarObjectInput,
+  rangeStart: Date,
+  rangeEnd: Date,
+  options: Pick<TargetOptions, 'component'> = {}
+): Occurrence[] {
+  const root = parseCalendarObject(calendarObject);
+  const master = getTargetComponent(root, { component: options.component });
+  const masterTzid = master.getFirstProperty('dtstart')?.getFirstParameter('tzid');
+  const overrides = getOverrides(root, master);
+
+  const event = new ICAL.Event(master, { exceptions: overrides });
+  const iterator = event.iterator();
+  const occurrences: Occurrence[] = [];
+  const seen = new Set<ICAL.Component>();
+
+  const collect = (recurrenceId: ICAL.Time) => {
+    const occurrence = toOccurrence(event, recurrenceId, masterTzid, root);
+    seen.add(event.getOccurrenceDetails(recurrenceId).item.component);
+
+    if (occurrence.end > rangeStart && occurrence.start < rangeEnd) {
+      occurrences.push(occurrence);
+    }
+  };
+
+  let next: ICAL.Time | null;
+  while ((next = iterator.next())) {
+    if (toJSDate(next, masterTzid, root) >= rangeEnd) {
+      break;
+    }
+    collect(next);
+  }
+
+  // Overrides whose original slot lies beyond the range may have been moved into it
+  for (const override of overrides) {
+    if (!seen.has(override)) {
+      const recurrenceId = override.getFirstPropertyValue('recurrence-id') as ICAL.Time;
+      if (toJSDate(recurrenceId, masterTzid, root) >= rangeEnd) {
+        collect(recurrenceId);
+      }
+    }
+  }
+
+  return occurrences;
+}
+
+function toOccurrence(
+  event: ICAL.Event,
+  recurrenceId: ICAL.Time,
+  masterTzid: string | undefined,
+  root: ICAL.Component
+): Occurrence {
+  const details = event.getOccurrenceDetails(recurrenceId);
+  const item = details.item.component;
+  const startTzid = item.getFirstProperty('dtstart')?.getFirstParameter('tzid');
+  const endTzid = item.getFirstProperty('dtend')?.getFirstParameter('tzid') ?? startTzid;
+
+  return {
+    recurrenceId: toJSDate(recurrenceId, masterTzid, root),
+    start: toJSDate(details.startDate, startTzid, root),
+    end: toJSDate(details.endDate, endTzid, root),
+    allDay: details.startDate.isDate,
+    isOverride: details.item !== event,
+  };
+}
+
+function toRecur(rule: RecurrenceRule, dtstart?: ICAL.Property | null, root?: ICAL.Component): ICAL.Recur {
+  const data: ConstructorParameters<typeof ICAL.Recur>[0] = {
+    freq: rule.freq,
+    interval: rule.interval,
+    count: rule.count,
+  };
+
+  if (rule.until !== undefined) {
+    data.until = toUntil(rule.until, dtstart, root);
+  }
+  if (rule.wkst) {
+    data.wkst = ICAL.Recur.icalDayToNumericDay(rule.wkst);
+  }
+  for (const part of RULE_PARTS) {
+    copyPart(data, part, rule[part]);
+  }
+
+  return new ICAL.Recur(data);
+}
+
+function copyPart<K extends RulePart>(target: RuleParts, part: K, values: RuleParts[K]): void {
+  if (values?.length) {
+    target[part] = values;
+  }
+}
+
+function toUpperPart<K extends RulePart>(part: K): Uppercase<K> {
+  return part.toUpperCase() as Uppercase<K>;
+}
+
+/**
+ * Match UNTIL to the value type of DTSTART (RFC 5545 section 3.3.10)
+ */
+export function toUntil(
+  value: NonNullable<RecurrenceRule['until']>,
+  dtstart?: ICAL.Property | null,
+  root?: ICAL.Component
+): ICAL.Time {
+  const { time, tzid } = toICALTime('UNTIL', value);
+  const start = dtstart?.getFirstValue() as ICAL.Time | undefined;
+
+  if (!start) {
+    return time;
+  }
+
+  if (start.isDate) {
+    time.isDate = true;
+    return time;
+  }
+
+  const startTzid = dtstart!.getFirstParameter('tzid') || undefined;
+  const startIsFloating = !startTzid && start.zone !== ICAL.Timezone.utcTimezone;
+
+  if (startIsFloating || time.zone === ICAL.Timezone.utcTimezone) {
+    return time;
+  }
+
+  // A date-only UNTIL includes the whole day
+  if (time.isDate) {
+    time.isDate = false;
+    time.hour = 23;
+    time.minute = 59;
+    time.second = 59;
+  }
+
+  return ICAL.Time.fromJSDate(toJSDate(time, tzid ?? startTzid, root), true);
+}
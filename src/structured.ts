@@ -0,0 +1,150 @@
+import type ICAL from 'ical.js';
+import type {
+  Address,
+  CalendarObjectInput,
+  Organization,
+  StructuredComponent,
+  StructuredName,
+  StructuredValue,
+} from './types';
+import { getTargetComponent, parseCalendarObject } from './component';
+
+/**
+ * Component order of the fixed-length structured vCard properties (RFC 6350)
+ */
+const STRUCTURED_KEYS: Record<string, string[]> = {
+  N: ['family', 'given', 'additional', 'prefix', 'suffix'],
+  ADR: ['poBox', 'extended', 'street', 'locality', 'region', 'postalCode', 'country'],
+};
+
+/**
+ * Check whether a property name is a structured vCard property (N, ADR, ORG)
+ */
+export function isStructuredProperty(name: string): boolean {
+  const upper = name.toUpperCase();
+  return upper === 'ORG' || upper in STRUCTURED_KEYS;
+}
+
+/**
+ * Check whether a value is a structured object (as opposed to a string or Date)
+ */
+export function isStructuredValue(value: unknown): value is StructuredValue {
+  return typeof value === 'object' &&
+         value !== null &&
+         !(value instanceof Date) &&
+         !Array.isArray(value) &&
+         !('value' in value);
+}
+
+/**
+ * Convert a structured object or raw string into the component list ical.js serializes
+ *
+ * Strings are split on unescaped ';' so 'Doe;Jane' becomes family/given.
+ * Semicolons and commas inside components are escaped by ical.js on output.
+ */
+export function toStructuredValues(
+  name: string,
+  value: string | StructuredValue
+): StructuredComponent[] {
+  const upper = name.toUpperCase();
+
+  if (typeof value === 'string') {
+    const components = splitEscaped(value, ';');
+    const keys = STRUCTURED_KEYS[upper];
+    return keys
+      ? keys.map((_, index) => components[index] ?? '')
+      : components;
+  }
+
+  if (upper === 'ORG') {
+    const { name: orgName = '', units = [] } = value as Organization;
+    return [orgName, ...units];
+  }
+
+  const record = value as Record<string, StructuredComponent | undefined>;
+  return STRUCTURED_KEYS[upper].map((key) => record[key] ?? '');
+}
+
+/**
+ * Convert a structured property back into its object shape
+ * Inverse of toStructuredValues(), so the result can be passed to updateFields()
+ */
+export function fromStructuredProperty(property: ICAL.Property): StructuredValue {
+  const first = property.getFirstValue() as unknown;
+  const components = (Array.isArray(first) ? first : [first ?? '']) as StructuredComponent[];
+  const upper = property.name.toUpperCase();
+
+  if (upper === 'ORG') {
+    const [orgName = '', ...units] = components.map(joinComponent);
+    return { name: orgName, units };
+  }
+
+  const keys = STRUCTURED_KEYS[upper];
+  const result: Record<string, StructuredComponent> = {};
+  keys.forEach((key, index) => {
+    result[key] = components[index] ?? '';
+  });
+
+  return upper === 'N' ? result as StructuredName : result as Address;
+}
+
+/**
+ * Read a structured vCard property (N, ADR, ORG) as an object
+ *
+ * @param calendarObject - vCard string or tsdav DAVVCard with 'data' field
+ * @param name - 'N', 'ADR' or 'ORG'
+ * @param index - Instance to read when the property repeats (e.g. several ADR)
+ * @returns Structured object, or null if the property is missing
+ *
+ * @example
+ * ```typescript
+ * const name = getStructuredField(vcard.data, 'N');
+ * // { family: 'Smith', given: 'Jane', additional: 'Marie', prefix: '', suffix: '' }
+ * ```
+ */
+export function getStructuredField(
+  calendarObject: CalendarObjectInput,
+  name: 'N' | 'ADR' | 'ORG',
+  index = 0
+): StructuredValue | null {
+  const target = getTargetComponent(parseCalendarObject(calendarObject));
+  const property = target.getAllProperties(name.toLowerCase())[index];
+
+  return property ? fromStructuredProperty(property) : null;
+}
+
+/**
+ * Split a string on a separator, treating backslash-escaped separators as literal text
+ */
+export function splitEscaped(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && value[i + 1] === separator) {
+      current += separator;
+      i++;
+    } else if (value[i] === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Join values with a separator, escaping separators inside values
+ * Inverse of splitEscaped()
+ */
+export function joinEscaped(values: string[], separator: string): string {
+  return values.map((value) => value.split(separator).join(`\\${separator}`)).join(separator);
+}
+
+// ORG units are single values; a comma inside a unit is literal text
+function joinComponent(component: StructuredComponent): string {
+  return Array.isArray(component) ? component.join(',') : component;
+}
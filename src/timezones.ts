@@ -0,0 +1,285 @@
+import ICAL from 'ical.js';
+import type { CalendarObjectInput, TimezoneOptions, UpdateOptions } from './types';
+import { parseCalendarObject } from './component';
+import { isIANAZone } from './dates';
+
+const WEEK = 7 * 24 * 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+// Before standard time was adopted zones used local mean time; earlier dates use the first observance
+const MIN_YEAR = 1900;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+interface Transition {
+  /** UTC instant of the change */
+  at: number;
+  from: number;
+  to: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Embed a VTIMEZONE for every TZID the calendar references
+ *
+ * Missing definitions are generated from the IANA time zone database bundled with
+ * the JavaScript runtime (Intl), so no network access is needed. Observances cover
+ * the years the calendar's dates use; the rule in effect at the end keeps repeating.
+ *
+ * @param calendarObject - iCal string or tsdav DAVCalendarObject with 'data' field
+ * @param options - `removeUnused` drops VTIMEZONEs no longer referenced
+ * @returns Updated iCal string ready for tsdav.updateCalendarObject()
+ *
+ * @example
+ * ```typescript
+ * const updated = syncTimezones(event.data, { removeUnused: true });
+ * ```
+ */
+export function syncTimezones(calendarObject: CalendarObjectInput, options: TimezoneOptions = {}): string {
+  const component = parseCalendarObject(calendarObject);
+  syncTimezoneComponents(component, options);
+  return component.toString();
+}
+
+/**
+ * Apply the `timezones` option of a write function to a parsed object
+ */
+export function applyTimezoneOption(root: ICAL.Component, options: Pick<UpdateOptions, 'timezones'>): void {
+  if (options.timezones) {
+    syncTimezoneComponents(root, options.timezones === true ? {} : options.timezones);
+  }
+}
+
+/**
+ * Add missing (and optionally drop unused) VTIMEZONE components of a parsed VCALENDAR
+ * vCards and TZIDs unknown to Intl are left alone.
+ */
+export function syncTimezoneComponents(root: ICAL.Component, options: TimezoneOptions = {}): void {
+  if (root.name !== 'vcalendar') {
+    return;
+  }
+
+  const referenced = collectTzids(root);
+  const embedded = new Map(root.getAllSubcomponents('vtimezone').map((vtimezone) => {
+    return [String(vtimezone.getFirstPropertyValue('tzid')), vtimezone];
+  }));
+
+  if (options.removeUnused) {
+    for (const [tzid, vtimezone] of embedded) {
+      if (!referenced.has(tzid)) {
+        root.removeSubcomponent(vtimezone);
+      }
+    }
+  }
+
+  const missing = [...referenced.keys()].filter((tzid) => !embedded.has(tzid) && isIANAZone(tzid));
+  if (missing.length === 0) {
+    return;
+  }
+
+  // VTIMEZONEs conventionally precede the components that use them
+  const others = root.getAllSubcomponents().filter((sub) => sub.name !== 'vtimezone');
+  others.forEach((sub) => root.removeSubcomponent(sub));
+
+  for (const tzid of missing) {
+    const [firstYear, lastYear] = referenced.get(tzid)!;
+    root.addSubcomponent(buildTimezone(tzid, firstYear, lastYear));
+  }
+  others.forEach((sub) => root.addSubcomponent(sub));
+}
+
+/**
+ * Generate a VTIMEZONE from the runtime's IANA data for the given range of years
+ *
+ * Transitions following the same yearly rule in consecutive years are folded into one
+ * observance with an RRULE; the rule of the last year is left open-ended.
+ */
+export function buildTimezone(tzid: string, firstYear: number, lastYear: number): ICAL.Component {
+  const endYear = Math.max(lastYear, new Date().getUTCFullYear()) + 1;
+  const startYear = Math.max(firstYear, MIN_YEAR);
+  const transitions = findTransitions(tzid, Date.UTC(startYear - 1, 0, 1), Date.UTC(endYear + 1, 0, 1));
+
+  const vtimezone = new ICAL.Component('vtimezone');
+  vtimezone.addPropertyWithValue('tzid', tzid);
+
+  if (transitions.length === 0) {
+    const offset = offsetAt(tzid, Date.UTC(startYear, 0, 1));
+    vtimezone.addSubcomponent(buildObservance('standard', Date.UTC(1970, 0, 1), offset, offset));
+    return vtimezone;
+  }
+
+  for (const run of groupByRule(transitions)) {
+    const first = run[0];
+    const last = run[run.length - 1];
+    const type = first.to > first.from ? 'daylight' : 'standard';
+    const observance = buildObservance(type, first.at + first.from, first.from, first.to);
+
+    if (run.length > 1) {
+      const rule = yearlyRule(first);
+      const openEnded = new Date(last.at).getUTCFullYear() >= endYear;
+      observance.addPropertyWithValue('rrule', ICAL.Recur.fromString(
+        `FREQ=YEARLY;BYMONTH=${rule.month};BYDAY=${rule.byday}` +
+        (openEnded ? '' : `;UNTIL=${ICAL.Time.fromJSDate(new Date(last.at), true).toICALString()}`)
+      ));
+    }
+
+    vtimezone.addSubcomponent(observance);
+  }
+
+  return vtimezone;
+}
+
+/**
+ * Map every referenced TZID to the first and last year its dates use
+ */
+function collectTzids(root: ICAL.Component): Map<string, [number, number]> {
+  const tzids = new Map<string, [number, number]>();
+
+  const visit = (component: ICAL.Component) => {
+    if (component.name === 'vtimezone') {
+      return;
+    }
+
+    for (const property of component.getAllProperties()) {
+      const tzid = property.getFirstParameter('tzid');
+      if (!tzid) {
+        continue;
+      }
+
+      const years = property.getValues()
+        .map((value) => (value instanceof ICAL.Period ? value.start : value))
+        .filter((value): value is ICAL.Time => value instanceof ICAL.Time)
+        .map((time) => time.year);
+      const [first, last] = tzids.get(tzid) ?? [Infinity, -Infinity];
+      const current = new Date().getUTCFullYear();
+
+      tzids.set(tzid, [
+        Math.min(first, ...(years.length ? years : [current])),
+        Math.max(last, ...(years.length ? years : [current])),
+      ]);
+    }
+
+    component.getAllSubcomponents().forEach(visit);
+  };
+
+  visit(root);
+  return tzids;
+}
+
+/**
+ * Find offset changes by sampling weekly, then narrowing each change down to the minute
+ *
+ * A change reverted within the same week would be missed.
+ */
+function findTransitions(tzid: string, start: number, end: number): Transition[] {
+  const transitions: Transition[] = [];
+  let previous = offsetAt(tzid, start);
+
+  for (let week = start + WEEK; week <= end; week += WEEK) {
+    const offset = offsetAt(tzid, week);
+    if (offset === previous) {
+      continue;
+    }
+
+    let low = week - WEEK;
+    let high = week;
+    while (high - low > MINUTE) {
+      const middle = low + Math.floor((high - low) / 2);
+      if (offsetAt(tzid, middle) === previous) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+
+    transitions.push({ at: Math.floor(high / MINUTE) * MINUTE, from: previous, to: offset });
+    previous = offset;
+  }
+
+  return transitions;
+}
+
+/**
+ * Split transitions into runs that follow the same yearly rule in consecutive years
+ */
+function groupByRule(transitions: Transition[]): Transition[][] {
+  const runs: Transition[][] = [];
+  const open = new Map<string, Transition[]>();
+
+  for (const transition of transitions) {
+    const key = ruleKey(transition);
+    const run = open.get(key);
+    const year = new Date(transition.at).getUTCFullYear();
+
+    if (run && new Date(run[run.length - 1].at).getUTCFullYear() === year - 1) {
+      run.push(transition);
+    } else {
+      const started = [transition];
+      runs.push(started);
+      open.set(key, started);
+    }
+  }
+
+  return runs.sort((a, b) => a[0].at - b[0].at);
+}
+
+function ruleKey(transition: Transition): string {
+  const { month, byday } = yearlyRule(transition);
+  const local = new Date(transition.at + transition.from);
+  return [transition.from, transition.to, month, byday, local.getUTCHours(), local.getUTCMinutes()].join('|');
+}
+
+/**
+ * Express a transition's local date as "nth weekday of the month" (last weekday when in the final week)
+ */
+function yearlyRule(transition: Transition): { month: number; byday: string } {
+  const local = new Date(transition.at + transition.from);
+  const day = local.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)).getUTCDate();
+  const nth = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+
+  return { month: local.getUTCMonth() + 1, byday: `${nth}${WEEKDAYS[local.getUTCDay()]}` };
+}
+
+function buildObservance(type: string, localStart: number, from: number, to: number): ICAL.Component {
+  const observance = new ICAL.Component(type);
+  const start = new Date(localStart);
+
+  observance.addPropertyWithValue('dtstart', ICAL.Time.fromData({
+    year: start.getUTCFullYear(),
+    month: start.getUTCMonth() + 1,
+    day: start.getUTCDate(),
+    hour: start.getUTCHours(),
+    minute: start.getUTCMinutes(),
+    second: start.getUTCSeconds(),
+  }));
+  observance.addPropertyWithValue('tzoffsetfrom', ICAL.UtcOffset.fromSeconds(from / 1000));
+  observance.addPropertyWithValue('tzoffsetto', ICAL.UtcOffset.fromSeconds(to / 1000));
+
+  return observance;
+}
+
+/**
+ * UTC offset of an IANA zone at an instant, in milliseconds
+ */
+function offsetAt(tzid: string, instant: number): number {
+  let formatter = formatters.get(tzid);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: tzid,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(tzid, formatter);
+  }
+
+  const parts = formatter.formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
@@ -0,0 +1,120 @@
+import ICAL from 'ical.js';
+import type { ChangeTrackingOptions, UpdateOptions } from './types';
+
+/**
+ * Properties whose change requires a SEQUENCE bump (RFC 5546 section 2.1.4)
+ */
+export const DEFAULT_SIGNIFICANT_FIELDS = [
+  'DTSTART',
+  'DTEND',
+  'DURATION',
+  'DUE',
+  'RRULE',
+  'RDATE',
+  'EXDATE',
+  'STATUS',
+];
+
+/**
+ * Run an edit on a component and record it in the change-tracking metadata
+ *
+ * Only active when `options.tracking` is set. If any of the edited properties
+ * actually changed, DTSTAMP and LAST-MODIFIED (VEVENT/VTODO/VJOURNAL) or REV (VCARD)
+ * are set to the current time, and SEQUENCE is incremented when a significant
+ * property changed.
+ *
+ * @param component - Component being edited
+ * @param names - Names of the properties (or subcomponents) the edit may touch
+ * @param options - Update options carrying the tracking configuration
+ * @param edit - Callback applying the changes
+ */
+export function trackChanges(
+  component: ICAL.Component,
+  names: string[],
+  options: UpdateOptions,
+  edit: () => void
+): void {
+  if (!options.tracking) {
+    edit();
+    return;
+  }
+
+  const fields = [...new Set(names.map((name) => name.toUpperCase()))];
+  const before = fields.map((name) => snapshot(component, name));
+
+  edit();
+
+  const changed = fields.filter((name, index) => snapshot(component, name) !== before[index]);
+  recordChanges(component, changed, options, fields);
+}
+
+/**
+ * Record changes already made to a component in the change-tracking metadata
+ *
+ * For edits not run through trackChanges(), such as a series split ending the master's RRULE.
+ *
+ * @param component - Component that was edited
+ * @param changed - Names of the properties that changed
+ * @param options - Update options carrying the tracking configuration
+ * @param fields - Properties the caller set explicitly; tracking metadata among them is left as given
+ */
+export function recordChanges(
+  component: ICAL.Component,
+  changed: string[],
+  options: UpdateOptions,
+  fields: string[] = changed
+): void {
+  if (!options.tracking || changed.length === 0) {
+    return;
+  }
+
+  const tracking: ChangeTrackingOptions = options.tracking === true ? {} : options.tracking;
+
+  // Metadata the caller sets explicitly is left as given
+  const isSet = (name: string) => fields.includes(name);
+  const now = ICAL.Time.fromJSDate(tracking.now ?? new Date(), true);
+
+  if (component.name === 'vcard') {
+    if (!isSet('REV')) {
+      setRevision(component, now);
+    }
+    return;
+  }
+
+  const significant = (tracking.significantFields ?? DEFAULT_SIGNIFICANT_FIELDS)
+    .map((name) => name.toUpperCase());
+
+  if (!isSet('SEQUENCE') && changed.some((name) => significant.includes(name))) {
+    const sequence = Number(component.getFirstPropertyValue('sequence')) || 0;
+    component.updatePropertyWithValue('sequence', sequence + 1);
+  }
+  if (!isSet('DTSTAMP')) {
+    component.updatePropertyWithValue('dtstamp', now);
+  }
+  if (!isSet('LAST-MODIFIED')) {
+    component.updatePropertyWithValue('last-modified', now);
+  }
+}
+
+/**
+ * Serialize every instance of a property (or subcomponent, e.g. VALARM)
+ * so edits can be detected by comparison
+ */
+function snapshot(component: ICAL.Component, name: string): string {
+  return [
+    ...component.getAllProperties(name.toLowerCase()).map((property) => property.toICALString()),
+    ...component.getAllSubcomponents(name.toLowerCase()).map((sub) => sub.toString()),
+  ].join('\n');
+}
+
+/**
+ * Write REV in the value type of the card's version
+ * (DATE-TIME for vCard 3.0, TIMESTAMP for vCard 4.0)
+ */
+function setRevision(component: ICAL.Component, now: ICAL.Time): void {
+  const type = new ICAL.Property('rev', component).type;
+  const iso = now.toString();
+
+  component.removeAllProperties('rev');
+  component.addProperty(new ICAL.Property(['rev', {}, type, iso], component));
+}
@@ -1,16 +1,806 @@
+import type ICAL from 'ical.js';
+
+/**
+ * Property parameters (TYPE, CN, ROLE, PARTSTAT, LANGUAGE, TZID, ...)
+ * Array values are written as comma-separated lists (TYPE=work,voice)
+ */
+export interface PropertyParams {
+  [name: string]: string | string[];
+}
+
+/**
+ * One component of a structured value
+ * Arrays are written as comma-separated lists (e.g. several additional names)
+ */
+export type StructuredComponent = string | string[];
+
+/**
+ * vCard N (Family;Given;Additional;Prefix;Suffix)
+ */
+export interface StructuredName {
+  family?: StructuredComponent;
+  given?: StructuredComponent;
+  additional?: StructuredComponent;
+  prefix?: StructuredComponent;
+  suffix?: StructuredComponent;
+}
+
+/**
+ * vCard ADR (PO Box;Extended;Street;Locality;Region;Postal Code;Country)
+ */
+export interface Address {
+  poBox?: StructuredComponent;
+  extended?: StructuredComponent;
+  street?: StructuredComponent;
+  locality?: StructuredComponent;
+  region?: StructuredComponent;
+  postalCode?: StructuredComponent;
+  country?: StructuredComponent;
+}
+
+/**
+ * vCard ORG (Name;Unit;Unit;...)
+ */
+export interface Organization {
+  name?: string;
+  units?: string[];
+}
+
+/**
+ * Structured value for N, ADR or ORG
+ */
+export type StructuredValue = StructuredName | Address | Organization;
+
+/**
+ * Field value with property parameters
+ */
+export interface ParameterizedValue {
+  value: string | Date | StructuredValue;
+  params?: PropertyParams;
+  /** 'merge' (default) keeps other existing parameters, 'replace' drops them all before writing */
+  paramMode?: 'merge' | 'replace';
+}
+
+/**
+ * Typed date/time value for DATE and DATE-TIME properties
+ * (DTSTART, DTEND, DUE, RECURRENCE-ID, COMPLETED, LAST-MODIFIED, BDAY, ...)
+ */
+export interface DateTimeValue extends ParameterizedValue {
+  /** iCal/ISO date string ('20250130T140000Z', '2025-01-30') or JS Date */
+  value: string | Date;
+  /** Timezone identifier written as TZID parameter (e.g. 'Europe/Berlin') */
+  tzid?: string;
+  /** Write as VALUE=DATE (no time component) */
+  allDay?: boolean;
+}
+
+/**
+ * Value accepted for a single field
+ * Strings are written as-is, except for known date and structured properties where they are parsed
+ */
+export type FieldValue = string | Date | StructuredValue | ParameterizedValue | DateTimeValue;
+
 /**
  * Generic field update map
- * Any iCal property name → any string value
+ * Any iCal property name → any value
+ * An array replaces all instances of the property (one instance per entry),
+ * null removes all instances, undefined leaves the property untouched
  */
 export interface FieldUpdates {
-  [key: string]: string;
+  [key: string]: FieldValue | FieldValue[] | null | undefined;
 }
 
+/**
+ * A single occurrence of a recurring event or todo
+ */
+export interface OccurrenceTarget {
+  /** Original start of the occurrence (RECURRENCE-ID); local times without TZID use the master's zone */
+  recurrenceId: string | Date | DateTimeValue;
+  /**
+   * Edit this and all following occurrences by splitting the series: the master ends before
+   * the occurrence and a new series starts there (updateComponents() only, returned in `created`)
+   */
+  thisAndFuture?: boolean;
+}
+
+/**
+ * Options for VTIMEZONE embedding
+ */
+export interface TimezoneOptions {
+  /** Also remove VTIMEZONE components no property references anymore */
+  removeUnused?: boolean;
+}
+
+/**
+ * Options for createEvent(), createTodo(), createJournal() and createContact()
+ */
+export interface CreateOptions {
+  /** UID to use (default: UID from fields, else a random UUID) */
+  uid?: string;
+  /** PRODID to write (default: '-//tsdav-utils//EN') */
+  prodId?: string;
+  /** Embed a VTIMEZONE for every TZID used (calendars only, default: off) */
+  timezones?: boolean;
+}
+
+/**
+ * Options for createContact()
+ */
+export interface CreateContactOptions extends CreateOptions {
+  /** vCard version (default: '3.0', the most widely supported by CardDAV servers) */
+  version?: '3.0' | '4.0';
+}
+
+/**
+ * Newly created object, ready for tsdav createCalendarObject()/createVCard()
+ */
+export interface CreatedObject {
+  /** Serialized iCalendar/vCard string */
+  data: string;
+  /** Filename derived from the UID (e.g. '<uid>.ics') */
+  filename: string;
+  uid: string;
+}
+
+/**
+ * Structured RRULE (RFC 5545 section 3.3.10)
+ */
+export interface RecurrenceRule {
+  freq: 'SECONDLY' | 'MINUTELY' | 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval?: number;
+  count?: number;
+  /** Last occurrence; local times are converted to UTC using the DTSTART zone */
+  until?: string | Date | DateTimeValue;
+  /** Weekdays with optional ordinal, e.g. ['MO', 'WE'] or ['-1FR'] */
+  byday?: string[];
+  bymonthday?: number[];
+  bymonth?: number[];
+  byyearday?: number[];
+  byweekno?: number[];
+  byhour?: number[];
+  byminute?: number[];
+  bysecond?: number[];
+  bysetpos?: number[];
+  /** Week start day ('MO', 'SU', ...) */
+  wkst?: string;
+}
+
+/**
+ * A concrete occurrence of a (possibly recurring) event
+ */
+export interface Occurrence {
+  /** Original start from the recurrence set (matches RECURRENCE-ID of overrides) */
+  recurrenceId: Date;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  /** True when the occurrence comes from an override component */
+  isOverride: boolean;
+}
+
+/**
+ * Selects components of a VCALENDAR holding several objects
+ * Criteria are combined; overrides (RECURRENCE-ID) are reached through `occurrence`
+ */
+export interface ComponentSelector {
+  /** Component type: 'VEVENT', 'VTODO', 'VJOURNAL' or 'VFREEBUSY' (default: any) */
+  type?: string;
+  /** UID of the component */
+  uid?: string;
+  /** Position among the matching components (default: 0) */
+  index?: number;
+  /** Custom predicate, e.g. `(c) => c.getFirstPropertyValue('summary') === 'Standup'` */
+  match?: (component: ICAL.Component) => boolean;
+  /** Target every matching component instead of a single one (writes only) */
+  all?: boolean;
+}
+
+/**
+ * Reference to a component of a calendar object
+ */
+export interface ComponentRef {
+  /** Component type, e.g. 'VEVENT' */
+  type: string;
+  uid?: string;
+  /** Position among the root's components of the same type */
+  index: number;
+  /** RECURRENCE-ID of an override, as an iCal string */
+  recurrenceId?: string;
+}
+
+/**
+ * Alarm action (RFC 5545 section 3.8.6.1)
+ */
+export type AlarmAction = 'DISPLAY' | 'EMAIL' | 'AUDIO';
+
+/**
+ * Alarm as passed to addAlarm() and updateAlarm()
+ */
+export interface AlarmInput {
+  /**
+   * Relative duration ('-PT15M' = 15 minutes before) or absolute UTC time
+   * ('20250130T134500Z' or a JS Date)
+   */
+  trigger: string | Date;
+  /** Whether a relative trigger counts from the start or the end (default: 'START') */
+  related?: 'START' | 'END';
+  /** Default: 'DISPLAY' */
+  action?: AlarmAction;
+  /** Text shown or sent (default: the SUMMARY of the event or todo) */
+  description?: string;
+  /** Email subject for EMAIL alarms (default: the SUMMARY of the event or todo) */
+  summary?: string;
+  /** Recipients of EMAIL alarms, e.g. ['mailto:jane@example.com'] */
+  attendees?: string[];
+  /** Additional repetitions; requires `duration` */
+  repeat?: number;
+  /** Delay between repetitions, e.g. 'PT5M'; requires `repeat` */
+  duration?: string;
+  /** UID of the alarm (default: a random UUID) */
+  uid?: string;
+}
+
+/**
+ * Alarm as returned by getAlarms()
+ */
+export interface Alarm extends Omit<AlarmInput, 'trigger' | 'action'> {
+  /** Relative duration ('-PT15M') or absolute UTC time ('20250130T134500Z') */
+  trigger: string;
+  action: string;
+  /** Position among the component's alarms */
+  index: number;
+}
+
+/**
+ * Changes for updateAlarm()
+ */
+export interface AlarmChanges extends Omit<Partial<AlarmInput>, 'repeat' | 'duration'> {
+  /** null removes REPEAT and DURATION */
+  repeat?: number | null;
+  /** null removes REPEAT and DURATION */
+  duration?: string | null;
+}
+
+/**
+ * Address of an alarm: its index, or its UID / X-WR-ALARMUID
+ */
+export type AlarmRef = number | string;
+
+/**
+ * Options selecting which component of a calendar object is read or written
+ */
+export interface TargetOptions {
+  /**
+   * Component of a multi-component VCALENDAR
+   * (default: first VEVENT, else first VTODO, VJOURNAL or VFREEBUSY)
+   */
+  component?: ComponentSelector;
+  /**
+   * Instance of a recurring series (default: 'master')
+   * Targeting an occurrence without an override creates one from the master
+   */
+  occurrence?: 'master' | OccurrenceTarget;
+}
+
+/**
+ * Configuration for change-tracking metadata
+ */
+export interface ChangeTrackingOptions {
+  /**
+   * Properties whose change increments SEQUENCE
+   * (default: DTSTART, DTEND, DURATION, DUE, RRULE, RDATE, EXDATE, STATUS)
+   */
+  significantFields?: string[];
+  /** Time written to DTSTAMP, LAST-MODIFIED and REV (default: now) */
+  now?: Date;
+}
+
+/**
+ * Options shared by updateFields(), applyPropertyOperations() and the other update functions
+ */
+export interface UpdateOptions extends TargetOptions {
+  /**
+   * Maintain SEQUENCE, DTSTAMP and LAST-MODIFIED (calendars) or REV (vCards)
+   * when the update changes something (default: off)
+   */
+  tracking?: boolean | ChangeTrackingOptions;
+  /**
+   * Embed a VTIMEZONE for every TZID the calendar references after the update,
+   * optionally dropping unused ones (default: off)
+   */
+  timezones?: boolean | TimezoneOptions;
+}
+
+/**
+ * Naming rules for validateFields() and the `validate` option
+ */
+export interface ValidationRules {
+  /** Accept any X-* property name (default: true) */
+  xProperties?: boolean;
+  /** Further non-standard property names to accept, e.g. ['X-WR-CALNAME'] with `xProperties: false` */
+  allowedProperties?: string[];
+}
+
+/**
+ * Validation of the written fields in updateFields()
+ */
+export interface ValidationOptions extends ValidationRules {
+  /** 'warn' reports diagnostics in updateComponents()' result, 'strict' throws a ValidationError */
+  mode: 'warn' | 'strict';
+}
+
+/**
+ * Options for updateFields() and updateComponents()
+ */
+export interface FieldUpdateOptions extends UpdateOptions {
+  /**
+   * Check the written properties against RFC 5545/6350: names, enumerated values,
+   * value types and cardinality (default: off, any property and value is written as given)
+   */
+  validate?: 'warn' | 'strict' | ValidationOptions;
+  /**
+   * Receives the problems found with `validate: 'warn'` (called only when there are any);
+   * updateFields() returns just the data, so this is how it reports them
+   */
+  onDiagnostics?: (diagnostics: ValidationDiagnostic[]) => void;
+}
+
+/**
+ * A problem found by validation
+ */
+export interface ValidationDiagnostic {
+  /**
+   * 'unknown-property': not defined by the RFCs and not an allowed X- name;
+   * 'wrong-component': defined, but not for this component (e.g. DUE in a VEVENT);
+   * 'invalid-value': not an allowed value or not of the property's value type;
+   * 'cardinality': repeated single-instance property, or DTEND/DUE together with DURATION
+   */
+  code: 'unknown-property' | 'wrong-component' | 'invalid-value' | 'cardinality';
+  /** Uppercase component type (VEVENT, VALARM, VCARD, ...) */
+  component: string;
+  /** Uppercase property name */
+  property: string;
+  message: string;
+  /** The rejected value, for 'invalid-value' */
+  value?: string;
+  /** Allowed values, a suggested name or value, or the conflicting properties */
+  expected?: string[];
+}
+
+/**
+ * One difference found by diffFields()
+ *
+ * Without `property`, the whole component (or subcomponent) was added or removed.
+ */
+export interface FieldChange {
+  kind: 'added' | 'removed' | 'changed';
+  /** Top-level component (VEVENT, VTODO, VTIMEZONE, VCARD, or VCALENDAR for calendar properties) */
+  component: ComponentRef;
+  /** Nested component such as a VALARM */
+  subcomponent?: ComponentRef;
+  /** Uppercase property name */
+  property?: string;
+  /** Instance of a repeated property (position in `after`, or in `before` for removals) */
+  index?: number;
+  /** Previous value, as getFields() returns it with `params: true` */
+  before?: FieldValue;
+  /** New value, as getFields() returns it with `params: true` */
+  after?: FieldValue;
+}
+
+/**
+ * Options for diffFields()
+ */
+export interface DiffOptions {
+  /** Property names to leave out, e.g. ['DTSTAMP', 'LAST-MODIFIED'] */
+  ignore?: string[];
+}
+
+/**
+ * Side of a three-way merge
+ */
+export type MergeSide = 'local' | 'remote';
+
+/**
+ * A property (or component) both sides changed differently, as reported by mergeFields()
+ *
+ * Without `property`, one side removed the component the other side changed.
+ */
+export interface MergeConflict {
+  component: ComponentRef;
+  /** Nested component such as a VALARM */
+  subcomponent?: ComponentRef;
+  /** Uppercase property name */
+  property?: string;
+  /** Common ancestor's value (absent when both sides added the property) */
+  base?: FieldValue;
+  /** Local value (absent when removed locally) */
+  local?: FieldValue;
+  /** Remote value (absent when removed remotely) */
+  remote?: FieldValue;
+  /** Side that removed the property or component, if any */
+  removedBy?: MergeSide;
+  /** Side whose version was kept */
+  resolution: MergeSide;
+}
+
+/**
+ * Options for mergeFields()
+ */
+export interface MergeOptions {
+  /**
+   * How to resolve conflicts: always keep one side, or decide per conflict (default: 'local')
+   */
+  resolve?: MergeSide | ((conflict: Omit<MergeConflict, 'resolution'>) => MergeSide);
+}
+
+/**
+ * Result of mergeFields()
+ */
+export interface MergeResult {
+  /** Merged iCal/vCard string */
+  data: string;
+  /** Conflicts found, with the resolution applied */
+  conflicts: MergeConflict[];
+  /** URL of the remote object, when it was passed as a tsdav object */
+  url?: string;
+  /** ETag of the remote object, to use as If-Match when writing the merged data */
+  etag?: string;
+}
+
+/**
+ * Result of updateComponents()
+ */
+export interface UpdateResult<T extends string | JCalComponent = string> {
+  /** Updated iCal/vCard string (jCal/jCard when the input was jCal/jCard) */
+  data: T;
+  /** Components whose content changed (empty when the update was a no-op) */
+  changed: ComponentRef[];
+  /** Problems in the written fields, with `validate: 'warn'` */
+  diagnostics?: ValidationDiagnostic[];
+  /** New calendar objects to create, for this-and-future edits that split a series */
+  created?: CreatedObject[];
+}
+
+/**
+ * Options for setAllDay()
+ */
+export interface AllDayOptions extends UpdateOptions {
+  /**
+   * Zone of the timed event ('UTC' for UTC times, default: floating local time);
+   * when converting to all-day, the zone whose calendar date UTC times fall on (default: UTC)
+   */
+  tzid?: string;
+  /** Start time of the timed event, 'HH:MM' (default: '09:00') */
+  time?: string;
+  /** Length of the timed event (default: 'PT1H'); multi-day events keep their extra days */
+  duration?: string;
+}
+
+/**
+ * iTIP method (RFC 5546 section 1.4)
+ */
+export type ItipMethod = 'REQUEST' | 'REPLY' | 'CANCEL' | 'COUNTER';
+
+/**
+ * Participation status of an attendee (RFC 5545 section 3.2.12)
+ */
+export type ParticipationStatus = 'NEEDS-ACTION' | 'ACCEPTED' | 'DECLINED' | 'TENTATIVE' | 'DELEGATED';
+
+/**
+ * Options shared by the iTIP message helpers
+ */
+export interface ItipOptions extends TargetOptions {
+  /** Time written to DTSTAMP (default: now) */
+  now?: Date;
+  /** Free-text COMMENT added to the message */
+  comment?: string;
+}
+
+/**
+ * Options for createCancel()
+ */
+export interface CancelOptions extends ItipOptions {
+  /** Attendees removed from the event (default: cancel the event for everyone) */
+  attendees?: string[];
+}
+
+/**
+ * Options for createCounter()
+ */
+export interface CounterOptions extends ItipOptions {
+  /** Attendee proposing the change; other attendees are left out of the message */
+  attendee?: string;
+}
+
+/**
+ * iTIP scheduling message
+ */
+export interface ItipMessage {
+  method: ItipMethod;
+  /** VCALENDAR with METHOD, to send by email (iMIP) or to a scheduling outbox */
+  data: string;
+  /** Calendar user addresses the message is for, e.g. ['mailto:jane@example.com'] */
+  recipients: string[];
+  /** The stored object with the same change applied (without METHOD), for tsdav.updateCalendarObject() */
+  updated: string;
+}
+
+/**
+ * Condition on one property for updateMany()'s `where`; all given checks must hold
+ */
+export interface FieldCondition {
+  /** A value equals the text (case-insensitive) */
+  equals?: string;
+  /**
+   * The property has these values (whole values, case-insensitive), e.g. CATEGORIES membership:
+   * `contains: 'Project-X'` does not match `Project-XYZ`; an array requires all of them
+   */
+  contains?: string | string[];
+  /** A value contains the text as a substring (case-insensitive), e.g. a word in SUMMARY */
+  substring?: string;
+  /** The property is present (true) or absent (false) */
+  exists?: boolean;
+  /** A date value lies in [start, end); either bound may be omitted */
+  within?: { start?: Date | string; end?: Date | string };
+}
+
+/**
+ * Test for one property: a text to equal, a condition, or a function of all its values
+ */
+export type FieldPredicate = string | FieldCondition | ((values: FieldValue[]) => boolean);
+
+/**
+ * Filter for updateMany(): predicates per property name (all must match), or a function
+ */
+export type WhereClause<T = CalendarObjectInput> =
+  | Record<string, FieldPredicate>
+  | ((object: T, current: FieldUpdates) => boolean);
+
+/**
+ * Options for updateMany()
+ */
+export interface BatchOptions<T = CalendarObjectInput> extends FieldUpdateOptions {
+  /** Only update objects matching this filter; the others are skipped */
+  where?: WhereClause<T>;
+}
+
+/**
+ * Outcome for one object of updateMany()
+ */
+export interface BatchResult<T = CalendarObjectInput> {
+  object: T;
+  /** Position in the input array */
+  index: number;
+  /** 'unchanged' when the fields already had the given values; 'skipped' when filtered out */
+  status: 'updated' | 'unchanged' | 'skipped' | 'failed';
+  /** Updated data, for 'updated' and 'unchanged' */
+  data?: string;
+  /** Problems in the written fields, with `validate: 'warn'` */
+  diagnostics?: ValidationDiagnostic[];
+  /** New calendar objects to create, for this-and-future edits that split a series */
+  created?: CreatedObject[];
+  /** Why the object could not be updated, for 'failed' */
+  error?: Error;
+}
+
+/**
+ * Stored object as tsdav returns it (DAVCalendarObject or DAVVCard)
+ */
+export interface DAVObject {
+  url: string;
+  etag?: string;
+  data?: any;
+}
+
+/**
+ * HTTP response returned by tsdav's write functions (a fetch Response)
+ */
+export interface DAVResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: { get(name: string): string | null };
+}
+
+/**
+ * The parts of a tsdav client (DAVClient or createDAVClient()) that updateObject() uses
+ */
+export interface DAVWriteClient {
+  updateCalendarObject(params: { calendarObject: DAVObject }): Promise<DAVResponse>;
+  updateVCard(params: { vCard: DAVObject }): Promise<DAVResponse>;
+  fetchCalendarObjects(params: {
+    calendar: { url: string };
+    objectUrls?: string[];
+    urlFilter?: (url: string) => boolean;
+  }): Promise<DAVObject[]>;
+  fetchVCards(params: {
+    addressBook: { url: string };
+    objectUrls?: string[];
+    urlFilter?: (url: string) => boolean;
+  }): Promise<DAVObject[]>;
+}
+
+/**
+ * Options for updateObject()
+ */
+export interface WriteOptions extends FieldUpdateOptions {
+  /** How often to refetch and retry after 412 Precondition Failed (default: 3) */
+  retries?: number;
+  /** Load the current version of the object (default: a multiget REPORT on its collection) */
+  refetch?: (calendarObject: DAVObject) => Promise<DAVObject | undefined>;
+}
+
+/**
+ * Result of updateObject()
+ */
+export interface WriteResult {
+  url: string;
+  /** New ETag, when the server returned one */
+  etag?: string;
+  /** Data that was written */
+  data: string;
+  /** Number of PUT requests made */
+  attempts: number;
+}
+
+/**
+ * Options for getFields()
+ */
+export interface GetFieldsOptions extends TargetOptions {
+  /** Return every instance of each property as an array (default: first instance only) */
+  all?: boolean;
+  /** Return values as `{ value, params }` when the property has parameters */
+  params?: boolean;
+  /** Return dates as `{ value: Date, tzid?, allDay? }` instead of iCal strings */
+  typedDates?: boolean;
+}
+
+/**
+ * jCal/jCard property (RFC 7265, RFC 7095): [name, params, type, ...values]
+ */
+export type JCalProperty = [string, Record<string, string | string[]>, string, ...any[]];
+
+/**
+ * jCal/jCard component: [name, properties, subcomponents]
+ * A vCard has no subcomponents, so its third entry is always empty.
+ */
+export type JCalComponent = [string, JCalProperty[], JCalComponent[]];
+
 /**
  * Calendar object input (flexible)
- * Accepts tsdav output format or raw iCal string
+ * Accepts tsdav output format, raw iCal string or jCal/jCard
  */
-export type CalendarObjectInput = string | {
+export type CalendarObjectInput = string | JCalComponent | {
   data: string;
   [key: string]: any; // Allow other tsdav properties
 };
+
+/**
+ * Add a new property instance
+ * For multi-value properties (CATEGORIES) the value is added to the existing list
+ */
+export interface AppendOperation {
+  op: 'append';
+  name: string;
+  value: FieldValue;
+}
+
+/**
+ * Remove property instances
+ * Matches by `value` (case-insensitive) or `index`; without either, removes all instances
+ */
+export interface RemoveOperation {
+  op: 'remove';
+  name: string;
+  value?: string;
+  index?: number;
+}
+
+/**
+ * Replace all instances of a property with the given values
+ */
+export interface ReplaceOperation {
+  op: 'replace';
+  name: string;
+  values: FieldValue[];
+}
+
+/**
+ * Overwrite the property instance at `index` (0-based)
+ */
+export interface SetOperation {
+  op: 'set';
+  name: string;
+  index: number;
+  value: FieldValue;
+}
+
+/**
+ * Operation on a repeated property (ATTENDEE, CATEGORIES, EMAIL, TEL, ...)
+ */
+export type PropertyOperation =
+  | AppendOperation
+  | RemoveOperation
+  | ReplaceOperation
+  | SetOperation;
+
+/**
+ * Component types with built-in field aliases
+ */
+export type AliasComponentType = 'VEVENT' | 'VTODO' | 'VJOURNAL' | 'VCARD';
+
+/**
+ * JSON Schema fragment describing an input field
+ */
+export type JSONSchema = Record<string, unknown>;
+
+/**
+ * Friendly input key mapped to a property, e.g. `where` → LOCATION
+ */
+export interface FieldAlias {
+  /** Property to write */
+  property: string;
+  /**
+   * Convert the input value into a field value (default: strings as-is, numbers and
+   * booleans as text, arrays as one property instance per entry)
+   */
+  convert?: (value: unknown) => FieldValue | FieldValue[] | null | undefined;
+  /** Schema of the accepted input, for getAliasSchema() (default: a string) */
+  schema?: JSONSchema;
+  /** Human-readable description, included in the schema */
+  description?: string;
+}
+
+/**
+ * Aliases by input key: an alias, a property name, or null to drop a built-in alias
+ */
+export type AliasMap = Record<string, FieldAlias | string | null>;
+
+/**
+ * Options for mapFields() and getAliasSchema()
+ */
+export interface AliasOptions {
+  /** Component type the input is for (default: VEVENT) */
+  type?: AliasComponentType;
+  /** Aliases added to (or replacing) the built-in ones */
+  aliases?: AliasMap;
+}
+
+/**
+ * Options for updateAliasedFields()
+ */
+export interface AliasUpdateOptions extends FieldUpdateOptions {
+  /** Aliases added to (or replacing) the built-in ones */
+  aliases?: AliasMap;
+}
+
+/**
+ * Something convertVCard() could not carry over exactly
+ */
+export interface VCardConversionIssue {
+  /**
+   * 'dropped': no equivalent in the target version;
+   * 'renamed': kept under an X- name (e.g. ANNIVERSARY → X-ANNIVERSARY);
+   * 'changed': converted with a loss of detail (e.g. GENDER identity, PREF order);
+   * 'derived': a required property was missing and filled in (N or FN)
+   */
+  kind: 'dropped' | 'renamed' | 'changed' | 'derived';
+  /** Uppercase property name in the source card */
+  property: string;
+  /** Affected parameter, if the issue concerns one */
+  parameter?: string;
+  message: string;
+  /** The source value, as text */
+  value?: string;
+}
+
+/**
+ * Result of convertVCard()
+ */
+export interface VCardConversion<T extends string | JCalComponent = string> {
+  /** Converted vCard (jCard when the input was jCard) */
+  data: T;
+  /** Everything that was not converted losslessly; empty for a clean conversion */
+  issues: VCardConversionIssue[];
+}
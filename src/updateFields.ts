@@ -1,77 +1,171 @@
-import ICAL from 'ical.js';
-import type { CalendarObjectInput, FieldUpdates } from './types';
+import type ICAL from 'ical.js';
+import type {
+  CalendarObjectInput,
+  CreatedObject,
+  FieldUpdateOptions,
+  FieldUpdates,
+  JCalComponent,
+  UpdateResult,
+  ValidationDiagnostic,
+} from './types';
+import { getTargetComponents, parseCalendarObject, toComponentRef } from './component';
+import { seriesSplitError, type SeriesSplit } from './occurrences';
+import { toFilename } from './create';
+import { applyFieldUpdates } from './properties';
+import { recordChanges, trackChanges } from './tracking';
+import { applyTimezoneOption } from './timezones';
+import { toValidationOptions, validateComponent } from './validation';
+import { ValidationError } from './errors';
 
 /**
  * Update arbitrary fields on a calendar/todo/vcard object
  *
  * This function uses a field-agnostic approach - it accepts any iCal property name
  * (standard or custom) and updates it without validation or semantic understanding.
+ * Pass `validate: 'warn'` or `'strict'` to check the written fields against RFC 5545/6350;
+ * warnings are passed to `onDiagnostics` (updateComponents() also returns them).
  *
- * @param calendarObject - iCal string or tsdav DAVCalendarObject with 'data' field
+ * Date properties (DTSTART, DTEND, DUE, ...) accept iCal strings, JS Dates or
+ * `{ value, tzid, allDay }` descriptors and are written as proper DATE/DATE-TIME values.
+ * Array values replace all instances of a property, so getFields() output can be written back.
+ * `null` removes all instances of a property; `undefined` values are skipped.
+ *
+ * @param calendarObject - iCal string, jCal/jCard array or tsdav DAVCalendarObject with 'data' field
  * @param fields - Key-value pairs of iCal properties to update (e.g., {'SUMMARY': 'New Title'})
- * @returns Updated iCal string ready for tsdav.updateCalendarObject()
+ * @param options - Component of a multi-component VCALENDAR, occurrence of a recurring
+ *                  series (default: master), change tracking (SEQUENCE, DTSTAMP, LAST-MODIFIED, REV),
+ *                  VTIMEZONE embedding and validation
+ * @returns Updated iCal string ready for tsdav.updateCalendarObject() (jCal/jCard for jCal/jCard input)
+ * @throws ValidationError with `validate: 'strict'` when a written field breaks the RFC rules
+ * @throws InvalidInputError for `thisAndFuture` occurrences, which create a second object (use updateComponents())
  *
  * @example
  * ```typescript
  * const updated = updateFields(event.data, {
  *   'SUMMARY': 'Team Meeting',
  *   'LOCATION': 'Conference Room A',
- *   'X-CUSTOM-FIELD': 'custom value'
+ *   'X-CUSTOM-FIELD': 'custom value',
+ *   'DTSTART': { value: '20250130T140000', tzid: 'Europe/Berlin' },
+ *   'X-OLD-FIELD': null
  * });
  * ```
  */
+export function updateFields(calendarObject: JCalComponent, fields: FieldUpdates, options?: FieldUpdateOptions): JCalComponent;
+export function updateFields(calendarObject: CalendarObjectInput, fields: FieldUpdates, options?: FieldUpdateOptions): string;
 export function updateFields(
   calendarObject: CalendarObjectInput,
-  fields: FieldUpdates
-): string {
-  // 1. Extract iCal string from input
-  const icalString = typeof calendarObject === 'string'
-    ? calendarObject
-    : calendarObject.data;
-
-  if (!icalString) {
-    throw new Error('Invalid input: calendarObject must be a string or object with "data" field');
+  fields: FieldUpdates,
+  options: FieldUpdateOptions = {}
+): string | JCalComponent {
+  const { data, created } = updateComponents(calendarObject, fields, options);
+  if (created) {
+    throw seriesSplitError();
   }
+  return data;
+}
 
-  // 2. Parse iCal string to Component
-  let jcalData: any;
-  let component: any;
+/**
+ * Update fields and report which components changed
+ *
+ * Same as updateFields(), but returns the components whose content changed.
+ * Mostly useful with `component: { all: true }` on calendars holding several objects,
+ * with `validate: 'warn'` to get the diagnostics, and for this-and-future occurrence edits,
+ * which split the series into a new calendar object returned in `created`.
+ *
+ * @param calendarObject - iCal string, jCal/jCard array or tsdav DAVCalendarObject with 'data' field
+ * @param fields - Key-value pairs of iCal properties to update
+ * @param options - Components to update, occurrence, change tracking and validation
+ * @returns `{ data, changed }` with the updated string and references to changed components,
+ *          plus `diagnostics` when validating and `created` when a series was split
+ *
+ * @example
+ * ```typescript
+ * const { data, changed } = updateComponents(calendar, { 'STATUS': 'CANCELLED' }, {
+ *   component: { type: 'VEVENT', all: true },
+ * });
+ * // changed: [{ type: 'VEVENT', uid: 'a@example.com', index: 0 }, ...]
+ * ```
+ */
+export function updateComponents(
+  calendarObject: JCalComponent,
+  fields: FieldUpdates,
+  options?: FieldUpdateOptions
+): UpdateResult<JCalComponent>;
+export function updateComponents(
+  calendarObject: CalendarObjectInput,
+  fields: FieldUpdates,
+  options?: FieldUpdateOptions
+): UpdateResult;
+export function updateComponents(
+  calendarObject: CalendarObjectInput,
+  fields: FieldUpdates,
+  options: FieldUpdateOptions = {}
+): UpdateResult<string | JCalComponent> {
+  // 1. Parse input to Component
+  const component = parseCalendarObject(calendarObject);
+  const before = new Map(component.getAllSubcomponents().map((sub) => [sub, sub.toString()]));
 
-  try {
-    jcalData = ICAL.parse(icalString);
-    component = new ICAL.Component(jcalData);
-  } catch (error: any) {
-    throw new Error(`Failed to parse iCal data: ${error.message}`);
-  }
+  // 2. Find the actual components to update (VEVENT/VTODO/VJOURNAL/VFREEBUSY or VCARD)
+  //    Selecting an occurrence may add an override component to the VCALENDAR,
+  //    or split the series into a new VCALENDAR (this and future occurrences)
+  const splits: SeriesSplit[] = [];
+  const targets = getTargetComponents(component, options, splits);
+  const original = targets.map((target) => before.get(target) ?? (target === component ? target.toString() : ''));
 
-  // 3. Find the actual component to update
-  //    VEVENT and VTODO are wrapped in VCALENDAR
-  //    VCARD is standalone
-  //    Note: component.name returns lowercase
-  let actualComponent;
+  // 3. Update properties using field-agnostic loop
+  //    Date values are converted to ICAL.Time so they serialize as DATE/DATE-TIME
+  //    With tracking enabled, SEQUENCE/DTSTAMP/LAST-MODIFIED or REV follow the changes
+  for (const target of targets) {
+    trackChanges(target, Object.keys(fields), options, () => {
+      applyFieldUpdates(target, fields);
+    });
+  }
 
-  if (component.name === 'vcalendar') {
-    // Try to find VEVENT, VTODO, or other subcomponents
-    actualComponent = component.getFirstSubcomponent('vevent') ||
-                      component.getFirstSubcomponent('vtodo') ||
-                      component.getFirstSubcomponent('vjournal');
+  // A split ended the master's RRULE
+  splits.forEach(({ master }) => recordChanges(master, ['RRULE'], options));
 
-    if (!actualComponent) {
-      throw new Error('No VEVENT, VTODO, or VJOURNAL found in VCALENDAR');
-    }
-  } else {
-    // Standalone component (VCARD)
-    actualComponent = component;
-  }
+  // 4. Embed VTIMEZONEs for TZIDs the update introduced (opt-in)
+  applyTimezoneOption(component, options);
+  splits.forEach(({ calendar }) => applyTimezoneOption(calendar, options));
 
-  // 4. Update properties using field-agnostic loop
-  //    updatePropertyWithValue() handles both updates and creates if missing
-  //    ical.js expects lowercase property names
-  for (const [key, value] of Object.entries(fields)) {
-    actualComponent.updatePropertyWithValue(key.toLowerCase(), value);
+  // 5. Check the written fields against RFC 5545/6350 (opt-in)
+  const diagnostics = options.validate ? validateTargets(targets, fields, options.validate) : undefined;
+  if (diagnostics?.length) {
+    options.onDiagnostics?.(diagnostics);
   }
 
-  // 5. Serialize back to iCal string
+  // 6. Serialize back to iCal string (or jCal, matching the input)
   //    All unmodified properties are automatically preserved by ical.js
-  return component.toString();
+  return {
+    data: Array.isArray(calendarObject) ? JSON.parse(JSON.stringify(component.toJSON())) : component.toString(),
+    changed: [
+      ...splits.map(({ master }) => toComponentRef(component, master)),
+      ...targets
+        .filter((target, index) => target.toString() !== original[index])
+        .map((target) => toComponentRef(target.parent ?? component, target)),
+    ],
+    ...(diagnostics ? { diagnostics } : {}),
+    ...(splits.length > 0 ? { created: splits.map(({ calendar }) => toCreatedObject(calendar)) } : {}),
+  };
+}
+
+function toCreatedObject(calendar: ICAL.Component): CreatedObject {
+  const series = calendar.getAllSubcomponents().find((component) => component.name !== 'vtimezone')!;
+  const uid = String(series.getFirstPropertyValue('uid'));
+  return { data: calendar.toString(), filename: toFilename(uid, 'ics'), uid };
+}
+
+function validateTargets(
+  targets: ICAL.Component[],
+  fields: FieldUpdates,
+  validate: NonNullable<FieldUpdateOptions['validate']>
+): ValidationDiagnostic[] {
+  const validation = toValidationOptions(validate);
+  const written = Object.keys(fields).filter((name) => fields[name] !== null && fields[name] !== undefined);
+  const diagnostics = targets.flatMap((target) => validateComponent(target, validation, written));
+
+  if (validation.mode === 'strict' && diagnostics.length > 0) {
+    throw new ValidationError(diagnostics);
+  }
+  return diagnostics;
 }
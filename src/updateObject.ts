@@ -0,0 +1,110 @@
+import type { DAVObject, DAVWriteClient, FieldUpdates, WriteOptions, WriteResult } from './types';
+import { parseCalendarObject } from './component';
+import { updateFields } from './updateFields';
+import { ConflictError, InvalidInputError, RequestError, TsdavUtilsError } from './errors';
+
+const DEFAULT_RETRIES = 3;
+
+/**
+ * Update fields and write the object back with an ETag precondition, retrying on conflicts
+ *
+ * The update is applied with updateFields() and sent with tsdav's updateCalendarObject()
+ * or updateVCard(), which set If-Match to the object's etag. When the server answers
+ * 412 Precondition Failed, the current version is fetched, the same field updates are
+ * applied to it and the write is retried, up to `options.retries` times.
+ *
+ * @param client - tsdav client (DAVClient or the object createDAVClient() returns)
+ * @param calendarObject - tsdav DAVCalendarObject or DAVVCard with url, etag and data
+ * @param fields - Key-value pairs of properties to update, as for updateFields()
+ * @param options - Number of retries, custom refetch, plus the updateFields() options
+ * @returns URL, new ETag (if the server sent one), written data and number of attempts
+ * @throws ConflictError when the object kept changing; RequestError for other failed requests,
+ *         network errors and refetched objects without an etag
+ *
+ * @example
+ * ```typescript
+ * const { etag } = await updateObject(client, event, { 'SUMMARY': 'Team Sync' }, { tracking: true });
+ * ```
+ */
+export async function updateObject(
+  client: DAVWriteClient,
+  calendarObject: DAVObject,
+  fields: FieldUpdates,
+  options: WriteOptions = {}
+): Promise<WriteResult> {
+  const { retries = DEFAULT_RETRIES, refetch, ...updateOptions } = options;
+
+  if (!calendarObject.url) {
+    throw new InvalidInputError('Invalid input: calendarObject must have a "url" field');
+  }
+  if (!calendarObject.etag) {
+    throw new InvalidInputError(`Cannot update ${calendarObject.url} safely without an etag: fetch the object first`);
+  }
+
+  const isVCard = parseCalendarObject(calendarObject as { data: string }).name === 'vcard';
+  const load = refetch ?? ((object: DAVObject) => fetchObject(client, object, isVCard));
+  let current = calendarObject;
+
+  for (let attempt = 1; ; attempt++) {
+    const data = updateFields(current as { data: string }, fields, updateOptions);
+    const written = { url: current.url, etag: current.etag, data };
+    const response = await send(current.url, 'update', () => isVCard
+      ? client.updateVCard({ vCard: written })
+      : client.updateCalendarObject({ calendarObject: written }));
+
+    if (response.ok) {
+      const result: WriteResult = { url: current.url, data, attempts: attempt };
+      const etag = response.headers.get('etag');
+      if (etag) {
+        result.etag = etag;
+      }
+      return result;
+    }
+
+    if (response.status !== 412) {
+      throw new RequestError(`Failed to update ${current.url}: ${response.status} ${response.statusText}`, current.url, response.status);
+    }
+    if (attempt > retries) {
+      throw new ConflictError(current.url, current.etag, attempt);
+    }
+
+    const latest = await send(current.url, 'fetch', () => load(current));
+    if (!latest?.data) {
+      throw new RequestError(`Cannot update ${current.url}: object no longer exists on the server`, current.url);
+    }
+    // Without an etag the retry would be an unconditional PUT that can overwrite the next edit
+    if (!latest.etag) {
+      throw new RequestError(`Cannot update ${current.url} safely: the server returned the object without an etag`, current.url, 412);
+    }
+    current = { ...latest, url: latest.url || current.url };
+  }
+}
+
+/**
+ * Run a client request, turning tsdav and network failures into RequestError
+ */
+async function send<T>(url: string, action: 'fetch' | 'update', request: () => Promise<T>): Promise<T> {
+  try {
+    return await request();
+  } catch (error) {
+    if (error instanceof TsdavUtilsError) {
+      throw error;
+    }
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new RequestError(`Failed to ${action} ${url}: ${reason}`, url);
+  }
+}
+
+/**
+ * Fetch the current version of an object with a multiget REPORT on its collection
+ */
+async function fetchObject(client: DAVWriteClient, object: DAVObject, isVCard: boolean): Promise<DAVObject | undefined> {
+  const collection = { url: object.url.slice(0, object.url.lastIndexOf('/') + 1) };
+  const params = { objectUrls: [object.url], urlFilter: () => true };
+
+  const [latest] = isVCard
+    ? await client.fetchVCards({ addressBook: collection, ...params })
+    : await client.fetchCalendarObjects({ calendar: collection, ...params });
+
+  return latest;
+}
@@ -0,0 +1,341 @@
+import ICAL from 'ical.js';
+import type {
+  CalendarObjectInput,
+  TargetOptions,
+  ValidationDiagnostic,
+  ValidationOptions,
+  ValidationRules,
+} from './types';
+import { getTargetComponents, parseCalendarObject } from './component';
+
+/**
+ * Properties per component (RFC 5545, RFC 7986, RFC 9074 for VALARM)
+ * `once` properties must not occur more than once, `many` may repeat.
+ */
+const ICALENDAR: Record<string, { once: string[]; many: string[] }> = {
+  vcalendar: {
+    once: ['PRODID', 'VERSION', 'CALSCALE', 'METHOD', 'UID', 'LAST-MODIFIED', 'URL', 'REFRESH-INTERVAL', 'SOURCE', 'COLOR'],
+    many: ['NAME', 'DESCRIPTION', 'CATEGORIES', 'IMAGE'],
+  },
+  vevent: {
+    once: [
+      'DTSTAMP', 'UID', 'DTSTART', 'CLASS', 'CREATED', 'DESCRIPTION', 'GEO', 'LAST-MODIFIED', 'LOCATION',
+      'ORGANIZER', 'PRIORITY', 'SEQUENCE', 'STATUS', 'SUMMARY', 'TRANSP', 'URL', 'RECURRENCE-ID',
+      'DTEND', 'DURATION', 'COLOR',
+    ],
+    many: [
+      'RRULE', 'ATTACH', 'ATTENDEE', 'CATEGORIES', 'COMMENT', 'CONTACT', 'EXDATE', 'REQUEST-STATUS',
+      'RELATED-TO', 'RESOURCES', 'RDATE', 'CONFERENCE', 'IMAGE',
+    ],
+  },
+  vtodo: {
+    once: [
+      'DTSTAMP', 'UID', 'CLASS', 'COMPLETED', 'CREATED', 'DESCRIPTION', 'DTSTART', 'GEO', 'LAST-MODIFIED',
+      'LOCATION', 'ORGANIZER', 'PERCENT-COMPLETE', 'PRIORITY', 'RECURRENCE-ID', 'SEQUENCE', 'STATUS',
+      'SUMMARY', 'URL', 'DUE', 'DURATION', 'COLOR',
+    ],
+    many: [
+      'RRULE', 'ATTACH', 'ATTENDEE', 'CATEGORIES', 'COMMENT', 'CONTACT', 'EXDATE', 'REQUEST-STATUS',
+      'RELATED-TO', 'RESOURCES', 'RDATE', 'CONFERENCE', 'IMAGE',
+    ],
+  },
+  vjournal: {
+    once: [
+      'DTSTAMP', 'UID', 'CLASS', 'CREATED', 'DTSTART', 'LAST-MODIFIED', 'ORGANIZER', 'RECURRENCE-ID',
+      'SEQUENCE', 'STATUS', 'SUMMARY', 'URL', 'COLOR',
+    ],
+    many: [
+      'RRULE', 'ATTACH', 'ATTENDEE', 'CATEGORIES', 'COMMENT', 'CONTACT', 'DESCRIPTION', 'EXDATE',
+      'RELATED-TO', 'RDATE', 'REQUEST-STATUS', 'IMAGE',
+    ],
+  },
+  vfreebusy: {
+    once: ['DTSTAMP', 'UID', 'CONTACT', 'DTSTART', 'DTEND', 'ORGANIZER', 'URL'],
+    many: ['ATTENDEE', 'COMMENT', 'FREEBUSY', 'REQUEST-STATUS'],
+  },
+  valarm: {
+    once: ['ACTION', 'TRIGGER', 'DURATION', 'REPEAT', 'DESCRIPTION', 'SUMMARY', 'UID', 'ACKNOWLEDGED', 'PROXIMITY'],
+    many: ['ATTENDEE', 'ATTACH', 'RELATED-TO'],
+  },
+  vtimezone: {
+    once: ['TZID', 'LAST-MODIFIED', 'TZURL'],
+    many: [],
+  },
+};
+
+/**
+ * vCard properties (RFC 6350, RFC 2426 for 3.0, RFC 6474, RFC 6715)
+ */
+const VCARD = {
+  once: ['VERSION', 'N', 'BDAY', 'ANNIVERSARY', 'GENDER', 'PRODID', 'REV', 'UID', 'KIND', 'SORT-STRING', 'CLASS', 'BIRTHPLACE', 'DEATHPLACE', 'DEATHDATE'],
+  many: [
+    'SOURCE', 'XML', 'FN', 'NICKNAME', 'PHOTO', 'ADR', 'TEL', 'EMAIL', 'IMPP', 'LANG', 'TZ', 'GEO',
+    'TITLE', 'ROLE', 'LOGO', 'ORG', 'MEMBER', 'RELATED', 'CATEGORIES', 'NOTE', 'SOUND', 'CLIENTPIDMAP',
+    'URL', 'KEY', 'FBURL', 'CALADRURI', 'CALURI', 'NAME', 'MAILER', 'LABEL', 'AGENT', 'PROFILE',
+    'EXPERTISE', 'HOBBY', 'INTEREST', 'ORG-DIRECTORY',
+  ],
+};
+
+/**
+ * Enumerated values; X- values are accepted where the RFC allows extensions
+ */
+const ENUMS: Record<string, { values: string[] | Record<string, string[]>; extensible?: boolean }> = {
+  'STATUS': {
+    values: {
+      vevent: ['TENTATIVE', 'CONFIRMED', 'CANCELLED'],
+      vtodo: ['NEEDS-ACTION', 'COMPLETED', 'IN-PROCESS', 'CANCELLED'],
+      vjournal: ['DRAFT', 'FINAL', 'CANCELLED'],
+    },
+  },
+  'CLASS': { values: ['PUBLIC', 'PRIVATE', 'CONFIDENTIAL'], extensible: true },
+  'TRANSP': { values: ['OPAQUE', 'TRANSPARENT'] },
+  'ACTION': { values: ['AUDIO', 'DISPLAY', 'EMAIL'], extensible: true },
+  'CALSCALE': { values: ['GREGORIAN'] },
+  'KIND': { values: ['INDIVIDUAL', 'GROUP', 'ORG', 'LOCATION'], extensible: true },
+};
+
+/**
+ * Value types checked for calendar properties, with their accepted ranges
+ */
+const INTEGERS: Record<string, [number, number]> = {
+  'PRIORITY': [0, 9],
+  'SEQUENCE': [0, Infinity],
+  'PERCENT-COMPLETE': [0, 100],
+  'REPEAT': [0, Infinity],
+};
+const URIS = ['URL', 'TZURL', 'SOURCE', 'CONFERENCE', 'FBURL', 'CALADRURI', 'CALURI', 'IMPP'];
+const CAL_ADDRESSES = ['ATTENDEE', 'ORGANIZER'];
+const DURATIONS = ['DURATION', 'REFRESH-INTERVAL'];
+
+/**
+ * Properties that must not be combined (RFC 5545 sections 3.6.1 and 3.6.2)
+ */
+const EXCLUSIVE: Record<string, string[][]> = {
+  vevent: [['DTEND', 'DURATION']],
+  vtodo: [['DUE', 'DURATION']],
+};
+
+const URI_PATTERN = /^[a-z][a-z0-9+.-]*:\S+$/i;
+const DURATION_PATTERN = /^[+-]?P(?:\d+W|(?=\d|T\d)(?:\d+D)?(?:T(?=\d)(?:\d+H)?(?:\d+M)?(?:\d+S)?)?)$/;
+
+/**
+ * Check the properties of a calendar object or contact against RFC 5545 / RFC 6350
+ *
+ * Property names are checked per component (X-* names are accepted unless disabled),
+ * STATUS/CLASS/TRANSP/ACTION/KIND against their allowed values, PRIORITY, SEQUENCE,
+ * PERCENT-COMPLETE, URIs, calendar addresses and durations against their value types,
+ * and cardinality (single-instance properties, DTEND vs. DURATION, DUE vs. DURATION).
+ *
+ * @param calendarObject - iCal/vCard string or tsdav object with 'data' field
+ * @param options - Components to check (default: the one updateFields() targets, with its alarms) and naming rules
+ * @returns Diagnostics; empty when the object is valid
+ *
+ * @example
+ * ```typescript
+ * validateFields(event.data);
+ * // [{ code: 'invalid-value', component: 'VEVENT', property: 'STATUS', value: 'DONE',
+ * //    expected: ['TENTATIVE', 'CONFIRMED', 'CANCELLED'], message: '...' }]
+ * ```
+ */
+export function validateFields(
+  calendarObject: CalendarObjectInput,
+  options: TargetOptions & ValidationRules = {}
+): ValidationDiagnostic[] {
+  const root = parseCalendarObject(calendarObject);
+  return getTargetComponents(root, options)
+    .flatMap((component) => [component, ...component.getAllSubcomponents()])
+    .flatMap((component) => validateComponent(component, options));
+}
+
+/**
+ * Check a component's properties; with `names`, only diagnostics involving those properties
+ */
+export function validateComponent(
+  component: ICAL.Component,
+  rules: ValidationRules = {},
+  names?: string[]
+): ValidationDiagnostic[] {
+  const type = component.name.toUpperCase();
+  const schema = component.name === 'vcard' ? VCARD : ICALENDAR[component.name];
+  const selected = names && new Set(names.map((name) => name.toUpperCase()));
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  // In the order the fields were given, or the order of the component's properties
+  const present = [...(selected ?? component.getAllProperties().map((property) => property.name.toUpperCase()))]
+    .filter((name, index, all) => all.indexOf(name) === index && component.hasProperty(name.toLowerCase()));
+
+  for (const name of present) {
+    const properties = component.getAllProperties(name.toLowerCase());
+
+    if (schema && !isKnown(name, schema, rules)) {
+      diagnostics.push(unknownProperty(type, name, schema));
+      continue;
+    }
+
+    if (schema?.once.includes(name) && properties.length > 1) {
+      diagnostics.push({
+        code: 'cardinality',
+        component: type,
+        property: name,
+        message: `${name} must not occur more than once in ${type} (found ${properties.length})`,
+      });
+    }
+
+    for (const value of properties.flatMap((property) => property.getValues().map(toText))) {
+      const diagnostic = checkValue(component, type, name, value);
+      if (diagnostic) {
+        diagnostics.push(diagnostic);
+      }
+    }
+  }
+
+  for (const group of EXCLUSIVE[component.name] ?? []) {
+    const set = group.filter((name) => component.hasProperty(name.toLowerCase()));
+    if (set.length > 1 && (!selected || set.some((name) => selected.has(name)))) {
+      diagnostics.push({
+        code: 'cardinality',
+        component: type,
+        property: set.find((name) => selected?.has(name)) ?? set[set.length - 1],
+        message: `${set.join(' and ')} must not both be set in ${type}`,
+        expected: set,
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+function isKnown(name: string, schema: { once: string[]; many: string[] }, rules: ValidationRules): boolean {
+  if (schema.once.includes(name) || schema.many.includes(name)) {
+    return true;
+  }
+  if (rules.allowedProperties?.some((allowed) => allowed.toUpperCase() === name)) {
+    return true;
+  }
+  return name.startsWith('X-') && rules.xProperties !== false;
+}
+
+function unknownProperty(type: string, name: string, schema: { once: string[]; many: string[] }): ValidationDiagnostic {
+  const elsewhere = Object.entries(ICALENDAR)
+    .filter(([, other]) => other !== schema && (other.once.includes(name) || other.many.includes(name)))
+    .map(([component]) => component.toUpperCase());
+
+  if (elsewhere.length > 0 && schema !== VCARD) {
+    return {
+      code: 'wrong-component',
+      component: type,
+      property: name,
+      message: `${name} is not allowed in ${type} (only in ${elsewhere.join(', ')})`,
+    };
+  }
+
+  const suggestion = closestName(name, [...schema.once, ...schema.many]);
+  return {
+    code: 'unknown-property',
+    component: type,
+    property: name,
+    message: `Unknown property ${name} in ${type}${suggestion ? ` (did you mean ${suggestion}?)` : ''}; use an X- name for custom data`,
+    ...(suggestion ? { expected: [suggestion] } : {}),
+  };
+}
+
+function checkValue(component: ICAL.Component, type: string, name: string, value: string): ValidationDiagnostic | undefined {
+  const invalid = (reason: string, expected?: string[]): ValidationDiagnostic => ({
+    code: 'invalid-value',
+    component: type,
+    property: name,
+    value,
+    message: `Invalid ${name} "${value}" in ${type}: ${reason}`,
+    ...(expected ? { expected } : {}),
+  });
+
+  const enumeration = ENUMS[name];
+  if (enumeration) {
+    const allowed = Array.isArray(enumeration.values) ? enumeration.values : enumeration.values[component.name];
+    const upper = value.toUpperCase();
+    if (allowed && !allowed.includes(upper) && !(enumeration.extensible && upper.startsWith('X-'))) {
+      return invalid(`expected one of ${allowed.join(', ')}`, allowed);
+    }
+  }
+
+  // vCards store these as free text (3.0) or with other semantics (vCard SOURCE is a URI too)
+  const isCalendar = component.name !== 'vcard';
+
+  if (INTEGERS[name] && isCalendar) {
+    const [min, max] = INTEGERS[name];
+    if (!/^[+-]?\d+$/.test(value) || +value < min || +value > max) {
+      return invalid(max === Infinity ? `expected an integer >= ${min}` : `expected an integer from ${min} to ${max}`);
+    }
+  }
+
+  if (URIS.includes(name) && !URI_PATTERN.test(value)) {
+    return invalid('expected a URI such as https://example.com');
+  }
+
+  if (CAL_ADDRESSES.includes(name) && isCalendar && !URI_PATTERN.test(value)) {
+    return invalid(
+      'expected a calendar address URI',
+      value.includes('@') ? [`mailto:${value}`] : undefined
+    );
+  }
+
+  if (DURATIONS.includes(name) && isCalendar && !DURATION_PATTERN.test(value)) {
+    return invalid('expected a duration such as PT1H30M or P1D');
+  }
+
+  if (name === 'GEO' && isCalendar && !/^[+-]?\d+(\.\d+)?[;,][+-]?\d+(\.\d+)?$/.test(value)) {
+    return invalid('expected "latitude;longitude"');
+  }
+
+  return undefined;
+}
+
+function toText(value: unknown): string {
+  if (value instanceof ICAL.Time) {
+    return value.toICALString();
+  }
+  return Array.isArray(value) ? value.join(';') : String(value);
+}
+
+/**
+ * Known name within edit distance 2, for typos such as SUMMMARY
+ */
+function closestName(name: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = 3;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(name, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Normalize the `validate` option of updateFields()
+ */
+export function toValidationOptions(validate: 'warn' | 'strict' | ValidationOptions): ValidationOptions {
+  return typeof validate === 'string' ? { mode: validate } : validate;
+}
@@ -0,0 +1,504 @@
+import ICAL from 'ical.js';
+import type {
+  CalendarObjectInput,
+  JCalComponent,
+  JCalProperty,
+  VCardConversion,
+  VCardConversionIssue,
+} from './types';
+import { parseCalendarObject } from './component';
+import { InvalidInputError } from './errors';
+
+type Params = JCalProperty[1];
+type Report = (kind: VCardConversionIssue['kind'], message: string, parameter?: string) => void;
+
+/**
+ * Properties holding media: inline (base64) in vCard 3.0, data: URIs in vCard 4.0
+ */
+const MEDIA_PROPERTIES: Record<string, string> = {
+  photo: 'image',
+  logo: 'image',
+  sound: 'audio',
+  key: 'application',
+};
+
+/**
+ * vCard 3.0 TYPE values of media properties and their MIME types
+ */
+const MEDIA_TYPES: Record<string, string> = {
+  JPEG: 'image/jpeg',
+  PNG: 'image/png',
+  GIF: 'image/gif',
+  BMP: 'image/bmp',
+  TIFF: 'image/tiff',
+  WEBP: 'image/webp',
+  BASIC: 'audio/basic',
+  WAVE: 'audio/wav',
+  MP3: 'audio/mpeg',
+  OGG: 'audio/ogg',
+  PGP: 'application/pgp-keys',
+  X509: 'application/pkix-cert',
+};
+
+/**
+ * GENDER sex values (vCard 4.0) and the X-GENDER text vCard 3.0 clients use
+ */
+const GENDERS: Record<string, string> = {
+  M: 'Male',
+  F: 'Female',
+  O: 'Other',
+  N: 'None',
+  U: 'Unknown',
+};
+
+/**
+ * vCard 4.0 properties without a vCard 3.0 equivalent, kept under an X- name
+ */
+const X_PROPERTIES_IN_3 = [
+  'xml', 'related', 'lang', 'birthplace', 'deathplace', 'deathdate', 'expertise', 'hobby', 'interest', 'org-directory',
+];
+
+/**
+ * vCard 4.0 parameters without a vCard 3.0 equivalent (SORT-AS on N, LABEL on ADR and
+ * MEDIATYPE on media properties are converted)
+ */
+const PARAMETERS_DROPPED_IN_3 = ['pid', 'altid', 'sort-as', 'calscale', 'geo', 'tz', 'label', 'mediatype', 'index', 'level', 'cc'];
+
+/**
+ * Convert a vCard between versions 3.0 and 4.0
+ *
+ * CardDAV servers disagree on the version they expect (Apple and Google use 3.0,
+ * Nextcloud and others 4.0). The conversion remaps:
+ * - PHOTO, LOGO, SOUND and KEY between inline base64 (ENCODING=b;TYPE=JPEG) and data: URIs
+ * - TYPE parameters (uppercase lists with TYPE=PREF in 3.0, lowercase with PREF=1 in 4.0)
+ * - KIND/MEMBER and Apple's X-ADDRESSBOOKSERVER-KIND/-MEMBER for contact groups
+ * - GENDER ↔ X-GENDER and ANNIVERSARY ↔ X-ANNIVERSARY
+ * - LABEL ↔ ADR;LABEL=..., SORT-STRING ↔ N;SORT-AS=..., TEL, GEO, BDAY and REV value formats
+ *
+ * FN (and N for 3.0) are required: when missing they are derived from the other names.
+ * Whatever could not be converted losslessly is listed in `issues`.
+ *
+ * @param calendarObject - vCard string, jCard array or tsdav DAVVCard with 'data' field
+ * @param version - Target version
+ * @returns Converted vCard (jCard for jCard input) and the conversion issues
+ *
+ * @example
+ * ```typescript
+ * const { data, issues } = convertVCard(contact.data, '3.0');
+ * // issues: [{ kind: 'changed', property: 'GENDER', message: 'GENDER identity "they" has no vCard 3.0 equivalent', ... }]
+ * ```
+ */
+export function convertVCard(
+  calendarObject: JCalComponent,
+  version: '3.0' | '4.0'
+): VCardConversion<JCalComponent>;
+export function convertVCard(calendarObject: CalendarObjectInput, version: '3.0' | '4.0'): VCardConversion;
+export function convertVCard(
+  calendarObject: CalendarObjectInput,
+  version: '3.0' | '4.0'
+): VCardConversion<string | JCalComponent> {
+  if (version !== '3.0' && version !== '4.0') {
+    throw new InvalidInputError(`Cannot convert to vCard ${version}: expected '3.0' or '4.0'`);
+  }
+
+  const root = parseCalendarObject(calendarObject);
+  if (root.name !== 'vcard') {
+    throw new InvalidInputError(`Expected a VCARD, got a ${root.name.toUpperCase()}`);
+  }
+
+  const jCard: JCalComponent = JSON.parse(JSON.stringify(root.toJSON()));
+  const source = jCard[1].find(([name]) => name === 'version')?.[3];
+  if (source !== '3.0' && source !== '4.0') {
+    throw new InvalidInputError(`Cannot convert vCard ${source ?? 'without VERSION'}: only 3.0 and 4.0 are supported`);
+  }
+
+  const issues: VCardConversionIssue[] = [];
+  let properties = jCard[1].filter(([name]) => name !== 'version');
+
+  if (source !== version) {
+    properties = version === '4.0' ? upgrade(properties, issues) : downgrade(properties, issues);
+  }
+  properties = requireNames(properties, version, issues);
+
+  const converted = createVCardComponent(version, properties);
+
+  return {
+    data: Array.isArray(calendarObject) ? converted.toJSON() as JCalComponent : converted.toString(),
+    issues,
+  };
+}
+
+/**
+ * Create a VCARD with VERSION as its first property
+ * VERSION must come first: ical.js picks the vCard 3 or 4 design from it
+ */
+export function createVCardComponent(version: '3.0' | '4.0', properties: JCalProperty[] = []): ICAL.Component {
+  return new ICAL.Component(['vcard', [['version', {}, 'text', version], ...properties], []]);
+}
+
+/**
+ * vCard 3.0 → 4.0
+ */
+function upgrade(properties: JCalProperty[], issues: VCardConversionIssue[]): JCalProperty[] {
+  const result: JCalProperty[] = [];
+  const labels: JCalProperty[] = [];
+  let sortString: string | undefined;
+
+  for (const property of properties) {
+    const [name, , type, ...values] = property;
+    const report = reporter(property, issues);
+    const params = upgradeParams(name, property[1]);
+
+    switch (name) {
+      case 'name':
+      case 'profile':
+        report('dropped', `${name.toUpperCase()} describes the directory entry, not the contact, and has no vCard 4.0 equivalent`);
+        break;
+      case 'mailer':
+      case 'class':
+        report('dropped', `${name.toUpperCase()} has no vCard 4.0 equivalent`);
+        break;
+      case 'agent':
+        if (type === 'uri') {
+          result.push(['related', { ...params, type: 'agent' }, 'uri', ...values]);
+        } else {
+          report('dropped', 'AGENT with an embedded vCard has no vCard 4.0 equivalent');
+        }
+        break;
+      case 'label':
+        labels.push([name, params, type, ...values]);
+        break;
+      case 'sort-string':
+        sortString = String(values[0]);
+        break;
+      case 'x-addressbookserver-kind':
+        result.push(['kind', params, 'text', String(values[0]).toLowerCase()]);
+        break;
+      case 'x-addressbookserver-member':
+        result.push(['member', params, 'uri', ...values]);
+        break;
+      case 'x-gender': {
+        const text = String(values[0]);
+        const sex = Object.keys(GENDERS).find((code) => GENDERS[code].toLowerCase() === text.trim().toLowerCase());
+        result.push(['gender', params, 'text', sex ? [sex, ''] : ['', text]]);
+        break;
+      }
+      case 'x-anniversary':
+        result.push(['anniversary', params, 'date-and-or-time', toExtendedDate(String(values[0]))]);
+        break;
+      case 'tel':
+        result.push(['tel', params, 'text', ...values]);
+        break;
+      case 'geo':
+        result.push(['geo', params, 'uri', `geo:${(values[0] as number[]).join(',')}`]);
+        break;
+      case 'bday':
+        result.push(['bday', params, 'date-and-or-time', ...values]);
+        break;
+      case 'rev':
+        result.push(['rev', params, 'timestamp', ...values]);
+        break;
+      case 'tz':
+        // UTC offsets keep their type (TZ defaults to text in 4.0)
+        result.push([name, params, type, ...values]);
+        break;
+      default:
+        if (MEDIA_PROPERTIES[name]) {
+          result.push(upgradeMedia(name, params, type, values));
+        } else {
+          result.push([name, params, retype(name, type, ICAL.design.vcard3, ICAL.design.vcard), ...values]);
+        }
+    }
+  }
+
+  for (const label of labels) {
+    const [, params, , value] = label;
+    const types = typeKey(params);
+    const adr = result.find(([name, adrParams]) => name === 'adr' && !adrParams.label && typeKey(adrParams) === types);
+
+    if (adr) {
+      adr[1].label = String(value);
+    } else {
+      result.push(['adr', { ...params, label: String(value) }, 'text', ['', '', '', '', '', '', '']]);
+      reporter(label, issues)('changed', 'LABEL without a matching ADR became an ADR with only a LABEL parameter');
+    }
+  }
+
+  if (sortString !== undefined) {
+    const n = result.find(([name]) => name === 'n');
+    if (n) {
+      n[1]['sort-as'] = sortString;
+    } else {
+      issues.push({ kind: 'dropped', property: 'SORT-STRING', message: 'SORT-STRING needs an N property in vCard 4.0', value: sortString });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * vCard 4.0 → 3.0
+ */
+function downgrade(properties: JCalProperty[], issues: VCardConversionIssue[]): JCalProperty[] {
+  const result: JCalProperty[] = [];
+
+  for (const property of properties) {
+    const [name, source, type, ...values] = property;
+    const report = reporter(property, issues);
+    const params = downgradeParams(name, source, report);
+
+    switch (name) {
+      case 'kind': {
+        const kind = String(values[0]).toLowerCase();
+        if (kind !== 'individual') {
+          result.push(['x-addressbookserver-kind', params, 'unknown', kind]);
+        }
+        if (kind !== 'individual' && kind !== 'group') {
+          report('changed', `KIND "${kind}" is written as X-ADDRESSBOOKSERVER-KIND, which most clients only read for groups`);
+        }
+        break;
+      }
+      case 'member':
+        result.push(['x-addressbookserver-member', params, 'unknown', ...values]);
+        break;
+      case 'gender': {
+        const [sex, identity] = Array.isArray(values[0]) ? values[0] : [values[0], ''];
+        const text = sex ? GENDERS[String(sex).toUpperCase()] ?? String(sex) : String(identity ?? '');
+        if (text) {
+          result.push(['x-gender', params, 'unknown', text]);
+        }
+        if (sex && identity) {
+          report('changed', `GENDER identity "${identity}" has no vCard 3.0 equivalent`);
+        }
+        break;
+      }
+      case 'anniversary':
+        result.push(['x-anniversary', params, 'unknown', String(values[0])]);
+        report('renamed', 'ANNIVERSARY is written as X-ANNIVERSARY');
+        break;
+      case 'tel':
+        result.push(['tel', params, 'phone-number', ...values.map((value) => String(value).replace(/^tel:/i, ''))]);
+        break;
+      case 'geo': {
+        const match = /^geo:([-+\d.]+),([-+\d.]+)/i.exec(String(values[0]));
+        if (match) {
+          result.push(['geo', params, 'float', [Number(match[1]), Number(match[2])]]);
+        } else {
+          report('dropped', 'GEO is not a geo: URI with latitude and longitude');
+        }
+        break;
+      }
+      case 'bday': {
+        const value = String(values[0]);
+        const dateType = /^\d{4}-\d{2}-\d{2}$/.test(value) ? 'date' : /^\d{4}-\d{2}-\d{2}T/.test(value) ? 'date-time' : undefined;
+        result.push(['bday', params, dateType ?? 'text', value]);
+        if (!dateType) {
+          report('changed', `BDAY "${value}" is not a full date; written as text`);
+        }
+        break;
+      }
+      case 'rev':
+        result.push(['rev', params, 'date-time', ...values]);
+        break;
+      case 'tz':
+        result.push([name, params, type, ...values]);
+        break;
+      case 'clientpidmap':
+        report('dropped', 'CLIENTPIDMAP has no vCard 3.0 equivalent');
+        break;
+      case 'n':
+        result.push([name, params, type, ...values]);
+        if (source['sort-as']) {
+          result.push(['sort-string', {}, 'text', toList(source['sort-as'])[0]]);
+        }
+        break;
+      case 'adr':
+        result.push([name, params, type, ...values]);
+        if (source.label) {
+          result.push(['label', params.type ? { type: params.type } : {}, 'text', String(source.label)]);
+        }
+        break;
+      default:
+        if (X_PROPERTIES_IN_3.includes(name)) {
+          result.push([`x-${name}`, params, type, ...values]);
+          report('renamed', `${name.toUpperCase()} is written as X-${name.toUpperCase()}`);
+        } else if (MEDIA_PROPERTIES[name]) {
+          result.push(downgradeMedia(name, params, source, type, values));
+        } else {
+          result.push([name, params, retype(name, type, ICAL.design.vcard, ICAL.design.vcard3), ...values]);
+        }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Lowercase TYPE values, TYPE=PREF → PREF=1, no TYPE=INTERNET on EMAIL, no ENCODING/CHARSET
+ */
+function upgradeParams(name: string, source: Params): Params {
+  const params: Params = {};
+
+  for (const [param, value] of Object.entries(source)) {
+    if (param === 'type') {
+      const types = toList(value).map((entry) => entry.toLowerCase());
+      if (types.includes('pref')) {
+        params.pref = '1';
+      }
+      setList(params, 'type', types.filter((entry) => entry !== 'pref' && !(name === 'email' && entry === 'internet')));
+    } else if (param !== 'encoding' && param !== 'charset') {
+      params[param] = value;
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Uppercase TYPE values, PREF → TYPE=PREF, 4.0-only parameters dropped
+ */
+function downgradeParams(name: string, source: Params, report: Report): Params {
+  const params: Params = {};
+  const types = toList(source.type).map((entry) => entry.toUpperCase());
+
+  for (const [param, value] of Object.entries(source)) {
+    if (param === 'type') {
+      continue;
+    }
+    if (param === 'pref') {
+      types.push('PREF');
+      if (String(value) !== '1') {
+        report('changed', `PREF=${value} becomes TYPE=PREF; the ranking is lost`, 'PREF');
+      }
+    } else if (PARAMETERS_DROPPED_IN_3.includes(param)) {
+      const converted = (param === 'sort-as' && name === 'n') ||
+        (param === 'label' && name === 'adr') ||
+        (param === 'mediatype' && MEDIA_PROPERTIES[name]);
+      if (!converted) {
+        report('dropped', `${param.toUpperCase()} parameter has no vCard 3.0 equivalent`, param.toUpperCase());
+      }
+    } else {
+      params[param] = value;
+    }
+  }
+
+  setList(params, 'type', types);
+  return params;
+}
+
+/**
+ * PHOTO;ENCODING=b;TYPE=JPEG:... → PHOTO:data:image/jpeg;base64,...
+ */
+function upgradeMedia(name: string, params: Params, type: string, values: unknown[]): JCalProperty {
+  const format = toList(params.type).find((entry) => !['pref', 'home', 'work'].includes(entry));
+  const mediaType = format && (MEDIA_TYPES[format.toUpperCase()] ?? `${MEDIA_PROPERTIES[name]}/${format}`);
+  const rest = { ...params };
+  if (format) {
+    setList(rest, 'type', toList(params.type).filter((entry) => entry !== format));
+  }
+
+  if (type === 'binary') {
+    const data = String(values[0]).replace(/\s+/g, '');
+    return [name, rest, 'uri', `data:${mediaType ?? 'application/octet-stream'};base64,${data}`];
+  }
+
+  return [name, mediaType ? { ...rest, mediatype: mediaType } : rest, 'uri', ...values];
+}
+
+/**
+ * PHOTO:data:image/jpeg;base64,... → PHOTO;ENCODING=b;TYPE=JPEG:...
+ */
+function downgradeMedia(name: string, params: Params, source: Params, type: string, values: unknown[]): JCalProperty {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*?);base64,(.*)$/is.exec(String(values[0]));
+  const mediaType = match ? match[1] : source.mediatype ? String(source.mediatype) : undefined;
+  const format = mediaType && (Object.keys(MEDIA_TYPES).find((key) => MEDIA_TYPES[key] === mediaType.toLowerCase()) ??
+    mediaType.split('/')[1]?.toUpperCase());
+  const types = [...toList(params.type), ...(format ? [format] : [])];
+  const result: Params = { ...params };
+  setList(result, 'type', types);
+
+  if (match) {
+    return [name, { ...result, encoding: 'b' }, 'binary', match[3]];
+  }
+  return [name, result, type === 'uri' ? 'uri' : type, ...values];
+}
+
+/**
+ * Keep explicit value types, move default ones to the target version's default
+ */
+function retype(name: string, type: string, from: { property: any }, to: { property: any }): string {
+  const source = from.property[name]?.defaultType ?? 'unknown';
+  return type === source ? to.property[name]?.defaultType ?? 'unknown' : type;
+}
+
+/**
+ * FN is required in both versions, N in 3.0
+ */
+function requireNames(properties: JCalProperty[], version: string, issues: VCardConversionIssue[]): JCalProperty[] {
+  const result = [...properties];
+  const find = (name: string) => result.find((property) => property[0] === name);
+  let fn = find('fn')?.[3] as string | undefined;
+
+  if (!fn) {
+    const n = find('n')?.[3];
+    const parts = Array.isArray(n) ? [n[3], n[1], n[2], n[0], n[4]].flat().filter(Boolean) : [];
+    const org = find('org')?.[3];
+    fn = parts.join(' ') || (Array.isArray(org) ? org[0] : org) || find('email')?.[3] || '';
+
+    result.unshift(['fn', {}, 'text', fn]);
+    issues.push({ kind: 'derived', property: 'FN', message: `FN was missing; derived "${fn}"`, value: fn });
+  }
+
+  if (version === '3.0' && !find('n')) {
+    const kind = String(find('kind')?.[3] ?? find('x-addressbookserver-kind')?.[3] ?? 'individual').toLowerCase();
+    const words = fn!.trim().split(/\s+/);
+    const n = kind === 'individual' && words.length > 1
+      ? [words[words.length - 1], words.slice(0, -1).join(' '), '', '', '']
+      : [fn!, '', '', '', ''];
+
+    result.splice(result.findIndex(([name]) => name === 'fn') + 1, 0, ['n', {}, 'text', n]);
+    issues.push({ kind: 'derived', property: 'N', message: `N was missing; derived from FN "${fn}"`, value: n.join(';') });
+  }
+
+  return result;
+}
+
+function reporter(property: JCalProperty, issues: VCardConversionIssue[]): Report {
+  const [name, , , ...values] = property;
+  return (kind, message, parameter) => {
+    issues.push({
+      kind,
+      property: name.toUpperCase(),
+      ...(parameter ? { parameter } : {}),
+      message,
+      value: values.map((value) => Array.isArray(value) ? value.join(';') : String(value)).join(','),
+    });
+  };
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+function setList(params: Params, name: string, values: string[]): void {
+  if (values.length === 0) {
+    delete params[name];
+  } else {
+    params[name] = values.length === 1 ? values[0] : values;
+  }
+}
+
+/**
+ * Sorted, lowercase TYPE values, to match LABEL and ADR
+ */
+function typeKey(params: Params): string {
+  return toList(params.type).map((entry) => entry.toLowerCase()).sort().join(',');
+}
+
+/**
+ * 19960415 → 1996-04-15 (jCard dates use the extended format)
+ */
+function toExtendedDate(value: string): string {
+  const match = /^(\d{4})-?(\d{2})-?(\d{2})$/.exec(value.trim());
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : value;
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import ICAL from 'ical.js';
+import { addAlarm, getAlarms, removeAlarm, updateAlarm } from '../src/alarms';
+import { InvalidValueError } from '../src/errors';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+const getEvent = (ical: string) => {
+  return new ICAL.Component(ICAL.parse(ical)).getFirstSubcomponent('vevent')!;
+};
+
+describe('Alarms', () => {
+  describe('getAlarms', () => {
+    it('lists alarms with their index and UID', () => {
+      const alarms = getAlarms(loadFixture('vevent-alarms.ics'));
+
+      expect(alarms).toEqual([
+        {
+          index: 0,
+          uid: '8E5A1F3C-0B7D-4A2B-9C1E-2F4D6A8B0C1D',
+          action: 'DISPLAY',
+          trigger: '-PT30M',
+          description: 'Leave for the dentist',
+        },
+        {
+          index: 1,
+          uid: 'alarm-email@example.com',
+          action: 'EMAIL',
+          trigger: 'PT0S',
+          related: 'END',
+          summary: 'Dentist finished',
+          description: 'Book the next appointment',
+          attendees: ['mailto:me@example.com'],
+        },
+      ]);
+    });
+
+    it('returns an empty list for components without alarms', () => {
+      expect(getAlarms(loadFixture('vevent.ics'))).toEqual([]);
+    });
+  });
+
+  describe('addAlarm', () => {
+    it('adds a display reminder with defaults', () => {
+      const updated = addAlarm(loadFixture('vevent.ics'), { trigger: '-PT15M' });
+      const [alarm] = getAlarms(updated);
+
+      expect(alarm).toMatchObject({
+        index: 0,
+        action: 'DISPLAY',
+        trigger: '-PT15M',
+        description: 'Team Meeting',
+      });
+      expect(alarm.uid).toMatch(/^[0-9a-f-]{36}$/);
+      expect(updated).toContain('TRIGGER:-PT15M');
+    });
+
+    it('writes absolute triggers as UTC DATE-TIME', () => {
+      const updated = addAlarm(loadFixture('vevent.ics'), {
+        trigger: new Date('2025-01-28T09:00:00Z'),
+        uid: 'absolute',
+      });
+
+      expect(updated).toContain('TRIGGER;VALUE=DATE-TIME:20250128T090000Z');
+      expect(getAlarms(updated)[0].trigger).toBe('20250128T090000Z');
+    });
+
+    it('rejects floating absolute triggers', () => {
+      expect(() => addAlarm(loadFixture('vevent.ics'), { trigger: '20250128T090000' }))
+        .toThrow('absolute triggers must be UTC');
+    });
+
+    it('writes relative triggers related to the end', () => {
+      const updated = addAlarm(loadFixture('vevent.ics'), { trigger: '-PT5M', related: 'END' });
+      expect(updated).toContain('TRIGGER;RELATED=END:-PT5M');
+    });
+
+    it('fills in the texts an EMAIL alarm requires', () => {
+      const updated = addAlarm(loadFixture('vevent.ics'), {
+        trigger: '-P1D',
+        action: 'EMAIL',
+        attendees: ['mailto:jane@example.com'],
+      });
+
+      expect(getAlarms(updated)[0]).toMatchObject({
+        action: 'EMAIL',
+        summary: 'Team Meeting',
+        description: 'Team Meeting',
+        attendees: ['mailto:jane@example.com'],
+      });
+    });
+
+    it('requires attendees for EMAIL alarms', () => {
+      expect(() => addAlarm(loadFixture('vevent.ics'), { trigger: '-P1D', action: 'EMAIL' }))
+        .toThrow('EMAIL alarms require at least one attendee');
+    });
+
+    it('requires REPEAT and DURATION together', () => {
+      expect(() => addAlarm(loadFixture('vevent.ics'), { trigger: '-PT15M', repeat: 2 }))
+        .toThrow('REPEAT and DURATION must be set together');
+
+      const updated = addAlarm(loadFixture('vevent.ics'), { trigger: '-PT15M', repeat: 2, duration: 'PT5M' });
+      expect(getAlarms(updated)[0]).toMatchObject({ repeat: 2, duration: 'PT5M' });
+    });
+
+    it('adds alarms to todos', () => {
+      const updated = addAlarm(loadFixture('vtodo.ics'), { trigger: '-PT1H', action: 'AUDIO' });
+      const [alarm] = getAlarms(updated);
+
+      expect(alarm.action).toBe('AUDIO');
+      expect(alarm.description).toBeUndefined();
+    });
+  });
+
+  describe('updateAlarm', () => {
+    it('updates an alarm by index, keeping other properties', () => {
+      const updated = updateAlarm(loadFixture('vevent-alarms.ics'), 0, { trigger: '-PT1H' });
+      const [first, second] = getAlarms(updated);
+
+      expect(first).toMatchObject({ trigger: '-PT1H', description: 'Leave for the dentist' });
+      expect(second.trigger).toBe('PT0S');
+    });
+
+    it('addresses alarms by UID and X-WR-ALARMUID', () => {
+      const ics = loadFixture('vevent-alarms.ics');
+      const byUid = updateAlarm(ics, 'alarm-email@example.com', { description: 'Pay the bill' });
+      const byAppleUid = updateAlarm(ics, '8E5A1F3C-0B7D-4A2B-9C1E-2F4D6A8B0C1D', { action: 'AUDIO' });
+
+      expect(getAlarms(byUid)[1].description).toBe('Pay the bill');
+      expect(getAlarms(byAppleUid)[0].action).toBe('AUDIO');
+      expect(byAppleUid).toContain('X-WR-ALARMUID:8E5A1F3C-0B7D-4A2B-9C1E-2F4D6A8B0C1D');
+    });
+
+    it('keeps ATTENDEE parameters of EMAIL alarms', () => {
+      const ics = loadFixture('vevent-alarms.ics').replace('ATTENDEE:mailto:me@example.com', 'ATTENDEE;CN=Me:mailto:me@example.com');
+
+      expect(updateAlarm(ics, 1, { trigger: '-PT2H' })).toContain('ATTENDEE;CN=Me:mailto:me@example.com');
+
+      const added = updateAlarm(ics, 1, { attendees: ['mailto:me@example.com', 'mailto:you@example.com'] });
+      expect(added).toContain('ATTENDEE;CN=Me:mailto:me@example.com');
+      expect(added).toContain('ATTENDEE:mailto:you@example.com');
+    });
+
+    it('removes REPEAT and DURATION together', () => {
+      const repeating = updateAlarm(loadFixture('vevent-alarms.ics'), 0, { repeat: 2, duration: 'PT5M' });
+      expect(getAlarms(repeating)[0]).toMatchObject({ repeat: 2, duration: 'PT5M' });
+
+      for (const changes of [{ repeat: null }, { duration: null }, { repeat: null, duration: null }]) {
+        const [first] = getAlarms(updateAlarm(repeating, 0, changes));
+        expect(first).not.toHaveProperty('repeat');
+        expect(first).not.toHaveProperty('duration');
+      }
+
+      expect(() => updateAlarm(repeating, 0, { repeat: null, duration: 'PT10M' })).toThrow(InvalidValueError);
+      expect(getAlarms(updateAlarm(repeating, 0, { repeat: 3 }))[0]).toMatchObject({ repeat: 3, duration: 'PT5M' });
+    });
+
+    it('throws for unknown alarms', () => {
+      const ics = loadFixture('vevent-alarms.ics');
+
+      expect(() => updateAlarm(ics, 5, { trigger: '-PT1H' })).toThrow('No alarm at index 5');
+      expect(() => updateAlarm(ics, 'nope', { trigger: '-PT1H' })).toThrow('No alarm with UID "nope"');
+    });
+  });
+
+  describe('removeAlarm', () => {
+    it('removes an alarm by UID', () => {
+      const updated = removeAlarm(loadFixture('vevent-alarms.ics'), 'alarm-email@example.com');
+      const alarms = getAlarms(updated);
+
+      expect(alarms).toHaveLength(1);
+      expect(alarms[0].action).toBe('DISPLAY');
+    });
+  });
+
+  it('edits alarms of a single occurrence', () => {
+    const ics = loadFixture('vevent-recurring.ics');
+    const updated = addAlarm(ics, { trigger: '-PT10M' }, {
+      occurrence: { recurrenceId: '20250127T090000' },
+    });
+
+    expect(getAlarms(updated)).toEqual([]);
+    expect(getAlarms(updated, { occurrence: { recurrenceId: '20250127T090000' } })).toHaveLength(1);
+  });
+
+  it('records alarm changes with change tracking', () => {
+    const updated = addAlarm(loadFixture('vevent.ics'), { trigger: '-PT15M' }, {
+      tracking: { now: new Date('2025-02-01T12:00:00Z') },
+    });
+    const event = getEvent(updated);
+
+    expect(event.getFirstPropertyValue('last-modified')!.toString()).toBe('2025-02-01T12:00:00Z');
+    expect(event.hasProperty('sequence')).toBe(false);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { mapFields, updateAliasedFields, getAliasSchema } from '../src/aliases';
+import { getFields } from '../src/getFields';
+import { InvalidInputError } from '../src/errors';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+describe('mapFields', () => {
+  it('maps friendly event keys to properties', () => {
+    const fields = mapFields({
+      title: 'Team Sync',
+      where: 'Room 4',
+      status: 'confirmed',
+      busy: false,
+      priority: 1,
+      categories: ['Work', 'Project, X'],
+    });
+
+    expect(fields).toEqual({
+      'SUMMARY': 'Team Sync',
+      'LOCATION': 'Room 4',
+      'STATUS': 'CONFIRMED',
+      'TRANSP': 'TRANSPARENT',
+      'PRIORITY': '1',
+      'CATEGORIES': 'Work,Project\\, X',
+    });
+  });
+
+  it('writes ISO 8601 dates with offsets as instants', () => {
+    const fields = mapFields({ start: '2025-01-30T14:00:00+01:00', end: '2025-01-30T15:00:00Z' });
+    expect(fields).toEqual({ DTSTART: '2025-01-30T14:00:00+01:00', DTEND: '2025-01-30T15:00:00Z' });
+
+    const updated = updateAliasedFields(loadFixture('vevent.ics'), { start: '2025-01-30T14:00:00+01:00' });
+    expect(updated).toContain('DTSTART:20250130T130000Z');
+  });
+
+  it('converts attendees to calendar addresses', () => {
+    const fields = mapFields({ attendees: ['Jane Doe <jane@example.com>', 'bob@example.com'] });
+
+    expect(fields.ATTENDEE).toEqual([
+      { value: 'mailto:jane@example.com', params: { CN: 'Jane Doe' } },
+      'mailto:bob@example.com',
+    ]);
+  });
+
+  it('uses the aliases of the component type', () => {
+    expect(mapFields({ title: 'CTO', phone: '+49 30 1234' }, { type: 'VCARD' })).toEqual({
+      'TITLE': 'CTO',
+      'TEL': ['+49 30 1234'],
+    });
+    expect(mapFields({ due: '2025-02-01', percentComplete: 50 }, { type: 'VTODO' })).toEqual({
+      'DUE': '2025-02-01',
+      'PERCENT-COMPLETE': '50',
+    });
+  });
+
+  it('passes property names through and keeps null for removal', () => {
+    expect(mapFields({ 'X-CUSTOM': 'value', where: null })).toEqual({
+      'X-CUSTOM': 'value',
+      'LOCATION': null,
+    });
+  });
+
+  it('rejects unknown keys and duplicate targets', () => {
+    expect(() => mapFields({ venue: 'Room 4' })).toThrow(InvalidInputError);
+    expect(() => mapFields({ venue: 'Room 4' })).toThrow('Unknown field "venue" for VEVENT');
+    expect(() => mapFields({ where: 'A', location: 'B' })).toThrow('Fields "where" and "location" both set LOCATION');
+  });
+
+  it('accepts custom aliases and drops built-in ones', () => {
+    const aliases = {
+      venue: 'LOCATION',
+      where: null,
+      project: { property: 'X-PROJECT', convert: (value: unknown) => String(value).toUpperCase() },
+    };
+
+    expect(mapFields({ venue: 'Room 4', project: 'apollo' }, { aliases })).toEqual({
+      'LOCATION': 'Room 4',
+      'X-PROJECT': 'APOLLO',
+    });
+    expect(() => mapFields({ where: 'Room 4' }, { aliases })).toThrow(InvalidInputError);
+  });
+});
+
+describe('updateAliasedFields', () => {
+  it('updates an event with friendly keys', () => {
+    const updated = updateAliasedFields(loadFixture('vevent.ics'), {
+      title: 'Team Sync',
+      attendees: ['Jane Doe <jane@example.com>'],
+      start: '2025-01-30T14:00:00+01:00',
+    });
+
+    expect(updated).toContain('SUMMARY:Team Sync');
+    expect(updated).toContain('ATTENDEE;CN=Jane Doe:mailto:jane@example.com');
+    expect(updated).toContain('DTSTART:20250130T130000Z');
+  });
+
+  it('detects the component type of the target', () => {
+    const contact = updateAliasedFields(loadFixture('vcard.vcf'), { title: 'CTO', phone: ['+1', '+2'] });
+    expect(getFields(contact, ['TITLE', 'TEL'], { all: true })).toEqual({ TITLE: ['CTO'], TEL: ['+1', '+2'] });
+
+    const todo = updateAliasedFields(loadFixture('vtodo.ics'), { status: 'in-process' });
+    expect(todo).toContain('STATUS:IN-PROCESS');
+  });
+
+  it('passes updateFields options through', () => {
+    expect(() => updateAliasedFields(loadFixture('vevent.ics'), { status: 'done' }, { validate: 'strict' }))
+      .toThrow('Invalid STATUS "DONE"');
+  });
+});
+
+// Keys a draft 2020-12 object schema rejects (properties, patternProperties, additionalProperties: false)
+const rejectedKeys = (schema: any, input: Record<string, unknown>): string[] => {
+  return Object.keys(input).filter((key) => {
+    return !(key in schema.properties) &&
+      !Object.keys(schema.patternProperties ?? {}).some((pattern) => new RegExp(pattern, 'u').test(key)) &&
+      schema.additionalProperties === false;
+  });
+};
+
+describe('getAliasSchema', () => {
+  it('describes the accepted input', () => {
+    const schema = getAliasSchema('VEVENT') as any;
+
+    expect(schema.type).toBe('object');
+    expect(schema.additionalProperties).toBe(false);
+    expect(Object.keys(schema.patternProperties)).toEqual(['^[A-Z][A-Z0-9-]*$']);
+    expect(schema.properties.where).toEqual({ type: 'string', description: 'Location' });
+    expect(schema.properties.attendees.type).toBe('array');
+    expect(schema.properties.status.enum).toEqual(['tentative', 'confirmed', 'cancelled']);
+    expect(schema.properties.due).toBeUndefined();
+  });
+
+  it('accepts the raw property names mapFields() passes through', () => {
+    const schema = getAliasSchema('VEVENT');
+    const input = { title: 'Team Sync', 'X-ZOOM-LINK': 'https://zoom.us/j/1', 'DTSTART': '2025-01-30T14:00:00Z' };
+
+    expect(rejectedKeys(schema, input)).toEqual([]);
+    expect(() => mapFields(input)).not.toThrow();
+
+    const invalid = { title: 'x', titel: 'typo', 'x-lower': 'y' };
+    expect(rejectedKeys(schema, invalid)).toEqual(['titel', 'x-lower']);
+    expect(() => mapFields(invalid)).toThrow(InvalidInputError);
+  });
+
+  it('includes custom aliases', () => {
+    const schema = getAliasSchema('VCARD', {
+      department: { property: 'X-DEPARTMENT', description: 'Department' },
+      nickname: null,
+    }) as any;
+
+    expect(schema.properties.department).toEqual({ type: 'string', description: 'Department' });
+    expect(schema.properties.nickname).toBeUndefined();
+    expect(schema.properties.phone).toBeDefined();
+  });
+});
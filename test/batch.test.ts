@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { updateMany } from '../src/batch';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+const toObject = (filename: string) => ({
+  url: `https://dav.example.com/calendars/user/work/${filename}`,
+  etag: '"1"',
+  data: loadFixture(filename),
+});
+
+describe('updateMany', () => {
+  it('updates every object and reports per-object results', () => {
+    const objects = [toObject('vevent.ics'), toObject('vtodo.ics')];
+
+    const results = updateMany(objects, { 'X-BATCH': 'yes' });
+
+    expect(results.map((result) => result.status)).toEqual(['updated', 'updated']);
+    expect(results[0].object).toBe(objects[0]);
+    expect(results[1].index).toBe(1);
+    expect(results.every((result) => result.data!.includes('X-BATCH:yes'))).toBe(true);
+  });
+
+  it('keeps going when one object is malformed', () => {
+    const objects = [
+      toObject('vevent.ics'),
+      { url: 'https://dav.example.com/broken.ics', data: 'BEGIN:VCALENDAR\nnot ical' },
+      toObject('vevent-attendees.ics'),
+    ];
+
+    const results = updateMany(objects, { 'SUMMARY': 'Renamed' });
+
+    expect(results.map((result) => result.status)).toEqual(['updated', 'failed', 'updated']);
+    expect(results[1].error).toBeInstanceOf(Error);
+    expect(results[1].error!.message).toContain('Failed to parse iCal data');
+    expect(results[1].data).toBeUndefined();
+  });
+
+  it('reports objects that already had the values as unchanged', () => {
+    const results = updateMany([toObject('vevent.ics')], { 'SUMMARY': 'Team Meeting' });
+
+    expect(results[0].status).toBe('unchanged');
+    expect(results[0].data).toContain('SUMMARY:Team Meeting');
+  });
+
+  it('filters by CATEGORIES and DTSTART range', () => {
+    const objects = [toObject('vevent.ics'), toObject('vevent-attendees.ics'), toObject('vevent-recurring.ics')];
+
+    const byCategory = updateMany(objects, { 'STATUS': 'CANCELLED' }, {
+      where: { 'CATEGORIES': { contains: 'planning' } },
+    });
+    expect(byCategory.map((result) => result.status)).toEqual(['skipped', 'updated', 'skipped']);
+
+    const byDate = updateMany(objects, { 'STATUS': 'CANCELLED' }, {
+      where: { 'DTSTART': { within: { start: '2025-01-28', end: new Date('2025-01-28T10:30:00Z') } } },
+    });
+    expect(byDate.map((result) => result.status)).toEqual(['updated', 'updated', 'skipped']);
+
+    // 09:00 Berlin is 08:00 UTC
+    const zoned = updateMany(objects, { 'STATUS': 'CANCELLED' }, {
+      where: { 'DTSTART': { within: { start: '20250106T080000Z', end: '20250106T080001Z' } } },
+    });
+    expect(zoned.map((result) => result.status)).toEqual(['skipped', 'skipped', 'updated']);
+  });
+
+  it('matches whole CATEGORIES values with contains and text with substring', () => {
+    const withCategories = (categories: string) => ({
+      url: `https://dav.example.com/calendars/user/work/${categories}.ics`,
+      data: loadFixture('vevent.ics').replace('STATUS:CONFIRMED', `CATEGORIES:${categories}`),
+    });
+    const objects = [withCategories('Project-X,Work'), withCategories('Project-XYZ'), withCategories('work')];
+
+    expect(updateMany(objects, { 'X-A': '1' }, { where: { 'CATEGORIES': { contains: 'project-x' } } })
+      .map((result) => result.status)).toEqual(['updated', 'skipped', 'skipped']);
+    expect(updateMany(objects, { 'X-A': '1' }, { where: { 'CATEGORIES': { contains: ['Work', 'Project-X'] } } })
+      .map((result) => result.status)).toEqual(['updated', 'skipped', 'skipped']);
+    expect(updateMany(objects, { 'X-A': '1' }, { where: { 'CATEGORIES': { substring: 'project-x' } } })
+      .map((result) => result.status)).toEqual(['updated', 'updated', 'skipped']);
+    expect(updateMany(objects, { 'X-A': '1' }, { where: { 'SUMMARY': { substring: 'meeting' } } })
+      .map((result) => result.status)).toEqual(['updated', 'updated', 'updated']);
+  });
+
+  it('supports equals shorthand, exists and predicate functions', () => {
+    const objects = [toObject('vevent.ics'), toObject('vevent-attendees.ics')];
+
+    expect(updateMany(objects, { 'X-A': '1' }, { where: { 'status': 'confirmed' } })
+      .map((result) => result.status)).toEqual(['updated', 'skipped']);
+
+    expect(updateMany(objects, { 'X-A': '1' }, { where: { 'LOCATION': { exists: false } } })
+      .map((result) => result.status)).toEqual(['skipped', 'updated']);
+
+    expect(updateMany(objects, { 'X-A': '1' }, { where: { 'ATTENDEE': (values) => values.length >= 2 } })
+      .map((result) => result.status)).toEqual(['skipped', 'updated']);
+
+    expect(updateMany(objects, { 'X-A': '1' }, { where: (object, current) => object.url.endsWith('vevent.ics') && !!current.SUMMARY })
+      .map((result) => result.status)).toEqual(['updated', 'skipped']);
+  });
+
+  it('computes fields per object and skips when the function returns nothing', () => {
+    const objects = [toObject('vevent.ics'), toObject('vtodo.ics')];
+
+    const results = updateMany(objects, (object, current) => {
+      return current.SUMMARY === 'Team Meeting' ? { 'SUMMARY': `[moved] ${current.SUMMARY}` } : null;
+    });
+
+    expect(results.map((result) => result.status)).toEqual(['updated', 'skipped']);
+    expect(results[0].data).toContain('SUMMARY:[moved] Team Meeting');
+  });
+
+  it('passes update options through', () => {
+    const [result] = updateMany([toObject('vevent.ics')], { 'DTSTART': '20250129T100000Z' }, {
+      tracking: { now: new Date('2025-02-01T12:00:00Z') },
+    });
+
+    expect(result.data).toContain('SEQUENCE:1');
+    expect(result.data).toContain('LAST-MODIFIED:20250201T120000Z');
+  });
+});
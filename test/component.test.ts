@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import ICAL from 'ical.js';
+import { updateComponents, updateFields } from '../src/updateFields';
+import { getFields } from '../src/getFields';
+import { applyPropertyOperations } from '../src/properties';
+import { expandOccurrences } from '../src/recurrence';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+const summaries = (ical: string, type = 'vevent') => {
+  return new ICAL.Component(ICAL.parse(ical))
+    .getAllSubcomponents(type)
+    .map((component) => component.getFirstPropertyValue('summary'));
+};
+
+describe('Component selection', () => {
+  it('defaults to the first VEVENT', () => {
+    const ics = loadFixture('vcalendar-multi.ics');
+    expect(getFields(ics, ['SUMMARY'])).toEqual({ SUMMARY: 'Planning' });
+  });
+
+  it('falls back to VFREEBUSY when the calendar holds nothing else', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VFREEBUSY',
+      'UID:fb@example.com',
+      'DTSTART:20250201T000000Z',
+      'END:VFREEBUSY',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    expect(getFields(ics, ['UID'])).toEqual({ UID: 'fb@example.com' });
+  });
+
+  it('selects a component by type', () => {
+    const ics = loadFixture('vcalendar-multi.ics');
+    const updated = updateFields(ics, { 'STATUS': 'COMPLETED' }, { component: { type: 'VTODO' } });
+
+    expect(getFields(updated, ['STATUS'], { component: { type: 'vtodo' } })).toEqual({ STATUS: 'COMPLETED' });
+    expect(getFields(ics, ['FREEBUSY'], { component: { type: 'VFREEBUSY' } }))
+      .toEqual({ FREEBUSY: '20250203T090000Z/20250203T100000Z' });
+  });
+
+  it('selects a component by UID, skipping overrides', () => {
+    const ics = loadFixture('vcalendar-multi.ics');
+    const updated = updateFields(ics, { 'LOCATION': 'Room 1' }, { component: { uid: 'event-b@example.com' } });
+
+    const events = new ICAL.Component(ICAL.parse(updated)).getAllSubcomponents('vevent');
+    expect(events[1].getFirstPropertyValue('location')).toBe('Room 1');
+    expect(events[2].hasProperty('location')).toBe(false);
+  });
+
+  it('selects a component by index among matches', () => {
+    const ics = loadFixture('vcalendar-multi.ics');
+    const fields = getFields(ics, ['SUMMARY'], { component: { type: 'VEVENT', index: 1 } });
+
+    expect(fields).toEqual({ SUMMARY: 'Standup' });
+  });
+
+  it('selects a component with a predicate', () => {
+    const ics = loadFixture('vcalendar-multi.ics');
+    const updated = updateFields(ics, { 'SUMMARY': 'Daily Standup' }, {
+      component: { match: (component) => component.hasProperty('rrule') },
+    });
+
+    expect(summaries(updated)).toEqual(['Planning', 'Daily Standup', 'Standup (moved)']);
+  });
+
+  it('combines a selector with an occurrence', () => {
+    const ics = loadFixture('vcalendar-multi.ics');
+    const updated = updateFields(ics, { 'SUMMARY': 'Standup (remote)' }, {
+      component: { uid: 'event-b@example.com' },
+      occurrence: { recurrenceId: '20250205T090000Z' },
+    });
+
+    expect(summaries(updated)).toEqual(['Planning', 'Standup', 'Standup (remote)']);
+  });
+
+  it('throws when no component matches', () => {
+    const ics = loadFixture('vcalendar-multi.ics');
+
+    expect(() => updateFields(ics, { 'SUMMARY': 'x' }, { component: { uid: 'missing@example.com' } }))
+      .toThrow('No component matches the selector {"uid":"missing@example.com"}');
+    expect(() => getFields(ics, [], { component: { type: 'VJOURNAL' } }))
+      .toThrow('No component matches the selector');
+  });
+
+  it('expands the selected series', () => {
+    const ics = loadFixture('vcalendar-multi.ics');
+    const occurrences = expandOccurrences(ics, new Date('2025-02-01'), new Date('2025-03-01'), {
+      component: { uid: 'event-b@example.com' },
+    });
+
+    expect(occurrences).toHaveLength(5);
+    expect(occurrences[1].isOverride).toBe(true);
+  });
+
+  describe('apply to all', () => {
+    it('updates every matching component and reports the changes', () => {
+      const ics = loadFixture('vcalendar-multi.ics');
+      const { data, changed } = updateComponents(ics, { 'CLASS': 'PRIVATE' }, {
+        component: { type: 'VEVENT', all: true },
+      });
+
+      const events = new ICAL.Component(ICAL.parse(data)).getAllSubcomponents('vevent');
+      expect(events.map((event) => event.getFirstPropertyValue('class'))).toEqual(['PRIVATE', 'PRIVATE', null]);
+      expect(changed).toEqual([
+        { type: 'VEVENT', uid: 'event-a@example.com', index: 0 },
+        { type: 'VEVENT', uid: 'event-b@example.com', index: 1 },
+      ]);
+    });
+
+    it('reports only components whose content changed', () => {
+      const ics = loadFixture('vcalendar-multi.ics');
+      const { changed } = updateComponents(ics, { 'SUMMARY': 'Planning' }, {
+        component: { all: true },
+      });
+
+      expect(changed.map((ref) => ref.uid)).toEqual([
+        'freebusy-1@example.com',
+        'todo-1@example.com',
+        'event-b@example.com',
+      ]);
+    });
+
+    it('reports overrides created for an occurrence', () => {
+      const ics = loadFixture('vcalendar-multi.ics');
+      const { changed } = updateComponents(ics, { 'LOCATION': 'Room 2' }, {
+        component: { uid: 'event-b@example.com' },
+        occurrence: { recurrenceId: '20250206T090000Z' },
+      });
+
+      expect(changed).toEqual([
+        { type: 'VEVENT', uid: 'event-b@example.com', index: 3, recurrenceId: '20250206T090000Z' },
+      ]);
+    });
+
+    it('returns the input unchanged when nothing matches', () => {
+      const ics = loadFixture('vcalendar-multi.ics');
+      const { data, changed } = updateComponents(ics, { 'SUMMARY': 'x' }, {
+        component: { type: 'VJOURNAL', all: true },
+      });
+
+      expect(changed).toEqual([]);
+      expect(data).toBe(updateFields(ics, {}));
+    });
+
+    it('applies property operations to every match', () => {
+      const ics = loadFixture('vcalendar-multi.ics');
+      const updated = applyPropertyOperations(ics, [
+        { op: 'append', name: 'CATEGORIES', value: 'Imported' },
+      ], { component: { all: true } });
+
+      expect(updated.match(/CATEGORIES:Imported/g)).toHaveLength(4);
+    });
+  });
+
+  it('reports changes to a vCard', () => {
+    const vcf = loadFixture('vcard.vcf');
+    const { changed } = updateComponents(vcf, { 'TITLE': 'CTO' });
+
+    expect(changed).toEqual([{ type: 'VCARD', uid: 'test-vcard-456@example.com', index: 0 }]);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { convertTimezone, setAllDay } from '../src/convert';
+import { expandOccurrences } from '../src/recurrence';
+import { updateFields } from '../src/updateFields';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+const zoned = (ics: string) => updateFields(ics, {
+  'DTSTART': { value: '20250130T140000', tzid: 'Europe/Berlin' },
+  'DTEND': { value: '20250130T150000', tzid: 'Europe/Berlin' },
+});
+
+describe('Date conversion', () => {
+  describe('convertTimezone', () => {
+    it('keeps the instant while changing the zone', () => {
+      const updated = convertTimezone(zoned(loadFixture('vevent.ics')), 'America/New_York');
+
+      expect(updated).toContain('DTSTART;TZID=America/New_York:20250130T080000');
+      expect(updated).toContain('DTEND;TZID=America/New_York:20250130T090000');
+      expect(updated).not.toContain('Europe/Berlin');
+    });
+
+    it('converts UTC times into a zone and back', () => {
+      const berlin = convertTimezone(loadFixture('vevent.ics'), 'Europe/Berlin');
+      expect(berlin).toContain('DTSTART;TZID=Europe/Berlin:20250128T110000');
+
+      const utc = convertTimezone(berlin, 'UTC');
+      expect(utc).toContain('DTSTART:20250128T100000Z');
+      expect(utc).toContain('DTEND:20250128T110000Z');
+    });
+
+    it('converts a whole series, including EXDATE and overrides', () => {
+      const ics = loadFixture('vevent-recurring.ics');
+      const updated = convertTimezone(ics, 'Asia/Tokyo');
+
+      expect(updated).toContain('DTSTART;TZID=Asia/Tokyo:20250106T170000');
+      expect(updated).toContain('EXDATE;TZID=Asia/Tokyo:20250120T170000');
+      expect(updated).toContain('RECURRENCE-ID;TZID=Asia/Tokyo:20250113T170000');
+      expect(updated).toContain('DTSTART;TZID=Asia/Tokyo:20250113T180000');
+
+      const range = [new Date('2025-01-01'), new Date('2025-02-01')] as const;
+      expect(expandOccurrences(updated, ...range)).toEqual(expandOccurrences(ics, ...range));
+    });
+
+    it('converts only the targeted occurrence', () => {
+      const updated = convertTimezone(loadFixture('vevent-recurring.ics'), 'UTC', {
+        occurrence: { recurrenceId: '20250113T090000' },
+      });
+
+      expect(updated).toContain('DTSTART;TZID=Europe/Berlin:20250106T090000');
+      expect(updated).toContain('RECURRENCE-ID:20250113T080000Z');
+      expect(updated).toContain('DTSTART:20250113T090000Z');
+    });
+
+    it('pins floating times to the new zone', () => {
+      const floating = updateFields(loadFixture('vevent.ics'), { 'DTSTART': '20250128T100000' });
+      expect(convertTimezone(floating, 'Europe/Berlin')).toContain('DTSTART;TZID=Europe/Berlin:20250128T100000');
+    });
+
+    it('leaves all-day values alone', () => {
+      const allDay = updateFields(loadFixture('vevent.ics'), {
+        'DTSTART': { value: '20250128', allDay: true },
+        'DTEND': { value: '20250129', allDay: true },
+      });
+
+      expect(convertTimezone(allDay, 'Europe/Berlin')).toBe(allDay);
+    });
+
+    it('embeds the new VTIMEZONE on request', () => {
+      const updated = convertTimezone(loadFixture('vevent.ics'), 'Europe/Berlin', { timezones: true });
+      expect(updated).toContain('BEGIN:VTIMEZONE');
+    });
+  });
+
+  describe('setAllDay', () => {
+    it('turns a timed event into an all-day event with an exclusive end', () => {
+      const updated = setAllDay(zoned(loadFixture('vevent.ics')), true);
+
+      expect(updated).toContain('DTSTART;VALUE=DATE:20250130');
+      expect(updated).toContain('DTEND;VALUE=DATE:20250131');
+      expect(updated).not.toContain('TZID');
+    });
+
+    it('covers every day a multi-day event touches', () => {
+      const ics = updateFields(loadFixture('vevent.ics'), {
+        'DTSTART': { value: '20250130T220000', tzid: 'Europe/Berlin' },
+        'DTEND': { value: '20250201T010000', tzid: 'Europe/Berlin' },
+      });
+
+      expect(setAllDay(ics, true)).toContain('DTEND;VALUE=DATE:20250202');
+    });
+
+    it('uses the calendar date of UTC times in the given zone', () => {
+      const ics = updateFields(loadFixture('vevent.ics'), {
+        'DTSTART': '20250130T230000Z',
+        'DTEND': '20250130T233000Z',
+      });
+
+      expect(setAllDay(ics, true)).toContain('DTSTART;VALUE=DATE:20250130');
+      expect(setAllDay(ics, true, { tzid: 'Europe/Berlin' })).toContain('DTSTART;VALUE=DATE:20250131');
+    });
+
+    it('converts DURATION to whole days', () => {
+      const ics = updateFields(loadFixture('vevent.ics'), { 'DTEND': null, 'DURATION': 'PT2H' });
+      expect(setAllDay(ics, true)).toContain('DURATION:P1D');
+    });
+
+    it('turns an all-day event into a timed event', () => {
+      const allDay = setAllDay(zoned(loadFixture('vevent.ics')), true);
+      const timed = setAllDay(allDay, false, { time: '14:00', duration: 'PT30M', tzid: 'Europe/Berlin' });
+
+      expect(timed).toContain('DTSTART;TZID=Europe/Berlin:20250130T140000');
+      expect(timed).toContain('DTEND;TZID=Europe/Berlin:20250130T143000');
+    });
+
+    it('defaults to a one-hour floating event at 09:00 and keeps extra days', () => {
+      const allDay = updateFields(loadFixture('vevent.ics'), {
+        'DTSTART': { value: '20250130', allDay: true },
+        'DTEND': { value: '20250201', allDay: true },
+      });
+      const timed = setAllDay(allDay, false);
+
+      expect(timed).toContain('DTSTART:20250130T090000');
+      expect(timed).toContain('DTEND:20250131T100000');
+    });
+
+    it('adapts recurrence dates and UNTIL', () => {
+      const ics = updateFields(loadFixture('vevent-recurring.ics'), {
+        'RRULE': 'FREQ=WEEKLY;BYDAY=MO;UNTIL=20250224T080000Z',
+      });
+      const allDay = setAllDay(ics, true);
+
+      expect(allDay).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20250224');
+      expect(allDay).toContain('EXDATE;VALUE=DATE:20250120');
+      expect(allDay).toContain('RECURRENCE-ID;VALUE=DATE:20250113');
+
+      const timed = setAllDay(allDay, false, { tzid: 'Europe/Berlin' });
+      expect(timed).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20250224T225959Z');
+      expect(timed).toContain('EXDATE;TZID=Europe/Berlin:20250120T090000');
+    });
+
+    it('is a no-op when the event already has the requested form', () => {
+      const ics = loadFixture('vevent.ics');
+      expect(setAllDay(ics, false)).toBe(updateFields(ics, {}));
+    });
+
+    it('rejects invalid times', () => {
+      const allDay = setAllDay(loadFixture('vevent.ics'), true);
+      expect(() => setAllDay(allDay, false, { time: 'noon' })).toThrow('Invalid time "noon"');
+    });
+  });
+});
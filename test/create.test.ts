@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import ICAL from 'ical.js';
+import { createContact, createEvent, createJournal, createTodo } from '../src/create';
+import { getFields } from '../src/getFields';
+import { updateFields } from '../src/updateFields';
+import { InvalidInputError } from '../src/errors';
+
+const DTSTART = '20250203T100000Z';
+
+describe('Object creation', () => {
+  describe('createEvent', () => {
+    it('creates a VEVENT with UID, DTSTAMP, VERSION and PRODID', () => {
+      const { data, filename, uid } = createEvent({
+        'SUMMARY': 'Kickoff',
+        'DTSTART': '20250203T100000Z',
+        'DTEND': '20250203T110000Z'
+      });
+
+      const component = new ICAL.Component(ICAL.parse(data));
+      const event = component.getFirstSubcomponent('vevent');
+
+      expect(component.getFirstPropertyValue('version')).toBe('2.0');
+      expect(component.getFirstPropertyValue('prodid')).toBe('-//tsdav-utils//EN');
+      expect(event?.getFirstPropertyValue('uid')).toBe(uid);
+      expect(event?.hasProperty('dtstamp')).toBe(true);
+      expect(event?.getFirstPropertyValue('summary')).toBe('Kickoff');
+      expect(uid).toMatch(/^[0-9a-f-]{36}$/);
+      expect(filename).toBe(`${uid}.ics`);
+    });
+
+    it('generates unique UIDs', () => {
+      expect(createEvent({ DTSTART }).uid).not.toBe(createEvent({ DTSTART }).uid);
+    });
+
+    it('uses UID from fields or options', () => {
+      expect(createEvent({ 'UID': 'meeting-1@example.com', DTSTART }).filename).toBe('meeting-1@example.com.ics');
+      expect(createEvent({ DTSTART }, { uid: 'custom/uid 1' }).filename).toBe('custom-uid-1.ics');
+    });
+
+    it('writes the UID it returns when fields and options both give one', () => {
+      const event = createEvent({ 'UID': 'x', DTSTART }, { uid: 'y' });
+      const contact = createContact({ 'uid': 'x', 'FN': 'Jane Doe' }, { uid: 'y' });
+
+      for (const [{ data, uid, filename }, extension] of [[event, 'ics'], [contact, 'vcf']] as const) {
+        expect(uid).toBe('y');
+        expect(filename).toBe(`y.${extension}`);
+        expect(getFields(data, ['UID'])).toEqual({ UID: 'y' });
+      }
+    });
+
+    it('accepts the full updateFields field map', () => {
+      const { data } = createEvent({
+        'SUMMARY': 'Planning',
+        'DTSTART': { value: '20250203T100000', tzid: 'Europe/Berlin' },
+        'ATTENDEE': [
+          { value: 'mailto:a@example.com', params: { CN: 'A' } },
+          'mailto:b@example.com'
+        ],
+        'X-PROJECT': 'Alpha'
+      }, { prodId: '-//Acme//Planner//EN' });
+
+      expect(data).toContain('PRODID:-//Acme//Planner//EN');
+      expect(data).toContain('DTSTART;TZID=Europe/Berlin:20250203T100000');
+      expect(getFields(data, ['ATTENDEE'], { all: true })).toEqual({
+        ATTENDEE: ['mailto:a@example.com', 'mailto:b@example.com']
+      });
+      expect(data).toContain('X-PROJECT:Alpha');
+    });
+
+    it('produces objects updateFields can modify', () => {
+      const { data } = createEvent({ 'SUMMARY': 'Draft', DTSTART });
+
+      expect(getFields(updateFields(data, { 'SUMMARY': 'Final' }), ['SUMMARY'])).toEqual({ SUMMARY: 'Final' });
+    });
+
+    it('requires DTSTART', () => {
+      expect(() => createEvent({ 'SUMMARY': 'No start' })).toThrow(InvalidInputError);
+      expect(() => createEvent({ 'DTSTART': null })).toThrow(/without DTSTART/);
+      expect(createEvent({ 'dtstart': '20250203' }).data).toContain('DTSTART;VALUE=DATE:20250203');
+    });
+  });
+
+  describe('createTodo / createJournal', () => {
+    it('creates a VTODO', () => {
+      const { data } = createTodo({ 'SUMMARY': 'Write docs', 'DUE': '20250210' });
+
+      expect(data).toContain('BEGIN:VTODO');
+      expect(data).toContain('DUE;VALUE=DATE:20250210');
+    });
+
+    it('creates a VJOURNAL', () => {
+      const { data } = createJournal({ 'SUMMARY': 'Retro notes', 'DESCRIPTION': 'Went well' });
+
+      expect(data).toContain('BEGIN:VJOURNAL');
+      expect(getFields(data, ['SUMMARY'])).toEqual({ SUMMARY: 'Retro notes' });
+    });
+  });
+
+  describe('createContact', () => {
+    it('creates a vCard 3.0 by default', () => {
+      const { data, filename, uid } = createContact({
+        'FN': 'Jane Doe',
+        'N': { family: 'Doe', given: 'Jane' },
+        'TEL': { value: '+4930123456', params: { TYPE: 'cell' } }
+      });
+
+      expect(data.startsWith('BEGIN:VCARD\r\nVERSION:3.0\r\n')).toBe(true);
+      expect(data).toContain('N:Doe;Jane;;;');
+      expect(data).toContain('TEL;TYPE=cell:+4930123456');
+      expect(data).toContain(`UID:${uid}`);
+      expect(filename).toBe(`${uid}.vcf`);
+    });
+
+    it('creates a vCard 4.0 on request', () => {
+      const { data } = createContact({ 'FN': 'Jane Doe' }, { version: '4.0' });
+
+      expect(data).toContain('VERSION:4.0');
+    });
+
+    it('requires FN', () => {
+      expect(() => createContact({ 'N': { family: 'Doe' } })).toThrow(InvalidInputError);
+      expect(() => createContact({ 'FN': '' })).toThrow(/without FN/);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { diffFields } from '../src/diff';
+import { updateFields } from '../src/updateFields';
+import { addAlarm, updateAlarm } from '../src/alarms';
+import { updateRecurrenceRule } from '../src/recurrence';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+describe('diffFields', () => {
+  it('returns no changes for identical objects', () => {
+    const ics = loadFixture('vevent.ics');
+    expect(diffFields(ics, ics)).toEqual([]);
+    expect(diffFields(ics, { data: ics })).toEqual([]);
+  });
+
+  it('reports changed, added and removed properties', () => {
+    const before = loadFixture('vevent.ics');
+    const after = updateFields(before, {
+      'SUMMARY': 'Renamed',
+      'LOCATION': null,
+      'X-CUSTOM': 'value',
+    });
+
+    const changes = diffFields(before, after);
+    const component = { type: 'VEVENT', uid: 'test-event-12345@example.com', index: 0 };
+
+    expect(changes).toContainEqual({
+      kind: 'changed', component, property: 'SUMMARY', index: 0,
+      before: 'Team Meeting', after: 'Renamed',
+    });
+    expect(changes).toContainEqual({
+      kind: 'removed', component, property: 'LOCATION', index: 0, before: 'Conference Room A',
+    });
+    expect(changes).toContainEqual({
+      kind: 'added', component, property: 'X-CUSTOM', index: 0, after: 'value',
+    });
+    expect(changes).toHaveLength(3);
+  });
+
+  it('confirms that an update left other properties alone', () => {
+    const before = loadFixture('vevent.ics');
+    const after = updateFields(before, { 'SUMMARY': 'Renamed' }, { tracking: true });
+
+    const changes = diffFields(before, after, { ignore: ['dtstamp', 'LAST-MODIFIED', 'SEQUENCE'] });
+    expect(changes.map((change) => change.property)).toEqual(['SUMMARY']);
+  });
+
+  it('reports a parameter change on one instance of a repeated property', () => {
+    const before = loadFixture('vevent-attendees.ics');
+    const after = before.replace('ATTENDEE;CN=Bob:', 'ATTENDEE;CN=Bob;PARTSTAT=ACCEPTED:');
+
+    const changes = diffFields(before, after);
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({
+      kind: 'changed',
+      property: 'ATTENDEE',
+      index: 1,
+      before: { value: 'mailto:bob@example.com', params: { CN: 'Bob' } },
+      after: { value: 'mailto:bob@example.com', params: { CN: 'Bob', PARTSTAT: 'ACCEPTED' } },
+    });
+  });
+
+  it('reports added and removed instances of a repeated property', () => {
+    const before = loadFixture('vevent-attendees.ics');
+    const after = before.replace(
+      'ATTENDEE;CN=Alice:mailto:alice@example.com',
+      'ATTENDEE;CN=Carol:mailto:carol@example.com'
+    ).replace('END:VEVENT', 'ATTENDEE:mailto:dave@example.com\r\nEND:VEVENT');
+
+    const changes = diffFields(before, after).map(({ kind, index, before, after }) => ({ kind, index, before, after }));
+
+    expect(changes).toEqual([
+      {
+        kind: 'changed',
+        index: 0,
+        before: { value: 'mailto:alice@example.com', params: { CN: 'Alice' } },
+        after: { value: 'mailto:carol@example.com', params: { CN: 'Carol' } },
+      },
+      { kind: 'added', index: 2, before: undefined, after: 'mailto:dave@example.com' },
+    ]);
+  });
+
+  it('reports VALARM changes as subcomponent changes', () => {
+    const before = loadFixture('vevent-alarms.ics');
+    const updated = updateAlarm(before, 'alarm-email@example.com', { trigger: '-PT5M' });
+    const after = addAlarm(updated, { trigger: '-P1D', uid: 'alarm-new@example.com' });
+
+    const changes = diffFields(before, after);
+
+    expect(changes).toContainEqual(expect.objectContaining({
+      kind: 'changed',
+      subcomponent: { type: 'VALARM', uid: 'alarm-email@example.com', index: 1 },
+      property: 'TRIGGER',
+      before: { value: 'PT0S', params: { RELATED: 'END' } },
+      after: { value: '-PT5M', params: { RELATED: 'END' } },
+    }));
+    expect(changes).toContainEqual({
+      kind: 'added',
+      component: { type: 'VEVENT', uid: 'alarm-event@example.com', index: 0 },
+      subcomponent: { type: 'VALARM', uid: 'alarm-new@example.com', index: 2 },
+    });
+  });
+
+  it('matches overrides by RECURRENCE-ID and reports added ones', () => {
+    const before = loadFixture('vevent-recurring.ics');
+    const moved = updateFields(before, { 'LOCATION': 'Room 2' }, {
+      occurrence: { recurrenceId: '20250113T090000', tzid: 'Europe/Berlin' },
+    });
+    const after = updateFields(moved, { 'SUMMARY': 'Cancelled standup' }, {
+      occurrence: { recurrenceId: '20250127T090000', tzid: 'Europe/Berlin' },
+    });
+
+    const changes = diffFields(before, after);
+
+    expect(changes).toContainEqual(expect.objectContaining({
+      kind: 'changed',
+      component: expect.objectContaining({ recurrenceId: '20250113T090000' }),
+      property: 'LOCATION',
+      before: 'Room 1',
+      after: 'Room 2',
+    }));
+    expect(changes).toContainEqual({
+      kind: 'added',
+      component: expect.objectContaining({ type: 'VEVENT', recurrenceId: '20250127T090000' }),
+    });
+  });
+
+  it('reports calendar-level properties on the VCALENDAR', () => {
+    const before = loadFixture('vevent-recurring.ics');
+    const after = updateRecurrenceRule(before, { count: 12 }).replace('CALSCALE:GREGORIAN\r\n', '');
+
+    expect(diffFields(before, after)).toEqual([
+      {
+        kind: 'removed',
+        component: { type: 'VCALENDAR', index: 0 },
+        property: 'CALSCALE',
+        index: 0,
+        before: 'GREGORIAN',
+      },
+      expect.objectContaining({ kind: 'changed', property: 'RRULE', after: 'FREQ=WEEKLY;COUNT=12;BYDAY=MO' }),
+    ]);
+  });
+
+  it('compares vCards', () => {
+    const before = loadFixture('vcard.vcf');
+    const after = updateFields(before, { 'TITLE': 'Lead Developer', 'NOTE': 'Met at conference' });
+
+    const changes = diffFields(before, after);
+
+    expect(changes).toEqual([
+      expect.objectContaining({
+        kind: 'changed',
+        component: { type: 'VCARD', uid: 'test-vcard-456@example.com', index: 0 },
+        property: 'TITLE',
+        before: 'Senior Developer',
+        after: 'Lead Developer',
+      }),
+      expect.objectContaining({ kind: 'added', property: 'NOTE', after: 'Met at conference' }),
+    ]);
+  });
+
+  it('rejects comparing a calendar with a contact', () => {
+    expect(() => diffFields(loadFixture('vevent.ics'), loadFixture('vcard.vcf')))
+      .toThrow('Cannot diff a VCALENDAR against a VCARD');
+  });
+});
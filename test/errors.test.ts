@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { updateFields } from '../src/updateFields';
+import { updateAlarm, addAlarm } from '../src/alarms';
+import { createReply } from '../src/itip';
+import {
+  ComponentNotFoundError,
+  InvalidInputError,
+  InvalidValueError,
+  ParseError,
+  TsdavUtilsError,
+} from '../src/errors';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+const catchError = (fn: () => unknown): any => {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected an error');
+};
+
+describe('errors', () => {
+  it('throws InvalidInputError for input without data', () => {
+    const error = catchError(() => updateFields({} as any, { 'SUMMARY': 'x' }));
+
+    expect(error).toBeInstanceOf(InvalidInputError);
+    expect(error).toBeInstanceOf(TsdavUtilsError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('InvalidInputError');
+  });
+
+  it('throws ParseError with the line and column of the offending content line', () => {
+    const broken = loadFixture('vevent.ics').replace('LOCATION:Conference Room A', 'LOCATION Conference Room A');
+    const error = catchError(() => updateFields(broken, { 'SUMMARY': 'x' }));
+
+    expect(error).toBeInstanceOf(ParseError);
+    expect(error.line).toBe(11);
+    expect(error.column).toBe(1);
+    expect(error.source).toBe('LOCATION Conference Room A');
+    expect(error.message).toContain('Failed to parse iCal data');
+    expect(error.message).toContain('(line 11, column 1)');
+  });
+
+  it('locates folded lines and parameter errors', () => {
+    const broken = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'UID:1',
+      'DESCRIPTION;X-A',
+      ' :folded',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    const error = catchError(() => updateFields(broken, {}));
+
+    expect(error).toBeInstanceOf(ParseError);
+    expect(error.line).toBe(5);
+    expect(error.column).toBe(12);
+    expect(error.source).toBe('DESCRIPTION;X-A:folded');
+  });
+
+  it('reports unterminated components at the end of the input', () => {
+    const error = catchError(() => updateFields('BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nUID:1\r\n', {}));
+
+    expect(error).toBeInstanceOf(ParseError);
+    expect(error.line).toBe(3);
+    expect(error.column).toBeUndefined();
+  });
+
+  it('throws ComponentNotFoundError with the selector', () => {
+    const error = catchError(() => updateFields(loadFixture('vevent.ics'), { 'SUMMARY': 'x' }, {
+      component: { type: 'VTODO' },
+    }));
+
+    expect(error).toBeInstanceOf(ComponentNotFoundError);
+    expect(error.componentType).toBe('VTODO');
+    expect(error.criteria).toMatchObject({ type: 'VTODO' });
+
+    const alarm = catchError(() => updateAlarm(loadFixture('vevent-alarms.ics'), 'missing', { trigger: '-PT5M' }));
+    expect(alarm).toBeInstanceOf(ComponentNotFoundError);
+    expect(alarm.componentType).toBe('VALARM');
+    expect(alarm.criteria).toEqual({ uid: 'missing' });
+
+    const occurrence = catchError(() => updateFields(loadFixture('vevent-recurring.ics'), { 'SUMMARY': 'x' }, {
+      occurrence: { recurrenceId: '20250107T090000', tzid: 'Europe/Berlin' },
+    }));
+    expect(occurrence).toBeInstanceOf(ComponentNotFoundError);
+    expect(occurrence.componentType).toBe('VEVENT');
+  });
+
+  it('throws InvalidValueError naming the property', () => {
+    const date = catchError(() => updateFields(loadFixture('vevent.ics'), { 'DTSTART': 'next tuesday' }));
+    expect(date).toBeInstanceOf(InvalidValueError);
+    expect(date.property).toBe('DTSTART');
+    expect(date.value).toBe('next tuesday');
+
+    const rrule = catchError(() => updateFields(loadFixture('vevent.ics'), { 'rrule': 'FREQ=SOMETIMES' }));
+    expect(rrule).toBeInstanceOf(InvalidValueError);
+    expect(rrule.property).toBe('RRULE');
+    expect(rrule.message).toContain('Invalid value for RRULE: invalid frequency');
+
+    const trigger = catchError(() => addAlarm(loadFixture('vevent.ics'), { trigger: '20250130T090000' }));
+    expect(trigger).toBeInstanceOf(InvalidValueError);
+    expect(trigger.property).toBe('TRIGGER');
+  });
+
+  it('throws InvalidInputError for arguments that do not apply to the object', () => {
+    const error = catchError(() => createReply(loadFixture('vevent-attendees.ics'), 'nobody@example.com', 'ACCEPTED'));
+
+    expect(error).toBeInstanceOf(InvalidInputError);
+    expect(error.message).toBe('Cannot reply: nobody@example.com is not an attendee');
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { toJCal, fromJCal, toJCard, fromJCard, toXCal, fromXCal, toXCard, fromXCard } from '../src/formats';
+import { updateFields, updateComponents } from '../src/updateFields';
+import { getFields } from '../src/getFields';
+import { InvalidInputError, ParseError } from '../src/errors';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+const normalize = (data: string): string => data.replace(/\r?\n/g, '\r\n').trim();
+
+describe('jCal/jCard', () => {
+  it('converts iCalendar to jCal and back', () => {
+    const jcal = toJCal(loadFixture('vevent.ics'));
+
+    expect(jcal[0]).toBe('vcalendar');
+    expect(jcal[2][0][0]).toBe('vevent');
+    expect(jcal[2][0][1]).toContainEqual(['dtstart', {}, 'date-time', '2025-01-28T10:00:00Z']);
+    expect(jcal[2][0][1]).toContainEqual(['organizer', { cn: 'John Doe' }, 'cal-address', 'mailto:john@example.com']);
+
+    expect(normalize(fromJCal(jcal))).toBe(normalize(loadFixture('vevent.ics')));
+  });
+
+  it('converts vCards to jCard and back', () => {
+    const jcard = toJCard({ data: loadFixture('vcard.vcf') });
+
+    expect(jcard[1]).toContainEqual(['n', {}, 'text', ['Smith', 'Jane', 'Marie', '', '']]);
+    expect(normalize(fromJCard(jcard))).toBe(normalize(loadFixture('vcard.vcf')));
+  });
+
+  it('rejects the wrong kind of object', () => {
+    expect(() => toJCal(loadFixture('vcard.vcf'))).toThrow('Expected a VCALENDAR, got a VCARD; use toJCard() or toXCard()');
+    expect(() => fromJCard(toJCal(loadFixture('vevent.ics')))).toThrow(InvalidInputError);
+    expect(() => fromJCal(['vevent', [], []])).toThrow(InvalidInputError);
+  });
+});
+
+describe('updateFields with jCal input', () => {
+  it('returns jCal for jCal input without touching the input', () => {
+    const jcal = toJCal(loadFixture('vevent.ics'));
+    const snapshot = JSON.stringify(jcal);
+
+    const updated = updateFields(jcal, { 'SUMMARY': 'Team Sync', 'DTSTART': new Date('2025-01-29T10:00:00Z') });
+
+    expect(Array.isArray(updated)).toBe(true);
+    expect(updated[2][0][1]).toContainEqual(['summary', {}, 'text', 'Team Sync']);
+    expect(updated[2][0][1]).toContainEqual(['dtstart', {}, 'date-time', '2025-01-29T10:00:00Z']);
+    expect(JSON.stringify(jcal)).toBe(snapshot);
+  });
+
+  it('reports changes for jCard input', () => {
+    const { data, changed } = updateComponents(toJCard(loadFixture('vcard.vcf')), { 'TITLE': 'CTO' });
+
+    expect(changed).toHaveLength(1);
+    expect(getFields(data, ['TITLE'])).toEqual({ TITLE: 'CTO' });
+  });
+});
+
+describe('xCal', () => {
+  it('writes RFC 6321 XML', () => {
+    const xml = toXCal(loadFixture('vevent-recurring.ics'));
+
+    expect(xml).toContain('<icalendar xmlns="urn:ietf:params:xml:ns:icalendar-2.0">');
+    expect(xml).toContain('<dtstart><parameters><tzid><text>Europe/Berlin</text></tzid></parameters><date-time>2025-01-06T09:00:00</date-time></dtstart>');
+    expect(xml).toContain('<rrule><recur><freq>WEEKLY</freq><byday>MO</byday><count>10</count></recur></rrule>');
+  });
+
+  it('round-trips through XML', () => {
+    const data = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'UID:xcal@example.com',
+      'SUMMARY:Q&A <live>',
+      'GEO:52.52;13.405',
+      'CATEGORIES:Work,Project-X',
+      'REQUEST-STATUS:2.0;Success',
+      'ATTENDEE;DELEGATED-TO="mailto:a@example.com","mailto:b@example.com":mailto:x@example.com',
+      'RRULE:FREQ=MONTHLY;BYDAY=1MO,-1FR;UNTIL=20251231T000000Z',
+      'FREEBUSY:20250308T160000Z/PT8H30M',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'TRIGGER:-PT15M',
+      'END:VALARM',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    const xml = toXCal(data);
+    expect(xml).toContain('<summary><text>Q&amp;A &lt;live&gt;</text></summary>');
+    expect(xml).toContain('<geo><latitude>52.52</latitude><longitude>13.405</longitude></geo>');
+    expect(xml).toContain('<request-status><code>2.0</code><description>Success</description></request-status>');
+
+    expect(toJCal(fromXCal(xml))).toEqual(toJCal(data));
+  });
+
+  it('reads prefixed elements, comments and CDATA', () => {
+    const xml = `<?xml version="1.0"?>
+<!-- exported -->
+<x:icalendar xmlns:x="urn:ietf:params:xml:ns:icalendar-2.0">
+  <x:vcalendar>
+    <x:properties><x:version><x:text>2.0</x:text></x:version></x:properties>
+    <x:components>
+      <x:vtodo>
+        <x:properties>
+          <x:summary><x:text><![CDATA[Buy <milk> & eggs]]></x:text></x:summary>
+          <x:priority><x:integer>1</x:integer></x:priority>
+        </x:properties>
+      </x:vtodo>
+    </x:components>
+  </x:vcalendar>
+</x:icalendar>`;
+
+    expect(getFields(fromXCal(xml), ['SUMMARY', 'PRIORITY'])).toEqual({ SUMMARY: 'Buy <milk> & eggs', PRIORITY: '1' });
+  });
+
+  it('throws ParseError with the position of malformed XML', () => {
+    let error: any;
+    try {
+      fromXCal('<icalendar>\n  <vcalendar>\n  </vevent>\n</icalendar>');
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ParseError);
+    expect(error.message).toContain('unexpected </vevent>');
+    expect(error.line).toBe(3);
+    expect(error.column).toBe(3);
+
+    expect(() => fromXCal('<vcards><vcard/></vcards>')).toThrow('expected a single <icalendar> root element');
+  });
+});
+
+describe('xCard', () => {
+  it('round-trips through XML', () => {
+    const xml = toXCard(loadFixture('vcard.vcf'));
+
+    expect(xml).toContain('<vcards xmlns="urn:ietf:params:xml:ns:vcard-4.0">');
+    expect(xml).toContain('<n><surname>Smith</surname><given>Jane</given><additional>Marie</additional><prefix/><suffix/></n>');
+    expect(normalize(fromXCard(xml))).toBe(normalize(loadFixture('vcard.vcf')));
+  });
+
+  it('writes groups and multi-part ORG values', () => {
+    const data = [
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'FN:Jane Smith',
+      'ORG:Example Corp;Research',
+      'item1.EMAIL:jane@example.com',
+      'item1.X-ABLABEL:Private',
+      'END:VCARD',
+    ].join('\r\n');
+
+    const xml = toXCard(data);
+    expect(xml).toContain('<org><text>Example Corp</text><text>Research</text></org>');
+    expect(xml).toMatch(/<group name="item1">\s*<email><text>jane@example.com<\/text><\/email>\s*<x-ablabel>/);
+
+    // ical.js writes group names in uppercase
+    expect(fromXCard(xml)).toBe(fromJCard(toJCard(data)));
+  });
+});
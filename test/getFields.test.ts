@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { getFields } from '../src/getFields';
+import { updateFields } from '../src/updateFields';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+describe('getFields', () => {
+  describe('VEVENT (calendar events)', () => {
+    it('reads requested fields', () => {
+      const vevent = loadFixture('vevent.ics');
+
+      expect(getFields(vevent, ['SUMMARY', 'location', 'DTSTART'])).toEqual({
+        SUMMARY: 'Team Meeting',
+        LOCATION: 'Conference Room A',
+        DTSTART: '20250128T100000Z'
+      });
+    });
+
+    it('reads all fields of the target component', () => {
+      const vevent = loadFixture('vevent.ics');
+      const fields = getFields(vevent);
+
+      expect(Object.keys(fields)).toEqual([
+        'UID', 'DTSTART', 'DTEND', 'DTSTAMP', 'SUMMARY',
+        'LOCATION', 'DESCRIPTION', 'STATUS', 'ORGANIZER'
+      ]);
+      expect(fields.ORGANIZER).toBe('mailto:john@example.com');
+    });
+
+    it('omits missing properties', () => {
+      const vevent = loadFixture('vevent.ics');
+
+      expect(getFields(vevent, ['SUMMARY', 'X-MISSING'])).toEqual({ SUMMARY: 'Team Meeting' });
+    });
+
+    it('returns TZID dates as descriptors', () => {
+      const vevent = updateFields(loadFixture('vevent.ics'), {
+        'DTSTART': { value: '20250310T093000', tzid: 'Europe/Berlin' }
+      });
+
+      expect(getFields(vevent, ['DTSTART'])).toEqual({
+        DTSTART: { value: '20250310T093000', tzid: 'Europe/Berlin' }
+      });
+    });
+
+    it('returns typed dates as JS Dates', () => {
+      const vevent = updateFields(loadFixture('vevent.ics'), {
+        'DTSTART': { value: '20250310T093000', tzid: 'Europe/Berlin' },
+        'DTEND': '20250311'
+      });
+
+      expect(getFields(vevent, ['DTSTART', 'DTEND', 'DTSTAMP'], { typedDates: true })).toEqual({
+        DTSTART: { value: new Date('2025-03-10T08:30:00Z'), tzid: 'Europe/Berlin' },
+        DTEND: { value: new Date('2025-03-11T00:00:00Z'), allDay: true },
+        DTSTAMP: { value: new Date('2025-01-27T12:00:00Z') }
+      });
+    });
+  });
+
+  describe('multi-instance properties', () => {
+    it('returns the first instance by default', () => {
+      const vevent = loadFixture('vevent-attendees.ics');
+
+      expect(getFields(vevent, ['ATTENDEE'])).toEqual({ ATTENDEE: 'mailto:alice@example.com' });
+    });
+
+    it('returns all instances with parameters', () => {
+      const vevent = loadFixture('vevent-attendees.ics');
+
+      expect(getFields(vevent, ['ATTENDEE', 'CATEGORIES'], { all: true, params: true })).toEqual({
+        ATTENDEE: [
+          { value: 'mailto:alice@example.com', params: { CN: 'Alice' } },
+          { value: 'mailto:bob@example.com', params: { CN: 'Bob' } }
+        ],
+        CATEGORIES: ['Work,Planning']
+      });
+    });
+  });
+
+  describe('VCARD (contacts)', () => {
+    it('reads structured and parameterized properties', () => {
+      const vcard = loadFixture('vcard.vcf');
+
+      expect(getFields(vcard, ['FN', 'N', 'EMAIL'], { params: true })).toEqual({
+        FN: 'Jane Smith',
+        N: { family: 'Smith', given: 'Jane', additional: 'Marie', prefix: '', suffix: '' },
+        EMAIL: { value: 'jane.smith@example.com', params: { TYPE: 'INTERNET' } }
+      });
+    });
+  });
+
+  describe('round-trip with updateFields', () => {
+    it.each([
+      ['vevent.ics', {}],
+      ['vevent-attendees.ics', { all: true, params: true }],
+      ['vtodo.ics', { all: true }],
+      ['vcard.vcf', { all: true, params: true }]
+    ])('writes %s back unchanged (%o)', (fixture, options) => {
+      const original = loadFixture(fixture);
+      const fields = getFields(original, undefined, options);
+      const updated = updateFields(original, fields);
+
+      expect(getFields(updated, undefined, options)).toEqual(fields);
+      expect(updated).toBe(updateFields(original, {}));
+    });
+
+    it('round-trips typed dates', () => {
+      const original = updateFields(loadFixture('vevent.ics'), {
+        'DTSTART': { value: '20250310T093000', tzid: 'America/New_York' },
+        'DTEND': { value: '20250311', allDay: true }
+      });
+      const fields = getFields(original, undefined, { typedDates: true });
+
+      expect(updateFields(original, fields)).toBe(updateFields(original, {}));
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { createContactGroup, getGroupMembers, addGroupMembers, removeGroupMembers } from '../src/groups';
+import { getFields } from '../src/getFields';
+import { InvalidInputError } from '../src/errors';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+const appleGroup = [
+  'BEGIN:VCARD',
+  'VERSION:3.0',
+  'UID:group-1',
+  'FN:Team',
+  'N:Team;;;;',
+  'X-ADDRESSBOOKSERVER-KIND:group',
+  'X-ADDRESSBOOKSERVER-MEMBER:urn:uuid:contact-1',
+  'X-ADDRESSBOOKSERVER-MEMBER:urn:uuid:contact-2',
+  'END:VCARD',
+  '',
+].join('\r\n');
+
+describe('createContactGroup', () => {
+  it('creates a vCard 3.0 group with X-ADDRESSBOOKSERVER properties', () => {
+    const { data, uid, filename } = createContactGroup('Team', ['contact-1', 'mailto:guest@example.com'], { uid: 'group-1' });
+
+    expect(uid).toBe('group-1');
+    expect(filename).toBe('group-1.vcf');
+    expect(data).toContain('FN:Team');
+    expect(data).toContain('N:Team;;;;');
+    expect(data).toContain('X-ADDRESSBOOKSERVER-KIND:group');
+    expect(data).toContain('X-ADDRESSBOOKSERVER-MEMBER:urn:uuid:contact-1');
+    expect(data).toContain('X-ADDRESSBOOKSERVER-MEMBER:mailto:guest@example.com');
+  });
+
+  it('creates a vCard 4.0 group with KIND and MEMBER', () => {
+    const { data } = createContactGroup('Team', ['contact-1', 'contact-1'], { version: '4.0' });
+
+    expect(getFields(data, ['VERSION', 'KIND', 'MEMBER'], { all: true })).toEqual({
+      VERSION: ['4.0'],
+      KIND: ['group'],
+      MEMBER: ['urn:uuid:contact-1'],
+    });
+  });
+});
+
+describe('getGroupMembers', () => {
+  it('lists member UIDs', () => {
+    expect(getGroupMembers(appleGroup)).toEqual(['contact-1', 'contact-2']);
+    expect(getGroupMembers({ data: createContactGroup('Team', ['a', 'https://example.com/b.vcf'], { version: '4.0' }).data }))
+      .toEqual(['a', 'https://example.com/b.vcf']);
+  });
+
+  it('throws for contacts that are not groups', () => {
+    expect(() => getGroupMembers(loadFixture('vcard.vcf'))).toThrow(InvalidInputError);
+    expect(() => getGroupMembers(loadFixture('vevent.ics'))).toThrow(InvalidInputError);
+  });
+});
+
+describe('addGroupMembers', () => {
+  it('adds members in the dialect of the group and skips existing ones', () => {
+    const updated = addGroupMembers(appleGroup, ['contact-2', 'urn:uuid:contact-3']);
+
+    expect(updated).toContain('X-ADDRESSBOOKSERVER-MEMBER:urn:uuid:contact-3');
+    expect(updated).not.toContain('\nMEMBER');
+    expect(getGroupMembers(updated)).toEqual(['contact-1', 'contact-2', 'contact-3']);
+
+    const v4 = addGroupMembers(createContactGroup('Team', [], { version: '4.0' }).data, 'contact-1');
+    expect(v4).toContain('MEMBER:urn:uuid:contact-1');
+    expect(v4).not.toContain('X-ADDRESSBOOKSERVER-MEMBER');
+  });
+
+  it('updates REV with change tracking', () => {
+    const now = new Date('2025-02-01T12:00:00Z');
+
+    expect(addGroupMembers(appleGroup, 'contact-3', { tracking: { now } })).toContain('REV:20250201T120000Z');
+    expect(addGroupMembers(appleGroup, 'contact-1', { tracking: { now } })).not.toContain('REV');
+  });
+});
+
+describe('removeGroupMembers', () => {
+  it('removes members by UID or URI', () => {
+    const updated = removeGroupMembers(appleGroup, ['urn:uuid:contact-1', 'contact-9']);
+
+    expect(getGroupMembers(updated)).toEqual(['contact-2']);
+    expect(getGroupMembers(removeGroupMembers(updated, 'contact-2'))).toEqual([]);
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeAll } from 'vitest';
 import { createDAVClient, DAVClient, DAVCalendar } from 'tsdav';
 import { config } from 'dotenv';
-import { updateFields } from '../src';
+import { createEvent, createTodo, updateFields } from '../src';
 
 // Load environment variables
 config();
@@ -50,25 +50,19 @@ describe('Real-World Integration Tests', () => {
         const testId = generateTestId();
 
         // Create initial event
-        const initialEvent = `BEGIN:VCALENDAR
-VERSION:2.0
-PRODID:-//tsdav-utils//Integration Test//EN
-BEGIN:VEVENT
-UID:${testId}
-DTSTART:20250201T100000Z
-DTEND:20250201T110000Z
-DTSTAMP:20250128T000000Z
-SUMMARY:Original Test Event
-LOCATION:Test Location
-DESCRIPTION:Original description
-END:VEVENT
-END:VCALENDAR`;
+        const initialEvent = createEvent({
+          'DTSTART': '20250201T100000Z',
+          'DTEND': '20250201T110000Z',
+          'SUMMARY': 'Original Test Event',
+          'LOCATION': 'Test Location',
+          'DESCRIPTION': 'Original description',
+        }, { uid: testId, prodId: '-//tsdav-utils//Integration Test//EN' });
 
         // Create event on server
         const createResponse = await client.createCalendarObject({
           calendar,
-          filename: `${testId}.ics`,
-          iCalString: initialEvent,
+          filename: initialEvent.filename,
+          iCalString: initialEvent.data,
         });
 
         expect(createResponse.ok).toBe(true);
@@ -122,26 +116,20 @@ END:VCALENDAR`;
       it('should preserve unmodified fields', async () => {
         const testId = generateTestId();
 
-        const initialEvent = `BEGIN:VCALENDAR
-VERSION:2.0
-PRODID:-//tsdav-utils//Integration Test//EN
-BEGIN:VEVENT
-UID:${testId}
-DTSTART:20250202T140000Z
-DTEND:20250202T150000Z
-DTSTAMP:20250128T000000Z
-SUMMARY:Field Preservation Test
-LOCATION:Original Location
-DESCRIPTION:Original Description
-STATUS:CONFIRMED
-ORGANIZER:mailto:test@example.com
-END:VEVENT
-END:VCALENDAR`;
+        const initialEvent = createEvent({
+          'DTSTART': '20250202T140000Z',
+          'DTEND': '20250202T150000Z',
+          'SUMMARY': 'Field Preservation Test',
+          'LOCATION': 'Original Location',
+          'DESCRIPTION': 'Original Description',
+          'STATUS': 'CONFIRMED',
+          'ORGANIZER': 'mailto:test@example.com',
+        }, { uid: testId, prodId: '-//tsdav-utils//Integration Test//EN' });
 
         await client.createCalendarObject({
           calendar,
-          filename: `${testId}.ics`,
-          iCalString: initialEvent,
+          filename: initialEvent.filename,
+          iCalString: initialEvent.data,
         });
 
         const events = await client.fetchCalendarObjects({ calendar });
@@ -204,23 +192,17 @@ END:VCALENDAR`;
       it('should create and update a todo', async () => {
         const testId = generateTestId();
 
-        const initialTodo = `BEGIN:VCALENDAR
-VERSION:2.0
-PRODID:-//tsdav-utils//Integration Test//EN
-BEGIN:VTODO
-UID:${testId}
-DTSTAMP:20250128T000000Z
-SUMMARY:Original Todo
-STATUS:NEEDS-ACTION
-PRIORITY:5
-DESCRIPTION:Original todo description
-END:VTODO
-END:VCALENDAR`;
+        const initialTodo = createTodo({
+          'SUMMARY': 'Original Todo',
+          'STATUS': 'NEEDS-ACTION',
+          'PRIORITY': '5',
+          'DESCRIPTION': 'Original todo description',
+        }, { uid: testId, prodId: '-//tsdav-utils//Integration Test//EN' });
 
         await client.createCalendarObject({
           calendar,
-          filename: `${testId}.ics`,
-          iCalString: initialTodo,
+          filename: initialTodo.filename,
+          iCalString: initialTodo.data,
         });
 
         // Small delay to let server process
@@ -288,22 +270,16 @@ END:VCALENDAR`;
       it('should handle custom X-* properties', async () => {
         const testId = generateTestId();
 
-        const initialEvent = `BEGIN:VCALENDAR
-VERSION:2.0
-PRODID:-//tsdav-utils//Integration Test//EN
-BEGIN:VEVENT
-UID:${testId}
-DTSTART:20250203T100000Z
-DTEND:20250203T110000Z
-DTSTAMP:20250128T000000Z
-SUMMARY:Custom Properties Test
-END:VEVENT
-END:VCALENDAR`;
+        const initialEvent = createEvent({
+          'DTSTART': '20250203T100000Z',
+          'DTEND': '20250203T110000Z',
+          'SUMMARY': 'Custom Properties Test',
+        }, { uid: testId, prodId: '-//tsdav-utils//Integration Test//EN' });
 
         await client.createCalendarObject({
           calendar,
-          filename: `${testId}.ics`,
-          iCalString: initialEvent,
+          filename: initialEvent.filename,
+          iCalString: initialEvent.data,
         });
 
         const events = await client.fetchCalendarObjects({ calendar });
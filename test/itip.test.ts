@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import ICAL from 'ical.js';
+import { createCancel, createCounter, createReply, createRequest } from '../src/itip';
+import { addAlarm } from '../src/alarms';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+const parse = (ical: string) => new ICAL.Component(ICAL.parse(ical));
+
+const now = new Date('2025-02-01T12:00:00Z');
+
+describe('iTIP messages', () => {
+  describe('createRequest', () => {
+    it('applies changes, bumps SEQUENCE and addresses all attendees', () => {
+      const message = createRequest(loadFixture('vevent-attendees.ics'), {
+        'DTSTART': '20250128T140000Z',
+        'DTEND': '20250128T150000Z',
+      }, { now });
+
+      const calendar = parse(message.data);
+      const event = calendar.getFirstSubcomponent('vevent')!;
+
+      expect(message.method).toBe('REQUEST');
+      expect(calendar.getFirstPropertyValue('method')).toBe('REQUEST');
+      expect(event.getFirstPropertyValue('sequence')).toBe(1);
+      expect(event.getFirstPropertyValue('dtstamp')!.toString()).toBe('2025-02-01T12:00:00Z');
+      expect(message.recipients).toEqual(['mailto:alice@example.com', 'mailto:bob@example.com']);
+
+      // The stored copy carries the same change but no METHOD
+      expect(message.updated).toContain('DTSTART:20250128T140000Z');
+      expect(message.updated).toContain('SEQUENCE:1');
+      expect(message.updated).not.toContain('METHOD');
+    });
+
+    it('includes the overrides of a recurring series and the VTIMEZONEs they use', () => {
+      const ics = loadFixture('vevent-recurring.ics')
+        .replace('END:VCALENDAR', [
+          'BEGIN:VTIMEZONE',
+          'TZID:Europe/Berlin',
+          'BEGIN:STANDARD',
+          'DTSTART:19701025T030000',
+          'TZOFFSETFROM:+0200',
+          'TZOFFSETTO:+0100',
+          'END:STANDARD',
+          'END:VTIMEZONE',
+          'END:VCALENDAR',
+        ].join('\r\n'));
+      const calendar = parse(createRequest(ics).data);
+
+      expect(calendar.getAllSubcomponents().map((sub) => sub.name)).toEqual(['vtimezone', 'vevent', 'vevent']);
+    });
+
+    it('does not bump SEQUENCE for a plain re-send', () => {
+      const message = createRequest(loadFixture('vevent-attendees.ics'), {}, { now });
+      expect(parse(message.data).getFirstSubcomponent('vevent')!.hasProperty('sequence')).toBe(false);
+    });
+  });
+
+  describe('createReply', () => {
+    it('sets PARTSTAT for one attendee and replies to the organizer', () => {
+      const message = createReply(loadFixture('vevent-attendees.ics'), 'alice@example.com', 'ACCEPTED', {
+        now,
+        comment: 'See you there',
+      });
+      const event = parse(message.data).getFirstSubcomponent('vevent')!;
+      const attendees = event.getAllProperties('attendee');
+
+      expect(message.method).toBe('REPLY');
+      expect(message.recipients).toEqual(['mailto:john@example.com']);
+      expect(attendees).toHaveLength(1);
+      expect(attendees[0].getFirstValue()).toBe('mailto:alice@example.com');
+      expect(attendees[0].getFirstParameter('partstat')).toBe('ACCEPTED');
+      expect(event.getFirstPropertyValue('comment')).toBe('See you there');
+
+      expect(message.updated).toContain('ATTENDEE;CN=Alice;PARTSTAT=ACCEPTED:mailto:alice@example.com');
+      expect(message.updated).toContain('ATTENDEE;CN=Bob:mailto:bob@example.com');
+    });
+
+    it('replies to a single occurrence through an override', () => {
+      const ics = loadFixture('vevent-recurring.ics')
+        .replace(/LOCATION:Room 1/g, 'ORGANIZER:mailto:john@example.com\r\nATTENDEE:mailto:jane@example.com');
+      const message = createReply(ics, 'mailto:jane@example.com', 'DECLINED', {
+        occurrence: { recurrenceId: '20250127T090000' },
+      });
+
+      const reply = parse(message.data).getFirstSubcomponent('vevent')!;
+      expect(reply.getFirstPropertyValue('recurrence-id')!.toString()).toBe('2025-01-27T09:00:00');
+      expect(parse(message.updated).getAllSubcomponents('vevent')).toHaveLength(3);
+    });
+
+    it('leaves alarms out of the reply', () => {
+      const ics = addAlarm(loadFixture('vevent-attendees.ics'), { trigger: '-PT15M' });
+      const message = createReply(ics, 'alice@example.com', 'ACCEPTED', { now });
+
+      expect(message.data).not.toContain('BEGIN:VALARM');
+      expect(message.updated).toContain('BEGIN:VALARM');
+    });
+
+    it('rejects unknown attendees', () => {
+      expect(() => createReply(loadFixture('vevent-attendees.ics'), 'eve@example.com', 'ACCEPTED'))
+        .toThrow('Cannot reply: eve@example.com is not an attendee');
+    });
+  });
+
+  describe('createCancel', () => {
+    it('cancels the event for everyone', () => {
+      const message = createCancel(loadFixture('vevent-attendees.ics'), { now });
+      const event = parse(message.data).getFirstSubcomponent('vevent')!;
+
+      expect(message.method).toBe('CANCEL');
+      expect(event.getFirstPropertyValue('status')).toBe('CANCELLED');
+      expect(event.getFirstPropertyValue('sequence')).toBe(1);
+      expect(message.recipients).toEqual(['mailto:alice@example.com', 'mailto:bob@example.com']);
+      expect(message.updated).toContain('STATUS:CANCELLED');
+    });
+
+    it('leaves alarms out of the cancellation', () => {
+      const ics = addAlarm(loadFixture('vevent-attendees.ics'), { trigger: '-PT15M' });
+
+      expect(createCancel(ics, { now }).data).not.toContain('BEGIN:VALARM');
+    });
+
+    it('cancels for removed attendees only', () => {
+      const message = createCancel(loadFixture('vevent-attendees.ics'), { attendees: ['bob@example.com'], now });
+      const event = parse(message.data).getFirstSubcomponent('vevent')!;
+
+      expect(event.getAllProperties('attendee').map((property) => property.getFirstValue()))
+        .toEqual(['mailto:bob@example.com']);
+      expect(event.getFirstPropertyValue('status')).toBe('CANCELLED');
+      expect(message.recipients).toEqual(['mailto:bob@example.com']);
+      expect(message.data).toContain('ATTENDEE;CN=Bob:mailto:bob@example.com');
+
+      expect(message.updated).not.toContain('bob@example.com');
+      expect(message.updated).not.toContain('STATUS:CANCELLED');
+      expect(message.updated).toContain('SEQUENCE:1');
+    });
+  });
+
+  describe('createCounter', () => {
+    it('proposes changes without touching the stored object', () => {
+      const ics = loadFixture('vevent-attendees.ics');
+      const message = createCounter(ics, { 'DTSTART': '20250129T100000Z', 'DTEND': '20250129T110000Z' }, {
+        attendee: 'bob@example.com',
+        comment: 'Wednesday works better',
+      });
+      const event = parse(message.data).getFirstSubcomponent('vevent')!;
+
+      expect(message.method).toBe('COUNTER');
+      expect(event.getFirstPropertyValue('dtstart')!.toString()).toBe('2025-01-29T10:00:00Z');
+      expect(event.getAllProperties('attendee')).toHaveLength(1);
+      expect(event.hasProperty('sequence')).toBe(false);
+      expect(message.recipients).toEqual(['mailto:john@example.com']);
+      expect(message.updated).toContain('DTSTART:20250128T100000Z');
+    });
+  });
+});
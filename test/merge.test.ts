@@ -0,0 +1,232 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import ICAL from 'ical.js';
+import { mergeFields } from '../src/merge';
+import { updateFields } from '../src/updateFields';
+import { addAlarm, removeAlarm } from '../src/alarms';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+const parse = (ical: string) => new ICAL.Component(ICAL.parse(ical));
+
+describe('mergeFields', () => {
+  it('combines changes to different properties', () => {
+    const base = loadFixture('vevent.ics');
+    const local = updateFields(base, { 'LOCATION': 'Room 2' });
+    const remote = updateFields(base, { 'SUMMARY': 'Team Sync', 'DESCRIPTION': null });
+
+    const { data, conflicts } = mergeFields(base, local, remote);
+    const event = parse(data).getFirstSubcomponent('vevent')!;
+
+    expect(conflicts).toEqual([]);
+    expect(event.getFirstPropertyValue('location')).toBe('Room 2');
+    expect(event.getFirstPropertyValue('summary')).toBe('Team Sync');
+    expect(event.hasProperty('description')).toBe(false);
+  });
+
+  it('resolves conflicting changes in favour of the local side by default', () => {
+    const base = loadFixture('vevent.ics');
+    const local = updateFields(base, { 'SUMMARY': 'Local title' });
+    const remote = updateFields(base, { 'SUMMARY': 'Remote title' });
+
+    const { data, conflicts } = mergeFields(base, local, remote);
+
+    expect(data).toContain('SUMMARY:Local title');
+    expect(conflicts).toEqual([{
+      component: { type: 'VEVENT', uid: 'test-event-12345@example.com', index: 0 },
+      property: 'SUMMARY',
+      base: 'Team Meeting',
+      local: 'Local title',
+      remote: 'Remote title',
+      resolution: 'local',
+    }]);
+  });
+
+  it('keeps the remote side with resolve: remote', () => {
+    const base = loadFixture('vevent.ics');
+    const local = updateFields(base, { 'SUMMARY': 'Local title', 'LOCATION': 'Room 2' });
+    const remote = updateFields(base, { 'SUMMARY': 'Remote title' });
+
+    const { data, conflicts } = mergeFields(base, local, remote, { resolve: 'remote' });
+
+    expect(data).toContain('SUMMARY:Remote title');
+    expect(data).toContain('LOCATION:Room 2');
+    expect(conflicts[0].resolution).toBe('remote');
+  });
+
+  it('asks a callback per conflict', () => {
+    const base = loadFixture('vevent.ics');
+    const local = updateFields(base, { 'SUMMARY': 'Local title', 'LOCATION': 'Room 2' });
+    const remote = updateFields(base, { 'SUMMARY': 'Remote title', 'LOCATION': null });
+
+    const seen: string[] = [];
+    const { data, conflicts } = mergeFields(base, local, remote, {
+      resolve: (conflict) => {
+        seen.push(`${conflict.property}:${conflict.removedBy ?? ''}`);
+        return conflict.property === 'SUMMARY' ? 'remote' : 'local';
+      },
+    });
+
+    expect(seen).toEqual(['SUMMARY:', 'LOCATION:remote']);
+    expect(data).toContain('SUMMARY:Remote title');
+    expect(data).toContain('LOCATION:Room 2');
+    expect(conflicts.map((conflict) => conflict.resolution)).toEqual(['remote', 'local']);
+  });
+
+  it('rejects an invalid resolution from the callback', () => {
+    const base = loadFixture('vevent.ics');
+    const local = updateFields(base, { 'SUMMARY': 'Local title' });
+    const remote = updateFields(base, { 'SUMMARY': 'Remote title' });
+
+    expect(() => mergeFields(base, local, remote, { resolve: () => 'both' as any }))
+      .toThrow('Invalid conflict resolution "both"');
+  });
+
+  it('merges attendees instance by instance', () => {
+    const base = loadFixture('vevent-attendees.ics');
+    const local = base
+      .replace('ATTENDEE;CN=Alice:', 'ATTENDEE;CN=Alice;PARTSTAT=ACCEPTED:')
+      .replace('END:VEVENT', 'ATTENDEE;CN=Carol:mailto:carol@example.com\r\nEND:VEVENT');
+    const remote = base
+      .replace(/ATTENDEE;CN=Bob:mailto:bob@example.com\r?\n/, '')
+      .replace('END:VEVENT', 'ATTENDEE;CN=Dave:mailto:dave@example.com\r\nEND:VEVENT');
+
+    const { data, conflicts } = mergeFields(base, local, remote);
+    const attendees = parse(data).getFirstSubcomponent('vevent')!.getAllProperties('attendee');
+
+    expect(conflicts).toEqual([]);
+    expect(attendees.map((attendee) => attendee.toICALString())).toEqual([
+      'ATTENDEE;CN=Alice;PARTSTAT=ACCEPTED:mailto:alice@example.com',
+      'ATTENDEE;CN=Dave:mailto:dave@example.com',
+      'ATTENDEE;CN=Carol:mailto:carol@example.com',
+    ]);
+  });
+
+  it('reports conflicting parameter changes on the same attendee', () => {
+    const base = loadFixture('vevent-attendees.ics');
+    const local = base.replace('ATTENDEE;CN=Bob:', 'ATTENDEE;CN=Bob;PARTSTAT=ACCEPTED:');
+    const remote = base.replace('ATTENDEE;CN=Bob:', 'ATTENDEE;CN=Bob;PARTSTAT=DECLINED:');
+
+    const { data, conflicts } = mergeFields(base, local, remote, { resolve: 'remote' });
+
+    expect(data).toContain('PARTSTAT=DECLINED');
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      property: 'ATTENDEE',
+      local: { value: 'mailto:bob@example.com', params: { PARTSTAT: 'ACCEPTED' } },
+      remote: { value: 'mailto:bob@example.com', params: { PARTSTAT: 'DECLINED' } },
+    });
+  });
+
+  it('merges list values added on both sides', () => {
+    const base = updateFields(loadFixture('vevent.ics'), { 'CATEGORIES': 'Work' });
+    const local = updateFields(base, { 'CATEGORIES': 'Work,LocalCat' });
+    const remote = updateFields(base, { 'CATEGORIES': 'Work,Planning' });
+
+    const { data, conflicts } = mergeFields(base, local, remote);
+
+    expect(data).toContain('CATEGORIES:Work,Planning,LocalCat');
+    expect(conflicts).toEqual([]);
+
+    const removedLocally = updateFields(base, { 'CATEGORIES': 'LocalCat' });
+    const merged = mergeFields(base, removedLocally, remote, { resolve: 'remote' });
+
+    expect(merged.data).toContain('CATEGORIES:Work,Planning,LocalCat');
+    expect(merged.conflicts).toEqual([expect.objectContaining({
+      property: 'CATEGORIES',
+      base: 'Work',
+      remote: 'Work',
+      removedBy: 'local',
+      resolution: 'remote',
+    })]);
+  });
+
+  it('takes the later change tracking values without reporting conflicts', () => {
+    const base = loadFixture('vevent.ics');
+    const local = updateFields(base, { 'LOCATION': 'Room 2' }, {
+      tracking: { now: new Date('2025-02-02T10:00:00Z'), significantFields: ['LOCATION'] },
+    });
+    const remote = updateFields(base, { 'DTSTART': '20250128T090000Z' }, {
+      tracking: { now: new Date('2025-02-01T10:00:00Z') },
+    });
+    const twice = updateFields(remote, { 'STATUS': 'TENTATIVE' }, {
+      tracking: { now: new Date('2025-02-01T11:00:00Z') },
+    });
+
+    const { data, conflicts } = mergeFields(base, local, twice);
+    const event = parse(data).getFirstSubcomponent('vevent')!;
+
+    expect(conflicts).toEqual([]);
+    expect(event.getFirstPropertyValue('sequence')).toBe(2);
+    expect(event.getFirstPropertyValue('dtstamp')!.toString()).toBe('2025-02-02T10:00:00Z');
+    expect(event.getFirstPropertyValue('last-modified')!.toString()).toBe('2025-02-02T10:00:00Z');
+  });
+
+  it('carries over added and removed alarms and overrides', () => {
+    const base = loadFixture('vevent-alarms.ics');
+    const local = addAlarm(base, { trigger: '-P1D', uid: 'alarm-day-before@example.com' });
+    const remote = removeAlarm(base, 'alarm-email@example.com');
+
+    const { data, conflicts } = mergeFields(base, local, remote);
+    const alarms = parse(data).getFirstSubcomponent('vevent')!.getAllSubcomponents('valarm');
+
+    expect(conflicts).toEqual([]);
+    expect(alarms.map((alarm) => alarm.getFirstPropertyValue('uid') ?? alarm.getFirstPropertyValue('x-wr-alarmuid')))
+      .toEqual(['8E5A1F3C-0B7D-4A2B-9C1E-2F4D6A8B0C1D', 'alarm-day-before@example.com']);
+
+    const recurring = loadFixture('vevent-recurring.ics');
+    const withOverride = updateFields(recurring, { 'SUMMARY': 'Standup (remote)' }, {
+      occurrence: { recurrenceId: '20250127T090000', tzid: 'Europe/Berlin' },
+    });
+    const merged = mergeFields(recurring, updateFields(recurring, { 'LOCATION': 'Room 3' }), withOverride);
+
+    expect(parse(merged.data).getAllSubcomponents('vevent')).toHaveLength(3);
+    expect(merged.data).toContain('SUMMARY:Standup (remote)');
+  });
+
+  it('reports an override removed locally but changed remotely', () => {
+    const base = loadFixture('vevent-recurring.ics');
+    const override = 'RECURRENCE-ID;TZID=Europe/Berlin:20250113T090000';
+    const local = base.replace(/BEGIN:VEVENT\r?\nUID:test-recurring-777@example.com\r?\nRECURRENCE-ID[\s\S]*?END:VEVENT\r?\n/, '');
+    const remote = updateFields(base, { 'LOCATION': 'Room 9' }, {
+      occurrence: { recurrenceId: '20250113T090000', tzid: 'Europe/Berlin' },
+    });
+
+    expect(local).not.toContain(override);
+
+    const { data, conflicts } = mergeFields(base, local, remote, { resolve: 'remote' });
+
+    expect(data).toContain(override);
+    expect(conflicts).toEqual([{
+      component: expect.objectContaining({ type: 'VEVENT', recurrenceId: '20250113T090000' }),
+      removedBy: 'local',
+      resolution: 'remote',
+    }]);
+  });
+
+  it('merges vCards and passes through the remote url and etag', () => {
+    const base = loadFixture('vcard.vcf');
+    const local = updateFields(base, { 'TITLE': 'Lead Developer' });
+    const remote = {
+      url: 'https://dav.example.com/contacts/jane.vcf',
+      etag: '"v2"',
+      data: updateFields(base, { 'NOTE': 'Met at conference' }),
+    };
+
+    const merged = mergeFields({ data: base }, local, remote);
+
+    expect(merged.url).toBe(remote.url);
+    expect(merged.etag).toBe('"v2"');
+    expect(merged.data).toContain('TITLE:Lead Developer');
+    expect(merged.data).toContain('NOTE:Met at conference');
+  });
+
+  it('rejects merging different object types', () => {
+    expect(() => mergeFields(loadFixture('vevent.ics'), loadFixture('vcard.vcf'), loadFixture('vevent.ics')))
+      .toThrow('Cannot merge different object types: VCALENDAR, VCARD');
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import ICAL from 'ical.js';
+import { applyPropertyOperations } from '../src/properties';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+const getEvent = (ical: string) => {
+  return new ICAL.Component(ICAL.parse(ical)).getFirstSubcomponent('vevent')!;
+};
+
+const attendees = (ical: string) => {
+  return getEvent(ical).getAllProperties('attendee').map((p) => p.getFirstValue());
+};
+
+describe('applyPropertyOperations', () => {
+  describe('append', () => {
+    it('adds an ATTENDEE without touching existing ones', () => {
+      const vevent = loadFixture('vevent-attendees.ics');
+      const updated = applyPropertyOperations(vevent, [
+        { op: 'append', name: 'ATTENDEE', value: 'mailto:carol@example.com' }
+      ]);
+
+      expect(attendees(updated)).toEqual([
+        'mailto:alice@example.com',
+        'mailto:bob@example.com',
+        'mailto:carol@example.com'
+      ]);
+    });
+
+    it('adds a value to the existing CATEGORIES list', () => {
+      const vevent = loadFixture('vevent-attendees.ics');
+      const updated = applyPropertyOperations(vevent, [
+        { op: 'append', name: 'CATEGORIES', value: 'Project-X' }
+      ]);
+
+      expect(updated).toContain('CATEGORIES:Work,Planning,Project-X');
+    });
+
+    it('creates the property when missing', () => {
+      const vevent = loadFixture('vevent.ics');
+      const updated = applyPropertyOperations(vevent, [
+        { op: 'append', name: 'ATTENDEE', value: 'mailto:jane@example.com' }
+      ]);
+
+      expect(attendees(updated)).toEqual(['mailto:jane@example.com']);
+    });
+  });
+
+  describe('remove', () => {
+    it('removes the matching ATTENDEE (case-insensitive)', () => {
+      const vevent = loadFixture('vevent-attendees.ics');
+      const updated = applyPropertyOperations(vevent, [
+        { op: 'remove', name: 'ATTENDEE', value: 'mailto:BOB@example.com' }
+      ]);
+
+      expect(attendees(updated)).toEqual(['mailto:alice@example.com']);
+    });
+
+    it('removes a single value from CATEGORIES', () => {
+      const vevent = loadFixture('vevent-attendees.ics');
+      const updated = applyPropertyOperations(vevent, [
+        { op: 'remove', name: 'CATEGORIES', value: 'Planning' }
+      ]);
+
+      expect(updated).toContain('CATEGORIES:Work\r\n');
+    });
+
+    it('removes by index', () => {
+      const vevent = loadFixture('vevent-attendees.ics');
+      const updated = applyPropertyOperations(vevent, [
+        { op: 'remove', name: 'ATTENDEE', index: 0 }
+      ]);
+
+      expect(attendees(updated)).toEqual(['mailto:bob@example.com']);
+    });
+
+    it('removes all instances without value or index', () => {
+      const vevent = loadFixture('vevent-attendees.ics');
+      const updated = applyPropertyOperations(vevent, [
+        { op: 'remove', name: 'ATTENDEE' }
+      ]);
+
+      expect(updated).not.toContain('ATTENDEE');
+      expect(updated).toContain('ORGANIZER');
+    });
+  });
+
+  describe('replace', () => {
+    it('replaces all CATEGORIES', () => {
+      const vevent = loadFixture('vevent-attendees.ics');
+      const updated = applyPropertyOperations(vevent, [
+        { op: 'replace', name: 'CATEGORIES', values: ['Meeting', 'Q1'] }
+      ]);
+
+      expect(getEvent(updated).getFirstProperty('categories')?.getValues()).toEqual(['Meeting', 'Q1']);
+    });
+
+    it('replaces all ATTENDEEs', () => {
+      const vevent = loadFixture('vevent-attendees.ics');
+      const updated = applyPropertyOperations(vevent, [
+        { op: 'replace', name: 'ATTENDEE', values: ['mailto:x@example.com', 'mailto:y@example.com'] }
+      ]);
+
+      expect(attendees(updated)).toEqual(['mailto:x@example.com', 'mailto:y@example.com']);
+    });
+  });
+
+  describe('set', () => {
+    it('sets the second TEL on a vCard', () => {
+      const vcard = loadFixture('vcard.vcf');
+      const withTwo = applyPropertyOperations(vcard, [
+        { op: 'append', name: 'TEL', value: '+4930123456' }
+      ]);
+      const updated = applyPropertyOperations(withTwo, [
+        { op: 'set', name: 'TEL', index: 1, value: '+4930999999' }
+      ]);
+
+      const component = new ICAL.Component(ICAL.parse(updated));
+      expect(component.getAllProperties('tel').map((p) => p.getFirstValue())).toEqual([
+        '+1234567890',
+        '+4930999999'
+      ]);
+    });
+
+    it('throws when no instance exists at index', () => {
+      const vcard = loadFixture('vcard.vcf');
+
+      expect(() => {
+        applyPropertyOperations(vcard, [
+          { op: 'set', name: 'TEL', index: 3, value: '+4930999999' }
+        ]);
+      }).toThrow(/no instance at index 3/);
+    });
+  });
+
+  it('applies operations in order on VTODO', () => {
+    const vtodo = loadFixture('vtodo.ics');
+    const updated = applyPropertyOperations(vtodo, [
+      { op: 'append', name: 'CATEGORIES', value: 'Docs' },
+      { op: 'append', name: 'CATEGORIES', value: 'Release' },
+      { op: 'remove', name: 'CATEGORIES', value: 'Docs' }
+    ]);
+
+    const todo = new ICAL.Component(ICAL.parse(updated)).getFirstSubcomponent('vtodo');
+    expect(todo?.getFirstProperty('categories')?.getValues()).toEqual(['Release']);
+  });
+});
@@ -0,0 +1,345 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import ICAL from 'ical.js';
+import { updateFields, updateComponents } from '../src/updateFields';
+import { InvalidInputError } from '../src/errors';
+import { getFields } from '../src/getFields';
+import {
+  buildRecurrenceRule,
+  expandOccurrences,
+  parseRecurrenceRule,
+  updateRecurrenceRule
+} from '../src/recurrence';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+const getEvents = (ical: string) => {
+  return new ICAL.Component(ICAL.parse(ical)).getAllSubcomponents('vevent');
+};
+
+describe('Recurring event occurrences', () => {
+  it('updates the master by default', () => {
+    const ics = loadFixture('vevent-recurring.ics');
+    const updated = updateFields(ics, { 'LOCATION': 'Room 2' });
+
+    const [master, override] = getEvents(updated);
+    expect(master.getFirstPropertyValue('location')).toBe('Room 2');
+    expect(override.getFirstPropertyValue('location')).toBe('Room 1');
+  });
+
+  it('picks the master even when an override comes first', () => {
+    const ics = loadFixture('vevent-recurring.ics');
+    const [master, override] = getEvents(ics);
+    const root = new ICAL.Component(ICAL.parse(ics));
+    root.removeAllSubcomponents('vevent');
+    root.addSubcomponent(override);
+    root.addSubcomponent(master);
+
+    const updated = updateFields(root.toString(), { 'LOCATION': 'Room 2' }, { occurrence: 'master' });
+    const events = getEvents(updated);
+    expect(events[0].getFirstPropertyValue('location')).toBe('Room 1');
+    expect(events[1].getFirstPropertyValue('location')).toBe('Room 2');
+  });
+
+  it('updates an existing override by RECURRENCE-ID', () => {
+    const ics = loadFixture('vevent-recurring.ics');
+    const updated = updateFields(ics, { 'LOCATION': 'Room 3' }, {
+      occurrence: { recurrenceId: '20250113T090000' }
+    });
+
+    const events = getEvents(updated);
+    expect(events).toHaveLength(2);
+    expect(events[0].getFirstPropertyValue('location')).toBe('Room 1');
+    expect(events[1].getFirstPropertyValue('location')).toBe('Room 3');
+  });
+
+  it('matches RECURRENCE-ID given as a UTC instant', () => {
+    const ics = loadFixture('vevent-recurring.ics');
+    const updated = updateFields(ics, { 'LOCATION': 'Room 3' }, {
+      occurrence: { recurrenceId: new Date('2025-01-13T08:00:00Z') }
+    });
+
+    expect(getEvents(updated)[1].getFirstPropertyValue('location')).toBe('Room 3');
+  });
+
+  it('creates an override from the master for a new occurrence', () => {
+    const ics = loadFixture('vevent-recurring.ics');
+    const updated = updateFields(ics, { 'SUMMARY': 'Standup (remote)' }, {
+      occurrence: { recurrenceId: '20250127T090000' }
+    });
+
+    const events = getEvents(updated);
+    expect(events).toHaveLength(3);
+    expect(updated).toContain('RECURRENCE-ID;TZID=Europe/Berlin:20250127T090000');
+    expect(updated).toContain('DTSTART;TZID=Europe/Berlin:20250127T090000');
+    expect(updated).toContain('DTEND;TZID=Europe/Berlin:20250127T093000');
+
+    const override = events[2];
+    expect(override.getFirstPropertyValue('summary')).toBe('Standup (remote)');
+    expect(override.getFirstPropertyValue('location')).toBe('Room 1');
+    expect(override.hasProperty('rrule')).toBe(false);
+    expect(override.hasProperty('exdate')).toBe(false);
+    expect(events[0].getFirstPropertyValue('summary')).toBe('Weekly Standup');
+  });
+
+  it('reinstates an excluded occurrence and drops its EXDATE', () => {
+    const ics = loadFixture('vevent-recurring.ics');
+    const updated = updateFields(ics, { 'SUMMARY': 'Back on' }, {
+      occurrence: { recurrenceId: '20250120T090000' }
+    });
+
+    const [master] = getEvents(updated);
+    expect(master.hasProperty('exdate')).toBe(false);
+    expect(updated).toContain('RECURRENCE-ID;TZID=Europe/Berlin:20250120T090000');
+  });
+
+  it('splits the series for this-and-future edits', () => {
+    const ics = loadFixture('vevent-recurring.ics');
+    const { data, changed, created } = updateComponents(ics, { 'LOCATION': 'Room 4' }, {
+      occurrence: { recurrenceId: '20250203T090000', thisAndFuture: true },
+      tracking: { now: new Date('2025-01-30T12:00:00Z') },
+    });
+
+    // The original series ends before the occurrence; its earlier override stays
+    const [master, override] = getEvents(data);
+    expect(master.getFirstPropertyValue('rrule')!.toString()).toBe('FREQ=WEEKLY;BYDAY=MO;UNTIL=20250203T075959Z');
+    expect(master.getFirstPropertyValue('sequence')).toBe(1);
+    expect(master.getFirstPropertyValue('location')).toBe('Room 1');
+    expect(override.getFirstPropertyValue('summary')).toBe('Weekly Standup (moved)');
+    expect(data).not.toContain('RANGE=');
+
+    // The new series starts at the occurrence with the remaining COUNT
+    expect(created).toHaveLength(1);
+    const [series] = getEvents(created![0].data);
+    expect(series.getFirstPropertyValue('uid')).toBe(created![0].uid);
+    expect(created![0].filename).toBe(`${created![0].uid}.ics`);
+    expect(series.getFirstPropertyValue('related-to')).toBe('test-recurring-777@example.com');
+    expect(series.getFirstPropertyValue('rrule')!.toString()).toBe('FREQ=WEEKLY;COUNT=6;BYDAY=MO');
+    expect(series.hasProperty('exdate')).toBe(false);
+    expect(series.getFirstPropertyValue('location')).toBe('Room 4');
+    expect(created![0].data).toContain('DTSTART;TZID=Europe/Berlin:20250203T090000');
+    expect(created![0].data).toContain('DTEND;TZID=Europe/Berlin:20250203T093000');
+
+    expect(changed.map((ref) => ref.uid)).toEqual(['test-recurring-777@example.com', created![0].uid]);
+    const year = [new Date('2025-01-01T00:00:00Z'), new Date('2026-01-01T00:00:00Z')] as const;
+    expect(expandOccurrences(data, ...year)).toHaveLength(3);
+    expect(expandOccurrences(created![0].data, ...year)).toHaveLength(6);
+  });
+
+  it('moves later overrides to the new series', () => {
+    const ics = loadFixture('vevent-recurring.ics');
+    const { created } = updateComponents(ics, { 'SUMMARY': 'Sync' }, {
+      occurrence: { recurrenceId: '20250113T090000', thisAndFuture: true },
+    });
+
+    const [series, override] = getEvents(created![0].data);
+    expect(series.getFirstPropertyValue('summary')).toBe('Sync');
+    expect(series.getFirstPropertyValue('exdate')!.toString()).toBe('2025-01-20T09:00:00');
+    expect(override.getFirstPropertyValue('uid')).toBe(created![0].uid);
+    expect(override.getFirstPropertyValue('summary')).toBe('Weekly Standup (moved)');
+  });
+
+  it('rejects this-and-future edits where only one object can be returned', () => {
+    const ics = loadFixture('vevent-recurring.ics');
+
+    expect(() => updateFields(ics, { 'LOCATION': 'Room 4' }, {
+      occurrence: { recurrenceId: '20250203T090000', thisAndFuture: true },
+    })).toThrow(/use updateComponents\(\)/);
+  });
+
+  it('clears RANGE when an override is edited as a single occurrence', () => {
+    const ics = loadFixture('vevent-recurring.ics')
+      .replace('RECURRENCE-ID;TZID=Europe/Berlin:', 'RECURRENCE-ID;RANGE=THISANDFUTURE;TZID=Europe/Berlin:');
+    const updated = updateFields(ics, { 'LOCATION': 'Room 4' }, {
+      occurrence: { recurrenceId: '20250113T090000' },
+    });
+
+    expect(updated).toContain('RECURRENCE-ID;TZID=Europe/Berlin:20250113T090000');
+    expect(updated).not.toContain('RANGE=');
+  });
+
+  it('gives up on occurrences an infinite rule never reaches', () => {
+    const ics = loadFixture('vevent-recurring.ics').replace('RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=10', 'RRULE:FREQ=MINUTELY');
+
+    expect(() => {
+      updateFields(ics, { 'SUMMARY': 'x' }, { occurrence: { recurrenceId: '21000101T000030' } });
+    }).toThrow(InvalidInputError);
+  });
+
+  it('throws for times that are not occurrences', () => {
+    const ics = loadFixture('vevent-recurring.ics');
+
+    expect(() => {
+      updateFields(ics, { 'SUMMARY': 'x' }, { occurrence: { recurrenceId: '20250107T090000' } });
+    }).toThrow(/No occurrence/);
+  });
+
+  it('throws for non-recurring events', () => {
+    const ics = loadFixture('vevent.ics');
+
+    expect(() => {
+      updateFields(ics, { 'SUMMARY': 'x' }, { occurrence: { recurrenceId: '20250128T100000Z' } });
+    }).toThrow(/not recurring/);
+  });
+
+  it('reads the effective fields of an occurrence', () => {
+    const ics = loadFixture('vevent-recurring.ics');
+
+    expect(getFields(ics, ['SUMMARY', 'DTSTART'], {
+      occurrence: { recurrenceId: '20250113T090000' }
+    })).toEqual({
+      SUMMARY: 'Weekly Standup (moved)',
+      DTSTART: { value: '20250113T100000', tzid: 'Europe/Berlin' }
+    });
+  });
+});
+
+describe('RRULE builder', () => {
+  it('builds RRULE values from structured rules', () => {
+    expect(buildRecurrenceRule({ freq: 'WEEKLY', interval: 2, byday: ['MO', 'WE'] }))
+      .toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE');
+    expect(buildRecurrenceRule({ freq: 'MONTHLY', byday: ['-1FR'], count: 6 }))
+      .toBe('FREQ=MONTHLY;COUNT=6;BYDAY=-1FR');
+    expect(buildRecurrenceRule({ freq: 'DAILY', until: new Date('2025-06-30T10:00:00Z') }))
+      .toBe('FREQ=DAILY;UNTIL=20250630T100000Z');
+  });
+
+  it('parses RRULE values back', () => {
+    expect(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=1,15;UNTIL=20251231T235959Z;WKST=SU')).toEqual({
+      freq: 'MONTHLY',
+      bymonthday: [1, 15],
+      until: '20251231T235959Z',
+      wkst: 'SU'
+    });
+  });
+
+  it('round-trips rules', () => {
+    const rule = 'FREQ=YEARLY;INTERVAL=2;BYDAY=-1SU;BYMONTH=3';
+    expect(buildRecurrenceRule(parseRecurrenceRule(rule))).toBe(rule);
+  });
+
+  it('adds an RRULE to a single event', () => {
+    const ics = loadFixture('vevent.ics');
+    const updated = updateRecurrenceRule(ics, { freq: 'WEEKLY', byday: ['TU'], count: 4 });
+
+    expect(updated).toContain('RRULE:FREQ=WEEKLY;COUNT=4;BYDAY=TU');
+    expect(getFields(updated, ['RRULE'])).toEqual({ RRULE: 'FREQ=WEEKLY;COUNT=4;BYDAY=TU' });
+  });
+
+  it('merges changes into the existing rule and swaps COUNT for UNTIL', () => {
+    const ics = loadFixture('vevent-recurring.ics');
+    const updated = updateRecurrenceRule(ics, { until: '20250331T090000' });
+
+    // Local UNTIL is converted to UTC for a TZID start (RFC 5545)
+    expect(updated).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20250331T070000Z');
+    expect(updated).not.toContain('COUNT');
+  });
+
+  it('writes date-only UNTIL for all-day events', () => {
+    const ics = updateFields(loadFixture('vevent.ics'), {
+      'DTSTART': '20250128',
+      'DTEND': '20250129'
+    });
+    const updated = updateRecurrenceRule(ics, { freq: 'DAILY', until: new Date('2025-02-05T00:00:00Z') });
+
+    expect(updated).toContain('RRULE:FREQ=DAILY;UNTIL=20250205');
+  });
+
+  it('removes the RRULE with null', () => {
+    const ics = loadFixture('vevent-recurring.ics');
+    const updated = updateRecurrenceRule(ics, null);
+
+    expect(updated).not.toContain('RRULE');
+  });
+
+  it('throws when creating a rule without freq', () => {
+    const ics = loadFixture('vevent.ics');
+
+    expect(() => updateRecurrenceRule(ics, { count: 3 })).toThrow(/without freq/);
+  });
+
+  it('accepts RRULE strings in updateFields', () => {
+    const ics = loadFixture('vevent.ics');
+    const updated = updateFields(ics, { 'RRULE': 'FREQ=DAILY;COUNT=3' });
+
+    expect(updated).toContain('RRULE:FREQ=DAILY;COUNT=3');
+  });
+});
+
+describe('expandOccurrences', () => {
+  it('expands with EXDATE and overrides applied', () => {
+    const ics = loadFixture('vevent-recurring.ics');
+    const occurrences = expandOccurrences(ics, new Date('2025-01-01T00:00:00Z'), new Date('2025-02-01T00:00:00Z'));
+
+    expect(occurrences).toEqual([
+      {
+        recurrenceId: new Date('2025-01-06T08:00:00Z'),
+        start: new Date('2025-01-06T08:00:00Z'),
+        end: new Date('2025-01-06T08:30:00Z'),
+        allDay: false,
+        isOverride: false
+      },
+      {
+        recurrenceId: new Date('2025-01-13T08:00:00Z'),
+        start: new Date('2025-01-13T09:00:00Z'),
+        end: new Date('2025-01-13T09:30:00Z'),
+        allDay: false,
+        isOverride: true
+      },
+      {
+        recurrenceId: new Date('2025-01-27T08:00:00Z'),
+        start: new Date('2025-01-27T08:00:00Z'),
+        end: new Date('2025-01-27T08:30:00Z'),
+        allDay: false,
+        isOverride: false
+      }
+    ]);
+  });
+
+  it('resolves DST changes in the event zone', () => {
+    const ics = loadFixture('vevent-recurring.ics');
+    const occurrences = expandOccurrences(ics, new Date('2025-03-01T00:00:00Z'), new Date('2025-04-01T00:00:00Z'));
+
+    // 09:00 Europe/Berlin is 08:00Z in winter and 07:00Z after March 30
+    expect(occurrences.map((o) => o.start.toISOString())).toEqual([
+      '2025-03-03T08:00:00.000Z',
+      '2025-03-10T08:00:00.000Z'
+    ]);
+  });
+
+  it('stops at the end of the recurrence set', () => {
+    const ics = loadFixture('vevent-recurring.ics');
+    const occurrences = expandOccurrences(ics, new Date('2025-01-01T00:00:00Z'), new Date('2026-01-01T00:00:00Z'));
+
+    // COUNT=10 minus one EXDATE
+    expect(occurrences).toHaveLength(9);
+  });
+
+  it('includes overrides moved into the range', () => {
+    const ics = updateFields(loadFixture('vevent-recurring.ics'), {
+      'DTSTART': { value: '20250131T090000', tzid: 'Europe/Berlin' },
+      'DTEND': { value: '20250131T093000', tzid: 'Europe/Berlin' }
+    }, { occurrence: { recurrenceId: '20250203T090000' } });
+    const occurrences = expandOccurrences(ics, new Date('2025-01-28T00:00:00Z'), new Date('2025-02-01T00:00:00Z'));
+
+    expect(occurrences).toHaveLength(1);
+    expect(occurrences[0].recurrenceId).toEqual(new Date('2025-02-03T08:00:00Z'));
+    expect(occurrences[0].start).toEqual(new Date('2025-01-31T08:00:00Z'));
+  });
+
+  it('returns a single occurrence for non-recurring events', () => {
+    const ics = loadFixture('vevent.ics');
+
+    expect(expandOccurrences(ics, new Date('2025-01-01'), new Date('2025-12-31'))).toEqual([{
+      recurrenceId: new Date('2025-01-28T10:00:00Z'),
+      start: new Date('2025-01-28T10:00:00Z'),
+      end: new Date('2025-01-28T11:00:00Z'),
+      allDay: false,
+      isOverride: false
+    }]);
+  });
+});
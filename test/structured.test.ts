@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { updateFields } from '../src/updateFields';
+import { getStructuredField } from '../src/structured';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+describe('Structured vCard properties', () => {
+  describe('getStructuredField', () => {
+    it('reads N as its 5 components', () => {
+      const vcard = loadFixture('vcard.vcf');
+
+      expect(getStructuredField(vcard, 'N')).toEqual({
+        family: 'Smith',
+        given: 'Jane',
+        additional: 'Marie',
+        prefix: '',
+        suffix: ''
+      });
+    });
+
+    it('reads ADR as its 7 components', () => {
+      const vcard = loadFixture('vcard.vcf');
+
+      expect(getStructuredField(vcard, 'ADR')).toEqual({
+        poBox: '',
+        extended: '',
+        street: '123 Main St',
+        locality: 'Berlin',
+        region: '',
+        postalCode: '10115',
+        country: 'Germany'
+      });
+    });
+
+    it('reads ORG with units', () => {
+      const vcard = loadFixture('vcard.vcf');
+
+      expect(getStructuredField(vcard, 'ORG')).toEqual({ name: 'Example Corporation', units: [] });
+    });
+
+    it('returns null for missing properties', () => {
+      const vcard = loadFixture('vcard.vcf');
+
+      expect(getStructuredField(vcard, 'ADR', 1)).toBeNull();
+    });
+  });
+
+  describe('updateFields with structured values', () => {
+    it('writes N from an object', () => {
+      const vcard = loadFixture('vcard.vcf');
+      const updated = updateFields(vcard, {
+        'N': { family: 'Doe', given: 'Jane', prefix: 'Dr.' }
+      });
+
+      expect(updated).toContain('N:Doe;Jane;;Dr.;\r\n');
+    });
+
+    it('splits raw strings on semicolons', () => {
+      const vcard = loadFixture('vcard.vcf');
+      const updated = updateFields(vcard, { 'N': 'Doe;Jane' });
+
+      expect(updated).toContain('N:Doe;Jane;;;\r\n');
+      expect(getStructuredField(updated, 'N')).toMatchObject({ family: 'Doe', given: 'Jane' });
+    });
+
+    it('escapes separators inside components', () => {
+      const vcard = loadFixture('vcard.vcf');
+      const updated = updateFields(vcard, {
+        'ADR': {
+          street: 'Main St 1; Building B, 3rd floor',
+          locality: 'Berlin',
+          postalCode: '10115',
+          country: 'Germany'
+        }
+      });
+
+      expect(updated).toContain('ADR;TYPE=WORK:;;Main St 1\\; Building B\\, 3rd floor;Berlin;;10115;Germany');
+      expect(getStructuredField(updated, 'ADR')).toMatchObject({
+        street: 'Main St 1; Building B, 3rd floor'
+      });
+    });
+
+    it('writes multiple values in one component as a list', () => {
+      const vcard = loadFixture('vcard.vcf');
+      const updated = updateFields(vcard, {
+        'N': { family: 'Smith', given: 'Jane', additional: ['Marie', 'Ann'] }
+      });
+
+      expect(updated).toContain('N:Smith;Jane;Marie,Ann;;');
+      expect(getStructuredField(updated, 'N')).toMatchObject({ additional: ['Marie', 'Ann'] });
+    });
+
+    it('writes ORG with units', () => {
+      const vcard = loadFixture('vcard.vcf');
+      const updated = updateFields(vcard, {
+        'ORG': { name: 'Acme; Inc', units: ['R&D', 'Platform'] }
+      });
+
+      expect(updated).toContain('ORG:Acme\\; Inc;R&D;Platform');
+      expect(getStructuredField(updated, 'ORG')).toEqual({ name: 'Acme; Inc', units: ['R&D', 'Platform'] });
+    });
+
+    it('accepts structured values with params', () => {
+      const vcard = loadFixture('vcard.vcf');
+      const updated = updateFields(vcard, {
+        'ADR': {
+          value: { street: 'Home Rd 5', locality: 'Hamburg' },
+          params: { TYPE: 'home' },
+          paramMode: 'replace'
+        }
+      });
+
+      expect(updated).toContain('ADR;TYPE=home:;;Home Rd 5;Hamburg;;;');
+    });
+
+    it('round-trips reader output through updateFields', () => {
+      const vcard = loadFixture('vcard.vcf');
+      const name = getStructuredField(vcard, 'N')!;
+      const updated = updateFields(vcard, { 'N': name });
+
+      expect(getStructuredField(updated, 'N')).toEqual(name);
+      expect(updated).toContain('N:Smith;Jane;Marie;;');
+    });
+  });
+});
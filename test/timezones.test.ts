@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import ICAL from 'ical.js';
+import { buildTimezone, syncTimezones } from '../src/timezones';
+import { updateFields } from '../src/updateFields';
+import { createEvent } from '../src/create';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+const getTimezones = (ical: string) => {
+  return new ICAL.Component(ICAL.parse(ical)).getAllSubcomponents('vtimezone');
+};
+
+// Instant of a wall-clock time resolved through a generated VTIMEZONE
+const resolve = (vtimezone: ICAL.Component, local: string) => {
+  const time = ICAL.Time.fromDateTimeString(local);
+  time.zone = new ICAL.Timezone(vtimezone);
+  return time.toJSDate().toISOString();
+};
+
+describe('Timezones', () => {
+  describe('buildTimezone', () => {
+    it('folds yearly DST rules into RRULEs', () => {
+      const vtimezone = buildTimezone('Europe/Berlin', 2025, 2025);
+
+      expect(vtimezone.getFirstPropertyValue('tzid')).toBe('Europe/Berlin');
+      expect(vtimezone.getFirstSubcomponent('daylight')!.getFirstPropertyValue('rrule')!.toString())
+        .toBe('FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU');
+      expect(vtimezone.getFirstSubcomponent('standard')!.getFirstPropertyValue('rrule')!.toString())
+        .toBe('FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU');
+    });
+
+    it('resolves times like the IANA database', () => {
+      const berlin = buildTimezone('Europe/Berlin', 2025, 2025);
+      const newYork = buildTimezone('America/New_York', 2025, 2025);
+      const sydney = buildTimezone('Australia/Sydney', 2025, 2025);
+
+      expect(resolve(berlin, '2025-01-30T14:00:00')).toBe('2025-01-30T13:00:00.000Z');
+      expect(resolve(berlin, '2025-07-01T14:00:00')).toBe('2025-07-01T12:00:00.000Z');
+      expect(resolve(newYork, '2025-03-10T09:00:00')).toBe('2025-03-10T13:00:00.000Z');
+      expect(resolve(newYork, '2030-12-01T09:00:00')).toBe('2030-12-01T14:00:00.000Z');
+      expect(resolve(sydney, '2025-01-15T09:00:00')).toBe('2025-01-14T22:00:00.000Z');
+    });
+
+    it('writes a single observance for zones without DST', () => {
+      const vtimezone = buildTimezone('Asia/Tokyo', 2025, 2025);
+      const [standard] = vtimezone.getAllSubcomponents();
+
+      expect(vtimezone.getAllSubcomponents()).toHaveLength(1);
+      expect(standard.getFirstPropertyValue('tzoffsetto')!.toString()).toBe('+09:00');
+    });
+
+    it('ends rules that were abolished', () => {
+      const vtimezone = buildTimezone('Europe/Moscow', 2010, 2010);
+      const daylight = vtimezone.getFirstSubcomponent('daylight')!;
+
+      expect(daylight.getFirstPropertyValue('rrule')!.toString()).toContain('UNTIL=');
+      expect(resolve(vtimezone, '2010-07-01T12:00:00')).toBe('2010-07-01T08:00:00.000Z');
+      expect(resolve(vtimezone, '2020-07-01T12:00:00')).toBe('2020-07-01T09:00:00.000Z');
+    });
+
+    it('covers early start years within a time budget', () => {
+      const started = performance.now();
+      const { data } = createEvent({
+        'DTSTART': { value: '19500701T120000', tzid: 'America/New_York' },
+      }, { timezones: true });
+      const [vtimezone] = getTimezones(data);
+
+      expect(performance.now() - started).toBeLessThan(2000);
+      expect(resolve(vtimezone, '1950-07-01T12:00:00')).toBe('1950-07-01T16:00:00.000Z');
+      expect(resolve(vtimezone, '1950-01-15T12:00:00')).toBe('1950-01-15T17:00:00.000Z');
+      expect(resolve(vtimezone, '2025-07-01T12:00:00')).toBe('2025-07-01T16:00:00.000Z');
+    });
+  });
+
+  describe('syncTimezones', () => {
+    it('embeds missing VTIMEZONEs before the components using them', () => {
+      const updated = updateFields(loadFixture('vevent.ics'), {
+        'DTSTART': { value: '20250128T100000', tzid: 'Europe/Berlin' },
+        'DTEND': { value: '20250128T110000', tzid: 'America/New_York' },
+      }, { timezones: true });
+
+      const root = new ICAL.Component(ICAL.parse(updated));
+      expect(root.getAllSubcomponents().map((sub) => sub.name)).toEqual(['vtimezone', 'vtimezone', 'vevent']);
+      expect(getTimezones(updated).map((tz) => tz.getFirstPropertyValue('tzid')))
+        .toEqual(['Europe/Berlin', 'America/New_York']);
+    });
+
+    it('keeps existing definitions and skips unknown TZIDs', () => {
+      const ics = loadFixture('vevent.ics')
+        .replace('DTSTART:20250128T100000Z', 'DTSTART;TZID=Custom/Zone:20250128T100000');
+      const once = syncTimezones(updateFields(ics, {
+        'DTEND': { value: '20250128T110000', tzid: 'Europe/Berlin' },
+      }));
+
+      expect(getTimezones(once).map((tz) => tz.getFirstPropertyValue('tzid'))).toEqual(['Europe/Berlin']);
+      expect(syncTimezones(once)).toBe(once);
+    });
+
+    it('removes unused VTIMEZONEs on request', () => {
+      const zoned = syncTimezones(updateFields(loadFixture('vevent.ics'), {
+        'DTSTART': { value: '20250128T100000', tzid: 'Europe/Berlin' },
+      }));
+      const utc = updateFields(zoned, { 'DTSTART': '20250128T090000Z' });
+
+      expect(getTimezones(syncTimezones(utc))).toHaveLength(1);
+      expect(getTimezones(syncTimezones(utc, { removeUnused: true }))).toHaveLength(0);
+    });
+
+    it('covers TZIDs of overrides and EXDATEs', () => {
+      const updated = syncTimezones(loadFixture('vevent-recurring.ics'));
+      expect(getTimezones(updated).map((tz) => tz.getFirstPropertyValue('tzid'))).toEqual(['Europe/Berlin']);
+    });
+
+    it('leaves vCards alone', () => {
+      const vcf = loadFixture('vcard.vcf');
+      expect(syncTimezones(vcf)).toBe(updateFields(vcf, {}));
+    });
+
+    it('embeds timezones for new events', () => {
+      const { data } = createEvent({
+        'DTSTART': { value: '20250203T100000', tzid: 'Europe/Berlin' },
+      }, { timezones: true });
+
+      expect(getTimezones(data)).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import ICAL from 'ical.js';
+import { updateFields } from '../src/updateFields';
+import { applyPropertyOperations } from '../src/properties';
+import { updateRecurrenceRule } from '../src/recurrence';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+const getEvent = (ical: string) => {
+  return new ICAL.Component(ICAL.parse(ical)).getFirstSubcomponent('vevent')!;
+};
+
+const now = new Date('2025-02-01T12:00:00Z');
+
+describe('Change tracking', () => {
+  it('leaves metadata untouched unless enabled', () => {
+    const ics = loadFixture('vevent.ics');
+    const event = getEvent(updateFields(ics, { 'DTSTART': '20250128T120000Z' }));
+
+    expect(event.hasProperty('sequence')).toBe(false);
+    expect(event.hasProperty('last-modified')).toBe(false);
+    expect(event.getFirstPropertyValue('dtstamp')!.toString()).toBe('2025-01-27T12:00:00Z');
+  });
+
+  it('bumps SEQUENCE, DTSTAMP and LAST-MODIFIED on a significant change', () => {
+    const ics = loadFixture('vevent.ics');
+    const once = updateFields(ics, { 'DTSTART': '20250128T120000Z' }, { tracking: { now } });
+    const twice = updateFields(once, { 'STATUS': 'CANCELLED' }, { tracking: { now } });
+
+    expect(getEvent(once).getFirstPropertyValue('sequence')).toBe(1);
+
+    const event = getEvent(twice);
+    expect(event.getFirstPropertyValue('sequence')).toBe(2);
+    expect(event.getFirstPropertyValue('dtstamp')!.toString()).toBe('2025-02-01T12:00:00Z');
+    expect(event.getFirstPropertyValue('last-modified')!.toString()).toBe('2025-02-01T12:00:00Z');
+  });
+
+  it('updates timestamps without bumping SEQUENCE for other changes', () => {
+    const ics = loadFixture('vevent.ics');
+    const event = getEvent(updateFields(ics, { 'DESCRIPTION': 'Agenda attached' }, { tracking: { now } }));
+
+    expect(event.hasProperty('sequence')).toBe(false);
+    expect(event.getFirstPropertyValue('last-modified')!.toString()).toBe('2025-02-01T12:00:00Z');
+  });
+
+  it('does nothing when the update does not change anything', () => {
+    const ics = loadFixture('vevent.ics');
+    const updated = updateFields(ics, { 'DTSTART': '20250128T100000Z', 'X-UNSET': null }, { tracking: true });
+
+    expect(updated).toBe(updateFields(ics, {}));
+  });
+
+  it('uses custom significant fields', () => {
+    const ics = loadFixture('vevent.ics');
+    const options = { tracking: { now, significantFields: ['location'] } };
+
+    expect(getEvent(updateFields(ics, { 'LOCATION': 'Room B' }, options))
+      .getFirstPropertyValue('sequence')).toBe(1);
+    expect(getEvent(updateFields(ics, { 'DTSTART': '20250128T120000Z' }, options))
+      .hasProperty('sequence')).toBe(false);
+  });
+
+  it('keeps metadata the caller sets explicitly', () => {
+    const ics = loadFixture('vevent.ics');
+    const event = getEvent(updateFields(ics, {
+      'DTSTART': '20250128T120000Z',
+      'SEQUENCE': '5',
+    }, { tracking: { now } }));
+
+    expect(event.getFirstPropertyValue('sequence')).toBe(5);
+  });
+
+  it('tracks property operations and RRULE edits', () => {
+    const ics = loadFixture('vevent.ics');
+    const withAttendee = applyPropertyOperations(ics, [
+      { op: 'append', name: 'ATTENDEE', value: 'mailto:jane@example.com' },
+    ], { tracking: { now } });
+    const recurring = updateRecurrenceRule(withAttendee, { freq: 'WEEKLY' }, { tracking: { now } });
+
+    expect(getEvent(withAttendee).hasProperty('sequence')).toBe(false);
+    expect(getEvent(withAttendee).getFirstPropertyValue('last-modified')!.toString()).toBe('2025-02-01T12:00:00Z');
+    expect(getEvent(recurring).getFirstPropertyValue('sequence')).toBe(1);
+  });
+
+  it('tracks changes on an occurrence override only', () => {
+    const ics = loadFixture('vevent-recurring.ics');
+    const updated = updateFields(ics, { 'DTSTART': { value: '20250127T110000', tzid: 'Europe/Berlin' } }, {
+      occurrence: { recurrenceId: { value: '20250127T090000', tzid: 'Europe/Berlin' } },
+      tracking: { now },
+    });
+
+    const [master, ...overrides] = new ICAL.Component(ICAL.parse(updated)).getAllSubcomponents('vevent');
+    const override = overrides.find((component) => {
+      return component.getFirstPropertyValue('recurrence-id')!.toString() === '2025-01-27T09:00:00';
+    })!;
+
+    expect(master.hasProperty('last-modified')).toBe(false);
+    expect(override.getFirstPropertyValue('sequence')).toBe(1);
+  });
+
+  it('bumps REV on vCards', () => {
+    const vcf = loadFixture('vcard.vcf');
+    const updated = updateFields(vcf, { 'TITLE': 'CTO' }, { tracking: { now } });
+
+    expect(updated).toContain('REV:20250201T120000Z');
+    expect(updated).not.toContain('SEQUENCE');
+    expect(updated).not.toContain('LAST-MODIFIED');
+  });
+
+  it('writes REV as a vCard 4.0 timestamp', () => {
+    const vcf = loadFixture('vcard.vcf').replace('VERSION:3.0', 'VERSION:4.0');
+    const updated = updateFields(vcf, { 'TITLE': 'CTO' }, { tracking: { now } });
+
+    expect(updated).toContain('REV:20250201T120000Z');
+    expect(updated).not.toContain('VALUE=');
+  });
+});
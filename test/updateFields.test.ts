@@ -3,6 +3,7 @@ import { readFileSync } from 'fs';
 import { join } from 'path';
 import ICAL from 'ical.js';
 import { updateFields } from '../src/updateFields';
+import { InvalidValueError } from '../src/errors';
 
 // Helper to load fixtures
 const loadFixture = (filename: string): string => {
@@ -34,9 +35,7 @@ describe('updateFields', () => {
       expect(event?.getFirstPropertyValue('location')).toBe('Remote - Zoom');
     });
 
-    // Note: Datetime properties require ICAL.Time objects, not strings
-    // This is a known limitation - documented in GitHub issues
-    it.skip('updates DTSTART field', () => {
+    it('updates DTSTART field', () => {
       const vevent = loadFixture('vevent.ics');
       const updated = updateFields(vevent, {
         'DTSTART': '20250130T140000Z'
@@ -44,7 +43,7 @@ describe('updateFields', () => {
 
       const component = new ICAL.Component(ICAL.parse(updated));
       const event = component.getFirstSubcomponent('vevent');
-      expect(event?.getFirstPropertyValue('dtstart')).toBe('20250130T140000Z');
+      expect(event?.getFirstPropertyValue('dtstart')?.toString()).toBe('2025-01-30T14:00:00Z');
     });
 
     it('updates multiple fields simultaneously', () => {
@@ -127,9 +126,7 @@ describe('updateFields', () => {
       expect(todo?.getFirstPropertyValue('priority')).toBe(1);
     });
 
-    // Note: Datetime properties require ICAL.Time objects, not strings
-    // This is a known limitation - documented in GitHub issues
-    it.skip('updates DUE field', () => {
+    it('updates DUE field', () => {
       const vtodo = loadFixture('vtodo.ics');
       const updated = updateFields(vtodo, {
         'DUE': '20250201T180000Z'
@@ -137,7 +134,7 @@ describe('updateFields', () => {
 
       const component = new ICAL.Component(ICAL.parse(updated));
       const todo = component.getFirstSubcomponent('vtodo');
-      expect(todo?.getFirstPropertyValue('due')).toBe('20250201T180000Z');
+      expect(todo?.getFirstPropertyValue('due')?.toString()).toBe('2025-02-01T18:00:00Z');
     });
 
     it('preserves unmodified fields', () => {
@@ -205,6 +202,254 @@ describe('updateFields', () => {
     });
   });
 
+  describe('Date/time properties', () => {
+    it('accepts a JS Date as UTC DATE-TIME', () => {
+      const vevent = loadFixture('vevent.ics');
+      const updated = updateFields(vevent, {
+        'DTSTART': new Date('2025-03-10T09:30:00Z')
+      });
+
+      expect(updated).toContain('DTSTART:20250310T093000Z');
+    });
+
+    it('accepts extended ISO strings', () => {
+      const vevent = loadFixture('vevent.ics');
+      const updated = updateFields(vevent, {
+        'DTEND': '2025-03-10T10:30:00Z'
+      });
+
+      expect(updated).toContain('DTEND:20250310T103000Z');
+    });
+
+    it('converts ISO strings with UTC offsets to instants', () => {
+      const vevent = loadFixture('vevent.ics');
+      const updated = updateFields(vevent, {
+        'DTSTART': '2025-01-06T10:00:00+01:00',
+        'DTEND': '2025-01-06T06:30-0530',
+        'DUE': { value: '2025-07-01T10:00:00+02:00', tzid: 'America/New_York' }
+      });
+
+      expect(updated).toContain('DTSTART:20250106T090000Z');
+      expect(updated).toContain('DTEND:20250106T120000Z');
+      expect(updated).toContain('DUE;TZID=America/New_York:20250701T040000');
+    });
+
+    it('writes TZID parameter for local times', () => {
+      const vevent = loadFixture('vevent.ics');
+      const updated = updateFields(vevent, {
+        'DTSTART': { value: '20250310T093000', tzid: 'Europe/Berlin' }
+      });
+
+      expect(updated).toContain('DTSTART;TZID=Europe/Berlin:20250310T093000');
+    });
+
+    it('converts instants to wall-clock time in the given zone', () => {
+      const vevent = loadFixture('vevent.ics');
+      const updated = updateFields(vevent, {
+        'DTSTART': { value: new Date('2025-07-01T08:00:00Z'), tzid: 'Europe/Berlin' }
+      });
+
+      expect(updated).toContain('DTSTART;TZID=Europe/Berlin:20250701T100000');
+    });
+
+    it('writes VALUE=DATE for all-day values', () => {
+      const vevent = loadFixture('vevent.ics');
+      const updated = updateFields(vevent, {
+        'DTSTART': { value: '2025-03-10', allDay: true },
+        'DTEND': '20250311'
+      });
+
+      expect(updated).toContain('DTSTART;VALUE=DATE:20250310');
+      expect(updated).toContain('DTEND;VALUE=DATE:20250311');
+    });
+
+    it('keeps the existing TZID for local times without one', () => {
+      const vevent = loadFixture('vevent.ics');
+      const local = updateFields(vevent, {
+        'DTSTART': { value: '20250310T093000', tzid: 'Europe/Berlin' }
+      });
+
+      expect(updateFields(local, { 'DTSTART': '20250130T140000' })).toContain('DTSTART;TZID=Europe/Berlin:20250130T140000');
+      expect(updateFields(local, { 'DTSTART': { value: '20250130T140000', paramMode: 'replace' } }))
+        .toContain('DTSTART:20250130T140000\r\n');
+    });
+
+    it('drops stale TZID when switching to UTC', () => {
+      const vevent = loadFixture('vevent.ics');
+      const local = updateFields(vevent, {
+        'DTSTART': { value: '20250310T093000', tzid: 'Europe/Berlin' }
+      });
+      const updated = updateFields(local, {
+        'DTSTART': '20250310T083000Z'
+      });
+
+      expect(updated).toContain('DTSTART:20250310T083000Z');
+      expect(updated).not.toContain('TZID');
+    });
+
+    it('updates BDAY on vCards', () => {
+      const vcard = loadFixture('vcard.vcf');
+      const updated = updateFields(vcard, {
+        'BDAY': { value: '1990-05-01', allDay: true }
+      });
+
+      const component = new ICAL.Component(ICAL.parse(updated));
+      expect(component.getFirstPropertyValue('bday')?.toString()).toBe('1990-05-01');
+    });
+
+    it('writes reduced and text BDAY values as given', () => {
+      const vcard = 'BEGIN:VCARD\r\nVERSION:4.0\r\nFN:Jane\r\nEND:VCARD\r\n';
+
+      expect(updateFields(vcard, { 'BDAY': '--0415' })).toContain('BDAY:--0415');
+      expect(updateFields(vcard, { 'BDAY': { value: 'circa 1800', params: { VALUE: 'text' } } }))
+        .toContain('BDAY;VALUE=TEXT:circa 1800');
+
+      const text = updateFields(vcard, { 'BDAY': { value: 'circa 1800', params: { VALUE: 'text' } } });
+      expect(updateFields(text, { 'BDAY': 'circa 1850' })).toContain('BDAY;VALUE=TEXT:circa 1850');
+    });
+
+    it('throws for unparseable date strings', () => {
+      const vevent = loadFixture('vevent.ics');
+
+      expect(() => {
+        updateFields(vevent, { 'DTSTART': 'next tuesday' });
+      }).toThrow(/Invalid date value for DTSTART/);
+    });
+
+    it('throws for out-of-range dates and times instead of rolling them over', () => {
+      const vevent = loadFixture('vevent.ics');
+
+      for (const value of ['2025-02-30T10:00:00', '2025-01-30T25:99:00', '20251301', '20250130T105960Z', '2025-04-31']) {
+        expect(() => updateFields(vevent, { 'DTSTART': value })).toThrow(InvalidValueError);
+      }
+      expect(() => updateFields(vevent, { 'DTEND': '2025-02-29' })).toThrow(/Invalid date value for DTEND/);
+      expect(updateFields(vevent, { 'DTEND': '2024-02-29' })).toContain('DTEND;VALUE=DATE:20240229');
+    });
+  });
+
+  describe('Property parameters', () => {
+    it('sets parameters alongside the value', () => {
+      const vevent = loadFixture('vevent.ics');
+      const updated = updateFields(vevent, {
+        'ATTENDEE': {
+          value: 'mailto:jane@example.com',
+          params: { CN: 'Jane Doe', ROLE: 'REQ-PARTICIPANT', PARTSTAT: 'ACCEPTED' }
+        }
+      });
+
+      const component = new ICAL.Component(ICAL.parse(updated));
+      const attendee = component.getFirstSubcomponent('vevent')?.getFirstProperty('attendee');
+      expect(attendee?.getFirstValue()).toBe('mailto:jane@example.com');
+      expect(attendee?.getParameter('cn')).toBe('Jane Doe');
+      expect(attendee?.getParameter('role')).toBe('REQ-PARTICIPANT');
+      expect(attendee?.getParameter('partstat')).toBe('ACCEPTED');
+    });
+
+    it('writes multi-valued parameters', () => {
+      const vcard = loadFixture('vcard.vcf');
+      const updated = updateFields(vcard, {
+        'TEL': { value: '+4930123456', params: { TYPE: ['work', 'voice'] } }
+      });
+
+      expect(updated).toContain('TEL;TYPE=work,voice:+4930123456');
+    });
+
+    it('merges with existing parameters by default', () => {
+      const vcard = loadFixture('vcard.vcf');
+      const updated = updateFields(vcard, {
+        'EMAIL': { value: 'jane@work.example.com', params: { LANGUAGE: 'de' } }
+      });
+
+      const component = new ICAL.Component(ICAL.parse(updated));
+      const email = component.getFirstProperty('email');
+      expect(email?.getParameter('type')).toBe('INTERNET');
+      expect(email?.getParameter('language')).toBe('de');
+    });
+
+    it('replaces existing parameters with paramMode: replace', () => {
+      const vcard = loadFixture('vcard.vcf');
+      const updated = updateFields(vcard, {
+        'EMAIL': { value: 'jane@work.example.com', params: { TYPE: 'work' }, paramMode: 'replace' }
+      });
+
+      expect(updated).toContain('EMAIL;TYPE=work:jane@work.example.com');
+      expect(updated).not.toContain('INTERNET');
+    });
+
+    it('drops stale parameters with paramMode: replace and no params', () => {
+      const vevent = loadFixture('vevent.ics');
+      const updated = updateFields(vevent, {
+        'ORGANIZER': { value: 'mailto:anna@example.com', paramMode: 'replace' }
+      });
+
+      expect(updated).toContain('ORGANIZER:mailto:anna@example.com');
+      expect(updated).not.toContain('John Doe');
+    });
+
+    it('reads TZID from params for date properties', () => {
+      const vevent = loadFixture('vevent.ics');
+      const updated = updateFields(vevent, {
+        'DTSTART': { value: '20250310T093000', params: { TZID: 'Europe/Berlin' } }
+      });
+
+      expect(updated).toContain('DTSTART;TZID=Europe/Berlin:20250310T093000');
+    });
+  });
+
+  describe('Property deletion', () => {
+    it('removes a property with null', () => {
+      const vevent = loadFixture('vevent.ics');
+      const updated = updateFields(vevent, {
+        'LOCATION': null
+      });
+
+      expect(updated).not.toContain('LOCATION');
+      expect(updated).toContain('SUMMARY:Team Meeting');
+    });
+
+    it('removes all instances of a repeated property', () => {
+      const vevent = loadFixture('vevent-attendees.ics');
+      const updated = updateFields(vevent, {
+        'ATTENDEE': null
+      });
+
+      expect(updated).not.toContain('ATTENDEE');
+    });
+
+    it('removes parameter-bearing and X-* properties', () => {
+      const vevent = updateFields(loadFixture('vevent.ics'), {
+        'X-ZOOM-LINK': 'https://zoom.us/j/123456789'
+      });
+      const updated = updateFields(vevent, {
+        'ORGANIZER': null,
+        'x-zoom-link': null
+      });
+
+      expect(updated).not.toContain('ORGANIZER');
+      expect(updated).not.toContain('X-ZOOM-LINK');
+    });
+
+    it('ignores null for missing properties', () => {
+      const vcard = loadFixture('vcard.vcf');
+      const updated = updateFields(vcard, {
+        'NOTE': null
+      });
+
+      expect(updated).toBe(updateFields(vcard, {}));
+    });
+
+    it('skips undefined values', () => {
+      const vevent = loadFixture('vevent.ics');
+      const updated = updateFields(vevent, {
+        'SUMMARY': 'Changed',
+        'LOCATION': undefined
+      });
+
+      expect(updated).toContain('LOCATION:Conference Room A');
+      expect(updated).toContain('SUMMARY:Changed');
+    });
+  });
+
   describe('Edge cases', () => {
     it('accepts unknown property names without error', () => {
       const vevent = loadFixture('vevent.ics');
@@ -293,7 +538,6 @@ describe('updateFields', () => {
         url: 'https://cal.example.com/calendars/user/calendar/event.ics'
       };
 
-      // Update fields (excluding datetime fields due to ical.js limitations)
       const updatedData = updateFields(mockCalendarObject, {
         'SUMMARY': 'Rescheduled Meeting',
         'LOCATION': 'Virtual - Teams',
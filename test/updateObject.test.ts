@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { fetchCalendarObjects, fetchVCards, updateCalendarObject, updateVCard } from 'tsdav';
+import { updateObject } from '../src/updateObject';
+import { updateFields } from '../src/updateFields';
+import { ConflictError, RequestError } from '../src/errors';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+interface StoredObject {
+  data: string;
+  etag: string;
+}
+
+const escapeXml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Minimal CalDAV/CardDAV server: conditional PUT and multiget REPORT
+ */
+class MockDAVServer {
+  objects = new Map<string, StoredObject>();
+  requests: Array<{ method: string; path: string; ifMatch?: string }> = [];
+  /** Status to answer PUTs with instead of writing */
+  failWith?: number;
+  /** Simulate another client writing right before every PUT */
+  concurrentEdit?: (stored: StoredObject) => string;
+  /** Leave getetag out of REPORT responses */
+  omitEtags?: boolean;
+  private server?: Server;
+  private version = 100;
+  baseUrl = '';
+
+  async start(): Promise<void> {
+    this.server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => this.handle(request.method!, request.url!, request.headers['if-match'] as string, body, response));
+    });
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    this.baseUrl = `http://127.0.0.1:${(this.server!.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server!.close(resolve));
+  }
+
+  store(path: string, data: string): StoredObject {
+    const stored = { data, etag: `"${++this.version}"` };
+    this.objects.set(path, stored);
+    return stored;
+  }
+
+  private handle(method: string, path: string, ifMatch: string | undefined, body: string, response: any): void {
+    this.requests.push({ method, path, ifMatch });
+
+    if (method === 'PUT') {
+      const stored = this.objects.get(path);
+      if (stored && this.concurrentEdit) {
+        this.store(path, this.concurrentEdit(stored));
+      }
+      if (this.failWith) {
+        response.writeHead(this.failWith, 'Forbidden').end();
+        return;
+      }
+      if (ifMatch && this.objects.get(path)?.etag !== ifMatch) {
+        response.writeHead(412, 'Precondition Failed').end();
+        return;
+      }
+      const updated = this.store(path, body);
+      response.writeHead(204, { ETag: updated.etag }).end();
+      return;
+    }
+
+    if (method === 'REPORT') {
+      const hrefs = [...body.matchAll(/<[^>]*href>([^<]+)<\/[^>]*href>/g)].map((match) => match[1]);
+      const dataElement = body.includes('addressbook-multiget') ? 'card:address-data' : 'cal:calendar-data';
+      const responses = hrefs.filter((href) => this.objects.has(href)).map((href) => {
+        const stored = this.objects.get(href)!;
+        return `<d:response><d:href>${href}</d:href><d:propstat><d:prop>` +
+          (this.omitEtags ? '' : `<d:getetag>${escapeXml(stored.etag)}</d:getetag>`) +
+          `<${dataElement}>${escapeXml(stored.data)}</${dataElement}>` +
+          '</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>';
+      });
+
+      response.writeHead(207, { 'Content-Type': 'application/xml; charset=utf-8' }).end(
+        '<?xml version="1.0" encoding="utf-8"?>' +
+        '<d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav" xmlns:card="urn:ietf:params:xml:ns:carddav">' +
+        `${responses.join('')}</d:multistatus>`
+      );
+      return;
+    }
+
+    response.writeHead(405).end();
+  }
+}
+
+// The tsdav functions a DAVClient wraps, without the login step
+const client = { fetchCalendarObjects, fetchVCards, updateCalendarObject, updateVCard };
+
+describe('updateObject', () => {
+  const server = new MockDAVServer();
+  const eventPath = '/calendars/user/work/event.ics';
+  const contactPath = '/addressbooks/user/contacts/jane.vcf';
+
+  beforeAll(() => server.start());
+  afterAll(() => server.stop());
+  beforeEach(() => {
+    server.objects.clear();
+    server.requests = [];
+    server.failWith = undefined;
+    server.concurrentEdit = undefined;
+    server.omitEtags = undefined;
+  });
+
+  it('writes the update with If-Match and returns the new etag', async () => {
+    const stored = server.store(eventPath, loadFixture('vevent.ics'));
+    const event = { url: server.baseUrl + eventPath, ...stored };
+
+    const result = await updateObject(client, event, { 'SUMMARY': 'Team Sync' });
+
+    expect(result.attempts).toBe(1);
+    expect(result.url).toBe(event.url);
+    expect(result.etag).toBe(server.objects.get(eventPath)!.etag);
+    expect(result.data).toContain('SUMMARY:Team Sync');
+    expect(server.objects.get(eventPath)!.data).toBe(result.data);
+    expect(server.requests).toEqual([{ method: 'PUT', path: eventPath, ifMatch: stored.etag }]);
+  });
+
+  it('refetches and re-applies the update after 412 Precondition Failed', async () => {
+    const original = server.store(eventPath, loadFixture('vevent.ics'));
+    const event = { url: server.baseUrl + eventPath, ...original };
+
+    // Someone else changed the location since we fetched the event
+    const remote = server.store(eventPath, updateFields(original.data, { 'LOCATION': 'Room 7' }));
+
+    const result = await updateObject(client, event, { 'SUMMARY': 'Team Sync' }, { tracking: true });
+    const written = server.objects.get(eventPath)!.data;
+
+    expect(result.attempts).toBe(2);
+    expect(written).toContain('SUMMARY:Team Sync');
+    expect(written).toContain('LOCATION:Room 7');
+    expect(server.requests.map((request) => request.method)).toEqual(['PUT', 'REPORT', 'PUT']);
+    expect(server.requests[2].ifMatch).toBe(remote.etag);
+  });
+
+  it('throws a ConflictError when the object keeps changing', async () => {
+    server.store(eventPath, loadFixture('vevent.ics'));
+    const event = { url: server.baseUrl + eventPath, ...server.objects.get(eventPath)! };
+    server.concurrentEdit = (stored) => stored.data;
+
+    const error = await updateObject(client, event, { 'SUMMARY': 'Team Sync' }, { retries: 2 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.attempts).toBe(3);
+    expect(error.url).toBe(event.url);
+    expect(server.requests.filter((request) => request.method === 'PUT')).toHaveLength(3);
+  });
+
+  it('updates vCards through updateVCard and fetchVCards', async () => {
+    const original = server.store(contactPath, loadFixture('vcard.vcf'));
+    const contact = { url: server.baseUrl + contactPath, ...original };
+    server.store(contactPath, updateFields(original.data, { 'NOTE': 'Met at conference' }));
+
+    const result = await updateObject(client, contact, { 'TITLE': 'Lead Developer' });
+
+    expect(result.attempts).toBe(2);
+    expect(server.objects.get(contactPath)!.data).toContain('TITLE:Lead Developer');
+    expect(server.objects.get(contactPath)!.data).toContain('NOTE:Met at conference');
+  });
+
+  it('uses a custom refetch function', async () => {
+    const original = server.store(eventPath, loadFixture('vevent.ics'));
+    const event = { url: server.baseUrl + eventPath, ...original };
+    server.store(eventPath, original.data);
+
+    const refetched: string[] = [];
+    const result = await updateObject(client, event, { 'SUMMARY': 'Team Sync' }, {
+      refetch: async (object) => {
+        refetched.push(object.url);
+        return { url: object.url, ...server.objects.get(eventPath)! };
+      },
+    });
+
+    expect(result.attempts).toBe(2);
+    expect(refetched).toEqual([event.url]);
+    expect(server.requests.map((request) => request.method)).toEqual(['PUT', 'PUT']);
+  });
+
+  it('fails on other errors and when the object was deleted', async () => {
+    const stored = server.store(eventPath, loadFixture('vevent.ics'));
+    const event = { url: server.baseUrl + eventPath, ...stored };
+
+    server.failWith = 403;
+    await expect(updateObject(client, event, { 'SUMMARY': 'x' })).rejects.toThrow(`Failed to update ${event.url}: 403 Forbidden`);
+
+    server.failWith = undefined;
+    server.store(eventPath, stored.data);
+    await expect(updateObject(client, event, { 'SUMMARY': 'x' }, { refetch: async () => undefined }))
+      .rejects.toThrow('object no longer exists on the server');
+  });
+
+  it('does not retry unconditionally when the refetched object has no etag', async () => {
+    const original = server.store(eventPath, loadFixture('vevent.ics'));
+    const event = { url: server.baseUrl + eventPath, ...original };
+    const remote = server.store(eventPath, updateFields(original.data, { 'LOCATION': 'Room 7' }));
+    server.omitEtags = true;
+
+    const error = await updateObject(client, event, { 'SUMMARY': 'Team Sync' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RequestError);
+    expect(error.message).toContain('without an etag');
+    expect(server.requests.map((request) => request.method)).toEqual(['PUT', 'REPORT']);
+    expect(server.objects.get(eventPath)).toEqual(remote);
+  });
+
+  it('wraps client and network errors in RequestError', async () => {
+    const stored = server.store(eventPath, loadFixture('vevent.ics'));
+    const event = { url: server.baseUrl + eventPath, ...stored };
+    const failing = { ...client, updateCalendarObject: async () => { throw new TypeError('fetch failed'); } };
+
+    const error = await updateObject(failing, event, { 'SUMMARY': 'x' }).catch((e) => e);
+    expect(error).toBeInstanceOf(RequestError);
+    expect(error.message).toBe(`Failed to update ${event.url}: fetch failed`);
+    expect(error.url).toBe(event.url);
+
+    server.store(eventPath, stored.data);
+    await expect(updateObject(client, event, { 'SUMMARY': 'x' }, { refetch: () => Promise.reject(new Error('offline')) }))
+      .rejects.toThrow(`Failed to fetch ${event.url}: offline`);
+  });
+
+  it('requires an etag', async () => {
+    await expect(updateObject(client, { url: server.baseUrl + eventPath, data: loadFixture('vevent.ics') }, {}))
+      .rejects.toThrow('without an etag');
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { updateFields, updateComponents } from '../src/updateFields';
+import { validateFields } from '../src/validation';
+import { updateMany } from '../src/batch';
+import { ValidationError } from '../src/errors';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+describe('validate option', () => {
+  it('leaves the default field-agnostic behaviour unchanged', () => {
+    const { data, diagnostics } = updateComponents(loadFixture('vevent.ics'), {
+      'SUMMMARY': 'Typo',
+      'STATUS': 'DONE',
+    });
+
+    expect(data).toContain('SUMMMARY:Typo');
+    expect(data).toContain('STATUS:DONE');
+    expect(diagnostics).toBeUndefined();
+  });
+
+  it('reports diagnostics in warn mode and still writes the fields', () => {
+    const { data, diagnostics } = updateComponents(loadFixture('vevent.ics'), {
+      'SUMMMARY': 'Typo',
+      'STATUS': 'DONE',
+      'X-CUSTOM': 'fine',
+    }, { validate: 'warn' });
+
+    expect(data).toContain('STATUS:DONE');
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'unknown-property',
+        component: 'VEVENT',
+        property: 'SUMMMARY',
+        expected: ['SUMMARY'],
+      }),
+      expect.objectContaining({
+        code: 'invalid-value',
+        property: 'STATUS',
+        value: 'DONE',
+        expected: ['TENTATIVE', 'CONFIRMED', 'CANCELLED'],
+      }),
+    ]);
+  });
+
+  it('passes warn-mode diagnostics from updateFields() to onDiagnostics', () => {
+    const received: unknown[][] = [];
+    const data = updateFields(loadFixture('vevent.ics'), { 'STATUS': 'DONE' }, {
+      validate: 'warn',
+      onDiagnostics: (diagnostics) => received.push(diagnostics),
+    });
+
+    expect(data).toContain('STATUS:DONE');
+    expect(received).toEqual([[expect.objectContaining({ code: 'invalid-value', property: 'STATUS', value: 'DONE' })]]);
+
+    updateFields(loadFixture('vevent.ics'), { 'STATUS': 'CANCELLED' }, {
+      validate: 'warn',
+      onDiagnostics: (diagnostics) => received.push(diagnostics),
+    });
+    expect(received).toHaveLength(1);
+  });
+
+  it('returns no diagnostics for valid updates', () => {
+    const { diagnostics } = updateComponents(loadFixture('vevent.ics'), {
+      'SUMMARY': 'Team Sync',
+      'CLASS': 'PRIVATE',
+      'TRANSP': 'TRANSPARENT',
+      'PRIORITY': 1,
+      'URL': 'https://example.com/meeting',
+      'ATTENDEE': 'mailto:jane@example.com',
+    }, { validate: 'warn' });
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('throws ValidationError with every diagnostic in strict mode', () => {
+    let error: any;
+    try {
+      updateFields(loadFixture('vevent.ics'), {
+        'ATTENDEE': 'jane@example.com',
+        'PRIORITY': 'high',
+      }, { validate: 'strict' });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.diagnostics.map((d: any) => d.property)).toEqual(['ATTENDEE', 'PRIORITY']);
+    expect(error.diagnostics[0].expected).toEqual(['mailto:jane@example.com']);
+    expect(error.message).toContain('Invalid PRIORITY "high" in VEVENT: expected an integer from 0 to 9');
+  });
+
+  it('checks STATUS per component type', () => {
+    const todo = loadFixture('vtodo.ics');
+
+    expect(() => updateFields(todo, { 'STATUS': 'IN-PROCESS' }, { validate: 'strict' })).not.toThrow();
+    expect(() => updateFields(todo, { 'STATUS': 'CONFIRMED' }, { validate: 'strict' })).toThrow(ValidationError);
+  });
+
+  it('reports properties that belong to another component', () => {
+    const { diagnostics } = updateComponents(loadFixture('vevent.ics'), {
+      'DUE': '20250128T120000Z',
+    }, { validate: 'warn' });
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ code: 'wrong-component', property: 'DUE' }),
+    ]);
+  });
+
+  it('enforces DTEND/DURATION exclusivity', () => {
+    const { diagnostics } = updateComponents(loadFixture('vevent.ics'), {
+      'DURATION': 'PT1H',
+    }, { validate: 'warn' });
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'cardinality',
+        property: 'DURATION',
+        expected: ['DTEND', 'DURATION'],
+      }),
+    ]);
+
+    expect(() => updateFields(loadFixture('vevent.ics'), {
+      'DTEND': null,
+      'DURATION': 'PT1H',
+    }, { validate: 'strict' })).not.toThrow();
+  });
+
+  it('reports repeated single-instance properties', () => {
+    const { diagnostics } = updateComponents(loadFixture('vevent.ics'), {
+      'LOCATION': ['Room A', 'Room B'],
+    }, { validate: 'warn' });
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ code: 'cardinality', property: 'LOCATION' }),
+    ]);
+  });
+
+  it('restricts X- names when asked to', () => {
+    const options = {
+      validate: { mode: 'warn' as const, xProperties: false, allowedProperties: ['X-ALLOWED'] },
+    };
+    const { diagnostics } = updateComponents(loadFixture('vevent.ics'), {
+      'X-ALLOWED': 'yes',
+      'X-OTHER': 'no',
+    }, options);
+
+    expect(diagnostics!.map((d) => d.property)).toEqual(['X-OTHER']);
+  });
+
+  it('validates vCard properties', () => {
+    const { diagnostics } = updateComponents(loadFixture('vcard.vcf'), {
+      'NOTE': 'Met at conference',
+      'KIND': 'team',
+      'EMAL': 'jane@example.com',
+    }, { validate: 'warn' });
+
+    expect(diagnostics!.map((d) => [d.code, d.property])).toEqual([
+      ['invalid-value', 'KIND'],
+      ['unknown-property', 'EMAL'],
+    ]);
+  });
+
+  it('passes through updateMany() results', () => {
+    const [result] = updateMany([loadFixture('vevent.ics')], { 'TRANSP': 'BUSY' }, { validate: 'warn' });
+
+    expect(result.status).toBe('updated');
+    expect(result.diagnostics).toHaveLength(1);
+
+    const [failed] = updateMany([loadFixture('vevent.ics')], { 'TRANSP': 'BUSY' }, { validate: 'strict' });
+    expect(failed.status).toBe('failed');
+    expect(failed.error).toBeInstanceOf(ValidationError);
+  });
+});
+
+describe('validateFields', () => {
+  it('returns no diagnostics for the fixtures', () => {
+    for (const fixture of ['vevent.ics', 'vtodo.ics', 'vevent-alarms.ics', 'vevent-recurring.ics', 'vcard.vcf']) {
+      expect(validateFields(loadFixture(fixture))).toEqual([]);
+    }
+  });
+
+  it('checks every property of the target and its alarms', () => {
+    const data = loadFixture('vevent-alarms.ics')
+      .replace('ACTION:DISPLAY', 'ACTION:POPUP')
+      .replace('SUMMARY:Dentist\n', 'SUMMARY:Dentist\nPERCENT-COMPLETE:50\n');
+
+    expect(validateFields(data).map((d) => [d.code, d.component, d.property])).toEqual([
+      ['wrong-component', 'VEVENT', 'PERCENT-COMPLETE'],
+      ['invalid-value', 'VALARM', 'ACTION'],
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { convertVCard } from '../src/vcard';
+import { toJCard } from '../src/formats';
+import { getFields } from '../src/getFields';
+import { InvalidInputError } from '../src/errors';
+
+// Helper to load fixtures
+const loadFixture = (filename: string): string => {
+  return readFileSync(join(__dirname, 'fixtures', filename), 'utf-8');
+};
+
+const vcard = (...lines: string[]): string => ['BEGIN:VCARD', ...lines, 'END:VCARD', ''].join('\r\n');
+
+describe('convertVCard', () => {
+  it('converts vCard 3.0 to 4.0', () => {
+    const { data, issues } = convertVCard(loadFixture('vcard.vcf'), '4.0');
+
+    expect(data).toContain('VERSION:4.0');
+    expect(data).toContain('FN:Jane Smith');
+    expect(data).toContain('EMAIL:jane.smith@example.com');
+    expect(data).toContain('TEL;TYPE=cell;VALUE=TEXT:+1234567890');
+    expect(data).toContain('ADR;TYPE=work:;;123 Main St;Berlin;;10115;Germany');
+    expect(issues).toEqual([]);
+  });
+
+  it('remaps PHOTO between inline base64 and data: URIs', () => {
+    const v3 = vcard('VERSION:3.0', 'FN:Jane', 'N:;Jane;;;', 'PHOTO;ENCODING=b;TYPE=JPEG:QUJD');
+
+    const v4 = convertVCard(v3, '4.0').data;
+    expect(toJCard(v4)[1]).toContainEqual(['photo', {}, 'uri', 'data:image/jpeg;base64,QUJD']);
+
+    const back = convertVCard(v4, '3.0').data;
+    expect(back).toContain('PHOTO;TYPE=JPEG;ENCODING=b:QUJD');
+  });
+
+  it('remaps TYPE parameters and preferences', () => {
+    const v3 = vcard('VERSION:3.0', 'FN:Jane', 'N:;Jane;;;', 'TEL;TYPE=WORK,VOICE;TYPE=pref:+1-555', 'EMAIL;TYPE=INTERNET,HOME:j@example.com');
+
+    const v4 = convertVCard(v3, '4.0').data;
+    expect(toJCard(v4)[1]).toContainEqual(['tel', { type: ['work', 'voice'], pref: '1' }, 'text', '+1-555']);
+    expect(toJCard(v4)[1]).toContainEqual(['email', { type: 'home' }, 'text', 'j@example.com']);
+
+    const v4Ranked = vcard('VERSION:4.0', 'FN:Jane', 'TEL;VALUE=uri;TYPE="voice,cell";PREF=2:tel:+1-555');
+    const { data, issues } = convertVCard(v4Ranked, '3.0');
+    expect(data).toContain('TEL;TYPE=VOICE,CELL,PREF:+1-555');
+    expect(issues).toContainEqual(expect.objectContaining({ kind: 'changed', property: 'TEL', parameter: 'PREF' }));
+  });
+
+  it('maps KIND and MEMBER to the X-ADDRESSBOOKSERVER properties', () => {
+    const v4 = vcard('VERSION:4.0', 'KIND:group', 'FN:Team', 'MEMBER:urn:uuid:member-1');
+
+    const { data, issues } = convertVCard(v4, '3.0');
+    expect(data).toContain('X-ADDRESSBOOKSERVER-KIND:group');
+    expect(data).toContain('X-ADDRESSBOOKSERVER-MEMBER:urn:uuid:member-1');
+    expect(data).toContain('N:Team;;;;');
+    expect(issues).toEqual([expect.objectContaining({ kind: 'derived', property: 'N' })]);
+
+    const back = convertVCard(data, '4.0').data;
+    expect(getFields(back, ['KIND', 'MEMBER'])).toEqual({ KIND: 'group', MEMBER: 'urn:uuid:member-1' });
+  });
+
+  it('maps GENDER and ANNIVERSARY', () => {
+    const v4 = vcard('VERSION:4.0', 'FN:Jane', 'GENDER:F;she', 'ANNIVERSARY:2010-06-01');
+
+    const { data, issues } = convertVCard(v4, '3.0');
+    expect(data).toContain('X-GENDER:Female');
+    expect(data).toContain('X-ANNIVERSARY:2010-06-01');
+    expect(issues).toContainEqual(expect.objectContaining({ kind: 'changed', property: 'GENDER', value: 'F;she' }));
+    expect(issues).toContainEqual(expect.objectContaining({ kind: 'renamed', property: 'ANNIVERSARY' }));
+
+    const back = toJCard(convertVCard(data, '4.0').data)[1];
+    expect(back).toContainEqual(['gender', {}, 'text', ['F', '']]);
+    expect(back).toContainEqual(['anniversary', {}, 'date-and-or-time', '2010-06-01']);
+  });
+
+  it('moves LABEL and SORT-STRING into parameters', () => {
+    const v3 = vcard('VERSION:3.0', 'FN:Jane Doe', 'N:Doe;Jane;;;', 'SORT-STRING:Doe', 'ADR;TYPE=HOME:;;1 Main St;Town;;;', 'LABEL;TYPE=HOME:1 Main St\\nTown');
+
+    const v4 = convertVCard(v3, '4.0').data;
+    const properties = toJCard(v4)[1];
+    expect(properties).toContainEqual(['n', { 'sort-as': 'Doe' }, 'text', ['Doe', 'Jane', '', '', '']]);
+    expect(properties).toContainEqual(['adr', { type: 'home', label: '1 Main St\nTown' }, 'text', ['', '', '1 Main St', 'Town', '', '', '']]);
+
+    const back = convertVCard(v4, '3.0').data;
+    expect(back).toContain('SORT-STRING:Doe');
+    expect(back).toContain('LABEL;TYPE=HOME:1 Main St\\nTown');
+  });
+
+  it('reports dropped NAME and PROFILE', () => {
+    const v3 = vcard('VERSION:3.0', 'NAME:Jane\'s card', 'PROFILE:VCARD', 'FN:Jane', 'N:;Jane;;;');
+
+    const { data, issues } = convertVCard(v3, '4.0');
+    expect(data).not.toContain('PROFILE');
+    expect(issues.map(({ kind, property }) => [kind, property])).toEqual([
+      ['dropped', 'NAME'],
+      ['dropped', 'PROFILE'],
+    ]);
+  });
+
+  it('reports properties and parameters without an equivalent', () => {
+    const v4 = vcard('VERSION:4.0', 'FN:Jane', 'BDAY:--04-12', 'EMAIL;PID=1.1:j@example.com', 'CLIENTPIDMAP:1;urn:uuid:abc', 'HOBBY:chess');
+
+    const { data, issues } = convertVCard(v4, '3.0');
+    expect(data).toContain('X-HOBBY:chess');
+    expect(data).not.toContain('CLIENTPIDMAP');
+    expect(issues.map(({ kind, property, parameter }) => [kind, property, parameter])).toEqual([
+      ['changed', 'BDAY', undefined],
+      ['dropped', 'EMAIL', 'PID'],
+      ['dropped', 'CLIENTPIDMAP', undefined],
+      ['renamed', 'HOBBY', undefined],
+      ['derived', 'N', undefined],
+    ]);
+  });
+
+  it('derives missing FN and N', () => {
+    const { data, issues } = convertVCard(vcard('VERSION:4.0', 'N:Doe;Jane;;;'), '3.0');
+    expect(data).toContain('FN:Jane Doe');
+    expect(issues).toEqual([expect.objectContaining({ kind: 'derived', property: 'FN', value: 'Jane Doe' })]);
+
+    const fromFn = convertVCard(vcard('VERSION:4.0', 'FN:Jane van Doe'), '3.0').data;
+    expect(fromFn).toContain('N:Doe;Jane van;;;');
+  });
+
+  it('returns jCard for jCard input', () => {
+    const { data } = convertVCard(toJCard(loadFixture('vcard.vcf')), '4.0');
+
+    expect(data[0]).toBe('vcard');
+    expect(data[1][0]).toEqual(['version', {}, 'text', '4.0']);
+  });
+
+  it('throws for unsupported input', () => {
+    expect(() => convertVCard(loadFixture('vevent.ics'), '4.0')).toThrow(InvalidInputError);
+    expect(() => convertVCard(vcard('VERSION:2.1', 'FN:Jane'), '4.0')).toThrow(/only 3.0 and 4.0/);
+    expect(() => convertVCard(loadFixture('vcard.vcf'), '2.1' as '3.0')).toThrow(InvalidInputError);
+  });
+});